@@ -7,9 +7,11 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Localization;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
+using Newtonsoft.Json;
 using Newtonsoft.Json.Linq;
 using System;
 using System.Collections.Generic;
+using System.ComponentModel.DataAnnotations;
 using System.Linq;
 using System.Reflection;
 using System.Security.Claims;
@@ -528,6 +530,10 @@ namespace VueCoreFramework.API.Controllers
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query, as JSON in the format of <see cref="DataQuery"/>, which
+        /// filters the results and sorts them after <paramref name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -537,25 +543,32 @@ namespace VueCoreFramework.API.Controllers
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided.
+        /// </param>
         /// <param name="culture">The name of the requested culture. Taken from the Accept-Language header.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
         /// <response code="200">
-        /// A list of ViewModels representing the child objects on the requested page.
+        /// The ViewModels representing the child objects on the requested page, along with the
+        /// total number of matching children.
         /// </response>
         [HttpGet("{id}/{childProp}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        [ProducesResponseType(typeof(PageResult), 200)]
         public async Task<IActionResult> GetChildPage(
             string dataType,
             string id,
             string childProp,
             string search,
+            string query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             [FromHeader(Name = "Accept-Language")]string culture)
         {
             if (string.IsNullOrEmpty(id))
@@ -606,11 +619,27 @@ namespace VueCoreFramework.API.Controllers
             {
                 return StatusCode(403, _errorLocalizer[ErrorMessages.NoPermission, _errorLocalizer[ErrorMessages.PermissionAction_ViewItems]]);
             }
+            DataQuery dataQuery = null;
+            if (!string.IsNullOrEmpty(query))
+            {
+                try
+                {
+                    dataQuery = JsonConvert.DeserializeObject<DataQuery>(query);
+                }
+                catch (JsonException)
+                {
+                    return BadRequest(_errorLocalizer[ErrorMessages.InvalidQueryError]);
+                }
+            }
             try
             {
-                var results = await repository.GetChildPageAsync(id, pInfo, search, sortBy, descending, page, rowsPerPage, claims, culture, _sharedLocalizer);
+                var results = await repository.GetChildPageAsync(id, pInfo, search, dataQuery, sortBy, descending, page, rowsPerPage, continuationToken, claims, culture, _sharedLocalizer);
                 return Json(results);
             }
+            catch (ArgumentException)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidQueryError]);
+            }
             catch
             {
                 return BadRequest(_errorLocalizer[ErrorMessages.DataError]);
@@ -700,10 +729,18 @@ namespace VueCoreFramework.API.Controllers
             {
                 var types = _context.Model.GetEntityTypes()
                     .Where(e =>
-                        e.Name != nameof(_context.Logs)
+                        e.Name != nameof(_context.ChatMutes)
+                        && e.Name != nameof(_context.GroupReceipts)
+                        && e.Name != nameof(_context.Logs)
                         && e.Name != nameof(_context.Messages)
+                        && e.Name != nameof(_context.MessageAttachments)
+                        && e.Name != nameof(_context.MessageEdits)
+                        && e.Name != nameof(_context.MessageFlags)
+                        && e.Name != nameof(_context.MessageMentions)
+                        && e.Name != nameof(_context.MessageReactions)
                         && e.Name != nameof(_context.RoleClaims)
                         && e.Name != nameof(_context.Roles)
+                        && e.Name != nameof(_context.ThreadReceipts)
                         && e.Name != nameof(_context.UserClaims)
                         && e.Name != nameof(_context.UserLogins)
                         && e.Name != nameof(_context.UserRoles)
@@ -777,6 +814,10 @@ namespace VueCoreFramework.API.Controllers
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query, as JSON in the format of <see cref="DataQuery"/>, which
+        /// filters the results and sorts them after <paramref name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -786,27 +827,34 @@ namespace VueCoreFramework.API.Controllers
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided.
+        /// </param>
         /// <param name="except">
         /// The primary keys of items which should be excluded from the results before calculating
-        /// the page contents.
+        /// the page contents. Excluded items are not counted in the total.
         /// </param>
         /// <param name="culture">The name of the requested culture. Taken from the Accept-Language header.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
         /// <response code="200">
-        /// A list of ViewModels representing the entities on the requested page.
+        /// The ViewModels representing the entities on the requested page, along with the total
+        /// number of matching entities.
         /// </response>
         [HttpPost]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        [ProducesResponseType(typeof(PageResult), 200)]
         public async Task<IActionResult> GetPage(
             string dataType,
             string search,
+            string query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             [FromBody]string[] except,
             [FromHeader(Name = "Accept-Language")]string culture)
         {
@@ -836,9 +884,25 @@ namespace VueCoreFramework.API.Controllers
             {
                 return BadRequest(_errorLocalizer[ErrorMessages.InvalidDataTypeError]);
             }
+            DataQuery dataQuery = null;
+            if (!string.IsNullOrEmpty(query))
+            {
+                try
+                {
+                    dataQuery = JsonConvert.DeserializeObject<DataQuery>(query);
+                }
+                catch (JsonException)
+                {
+                    return BadRequest(_errorLocalizer[ErrorMessages.InvalidQueryError]);
+                }
+            }
             try
             {
-                return Json(await repository.GetPageAsync(search, sortBy, descending, page, rowsPerPage, except, claims, culture, _sharedLocalizer));
+                return Json(await repository.GetPageAsync(search, dataQuery, sortBy, descending, page, rowsPerPage, continuationToken, except ?? new string[] { }, claims, culture, _sharedLocalizer));
+            }
+            catch (ArgumentException)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidQueryError]);
             }
             catch
             {
@@ -903,10 +967,18 @@ namespace VueCoreFramework.API.Controllers
             {
                 var types = _context.Model.GetEntityTypes()
                     .Where(e =>
-                        e.Name != nameof(_context.Logs)
+                        e.Name != nameof(_context.ChatMutes)
+                        && e.Name != nameof(_context.GroupReceipts)
+                        && e.Name != nameof(_context.Logs)
                         && e.Name != nameof(_context.Messages)
+                        && e.Name != nameof(_context.MessageAttachments)
+                        && e.Name != nameof(_context.MessageEdits)
+                        && e.Name != nameof(_context.MessageFlags)
+                        && e.Name != nameof(_context.MessageMentions)
+                        && e.Name != nameof(_context.MessageReactions)
                         && e.Name != nameof(_context.RoleClaims)
                         && e.Name != nameof(_context.Roles)
+                        && e.Name != nameof(_context.ThreadReceipts)
                         && e.Name != nameof(_context.UserClaims)
                         && e.Name != nameof(_context.UserLogins)
                         && e.Name != nameof(_context.UserRoles)
@@ -1485,14 +1557,23 @@ namespace VueCoreFramework.API.Controllers
         /// <param name="dataType">The type of entity to update.</param>
         /// <param name="item">The item to update.</param>
         /// <param name="culture">The name of the requested culture. Taken from the Accept-Language header.</param>
+        /// <param name="versionToken">
+        /// The version token of the ViewModel on which the update is based. Taken from the If-Match
+        /// header. If omitted, the update is made regardless of any changes made by others.
+        /// </param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
+        /// <response code="409">
+        /// The item has been changed since the given version. The response includes a ViewModel
+        /// representing the stored item.
+        /// </response>
         /// <response code="200">A ViewModel representing the updated item.</response>
         [HttpPost]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 409)]
         [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> Update(string dataType, [FromHeader(Name = "Accept-Language")]string culture, [FromBody]JObject item)
+        public async Task<IActionResult> Update(string dataType, [FromHeader(Name = "Accept-Language")]string culture, [FromHeader(Name = "If-Match")]string versionToken, [FromBody]JObject item)
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -1522,9 +1603,28 @@ namespace VueCoreFramework.API.Controllers
             {
                 return StatusCode(403, _errorLocalizer[ErrorMessages.NoPermission, _errorLocalizer[ErrorMessages.PermissionAction_EditItem]]);
             }
+            // Report validation failures per field, keyed by the ViewModel property names.
+            var validationResults = new List<ValidationResult>();
+            if (!Validator.TryValidateObject(obj, new ValidationContext(obj), validationResults, true))
+            {
+                foreach (var result in validationResults)
+                {
+                    foreach (var member in result.MemberNames)
+                    {
+                        ModelState.AddModelError(member.ToInitialLower(), result.ErrorMessage);
+                    }
+                }
+                return BadRequest(ModelState);
+            }
             try
             {
-                return base.Json(await repository.UpdateAsync(obj, culture, _sharedLocalizer));
+                // Version tokens are sent as quoted entity tags.
+                var (updated, conflict) = await repository.UpdateAsync(obj, versionToken?.Trim('"'), culture, _sharedLocalizer);
+                if (conflict)
+                {
+                    return StatusCode(409, new { value = _errorLocalizer[ErrorMessages.UpdateConflictError].Value, item = updated });
+                }
+                return base.Json(updated);
             }
             catch
             {
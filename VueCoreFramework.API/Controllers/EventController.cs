@@ -0,0 +1,109 @@
+﻿using IdentityModel;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Localization;
+using Microsoft.Extensions.Options;
+using System;
+using System.Collections.Generic;
+using System.Security.Claims;
+using System.Threading;
+using System.Threading.Tasks;
+using VueCoreFramework.Core.Configuration;
+using VueCoreFramework.Core.Messages;
+using VueCoreFramework.Core.Models;
+using VueCoreFramework.Core.Services;
+
+namespace VueCoreFramework.API.Controllers
+{
+    /// <summary>
+    /// An API controller which streams events to the current user as they happen.
+    /// </summary>
+    [Authorize]
+    public class EventController : Controller
+    {
+        private static readonly TimeSpan heartbeatInterval = TimeSpan.FromSeconds(30);
+
+        private readonly AdminOptions _adminOptions;
+        private readonly IStringLocalizer<ErrorMessages> _errorLocalizer;
+        private readonly IPushService _pushService;
+        private readonly UserManager<ApplicationUser> _userManager;
+
+        /// <summary>
+        /// Initializes a new instance of <see cref="EventController"/>.
+        /// </summary>
+        public EventController(
+            IOptions<AdminOptions> adminOptions,
+            IStringLocalizer<ErrorMessages> errorLocalizer,
+            IPushService pushService,
+            UserManager<ApplicationUser> userManager)
+        {
+            _adminOptions = adminOptions.Value;
+            _errorLocalizer = errorLocalizer;
+            _pushService = pushService;
+            _userManager = userManager;
+        }
+
+        /// <summary>
+        /// Called to open a stream of Server-Sent Events for the current user, which remains open
+        /// until the client disconnects. Since browsers can't add headers to an EventSource, the
+        /// access token may be given in the 'access_token' query string parameter.
+        /// </summary>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">A text/event-stream of events (see <see cref="PushEventTypes"/>).</response>
+        [HttpGet]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> Subscribe()
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            Response.ContentType = "text/event-stream";
+            Response.Headers["Cache-Control"] = "no-cache";
+
+            // Events may be published from other requests while a heartbeat is being written.
+            var writeLock = new SemaphoreSlim(1, 1);
+            async Task Send(string text)
+            {
+                await writeLock.WaitAsync();
+                try
+                {
+                    await Response.WriteAsync(text);
+                    await Response.Body.FlushAsync();
+                }
+                finally
+                {
+                    writeLock.Release();
+                }
+            }
+
+            using (_pushService.Subscribe(user.UserName, Send))
+            {
+                try
+                {
+                    // Tells the client how long to wait before reconnecting, in milliseconds.
+                    await Send("retry: 5000\n\n");
+                    while (!HttpContext.RequestAborted.IsCancellationRequested)
+                    {
+                        await Task.Delay(heartbeatInterval, HttpContext.RequestAborted);
+                        // A comment keeps proxies from closing the idle connection.
+                        await Send(": heartbeat\n\n");
+                    }
+                }
+                catch (OperationCanceledException) { }
+            }
+            return new EmptyResult();
+        }
+    }
+}
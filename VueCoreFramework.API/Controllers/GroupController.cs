@@ -30,6 +30,7 @@ namespace VueCoreFramework.API.Controllers
         private readonly IEmailSender _emailSender;
         private readonly IStringLocalizer<ErrorMessages> _errorLocalizer;
         private readonly IStringLocalizer<EmailMessages> _emailLocalizer;
+        private readonly IPushService _pushService;
         private readonly RoleManager<IdentityRole> _roleManager;
         private readonly UserManager<ApplicationUser> _userManager;
 
@@ -42,6 +43,7 @@ namespace VueCoreFramework.API.Controllers
             IEmailSender emailSender,
             IStringLocalizer<ErrorMessages> errorLocalizer,
             IStringLocalizer<EmailMessages> emailLocalizer,
+            IPushService pushService,
             RoleManager<IdentityRole> roleManager,
             UserManager<ApplicationUser> userManager)
         {
@@ -50,6 +52,7 @@ namespace VueCoreFramework.API.Controllers
             _emailSender = emailSender;
             _errorLocalizer = errorLocalizer;
             _emailLocalizer = emailLocalizer;
+            _pushService = pushService;
             _roleManager = roleManager;
             _userManager = userManager;
         }
@@ -89,6 +92,8 @@ namespace VueCoreFramework.API.Controllers
             }
 
             await _userManager.AddToRoleAsync(user, groupRole.Name);
+            await PublishToMembersAsync(groupRole.Name, PushEventTypes.Groups);
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Permissions);
             return RedirectToAction(nameof(HomeController.Index), new { forwardUrl = "/group/manage" });
         }
 
@@ -357,6 +362,8 @@ namespace VueCoreFramework.API.Controllers
                 return BadRequest(_errorLocalizer[ErrorMessages.MustHaveManagerError]);
             }
             await _userManager.RemoveFromRoleAsync(user, group);
+            await PublishToMembersAsync(group, PushEventTypes.Groups, null, user.UserName);
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Permissions);
             return Ok();
         }
 
@@ -417,11 +424,16 @@ namespace VueCoreFramework.API.Controllers
             {
                 return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
             }
+            // The members can't be found once the group is gone.
+            var members = await _userManager.GetUsersInRoleAsync(group);
+
             // Delete group messages
             var groupMessages = _context.Messages.Where(m => m.GroupRecipient == groupRole);
             _context.RemoveRange(groupMessages);
             await _context.SaveChangesAsync();
             await _roleManager.DeleteAsync(groupRole);
+            await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Groups);
+            await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Permissions);
             return Ok();
         }
 
@@ -492,6 +504,8 @@ namespace VueCoreFramework.API.Controllers
                 return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetUserError]);
             }
             await _userManager.RemoveFromRoleAsync(targetUser, groupRole.Name);
+            await PublishToMembersAsync(groupRole.Name, PushEventTypes.Groups, null, targetUser.UserName);
+            await _pushService.PublishAsync(new[] { targetUser.UserName }, PushEventTypes.Permissions);
             return Ok();
         }
 
@@ -539,6 +553,8 @@ namespace VueCoreFramework.API.Controllers
             await _roleManager.CreateAsync(role);
             await _userManager.AddToRoleAsync(user, group);
             await _userManager.AddClaimAsync(user, new Claim(CustomClaimTypes.PermissionGroupManager, group));
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Groups);
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Permissions);
             return Ok();
         }
 
@@ -606,7 +622,9 @@ namespace VueCoreFramework.API.Controllers
                     return BadRequest(_errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
                 }
             }
-            _context.UserClaims.Remove(_context.UserClaims.FirstOrDefault(c => c.ClaimType == CustomClaimTypes.PermissionGroupManager && c.ClaimValue == group));
+            var managerClaim = _context.UserClaims.FirstOrDefault(c => c.ClaimType == CustomClaimTypes.PermissionGroupManager && c.ClaimValue == group);
+            var formerManager = await _userManager.FindByIdAsync(managerClaim.UserId);
+            _context.UserClaims.Remove(managerClaim);
             await _userManager.AddClaimAsync(targetUser, new Claim(CustomClaimTypes.PermissionGroupManager, group));
 
             _context.Messages.Add(new Message
@@ -618,6 +636,9 @@ namespace VueCoreFramework.API.Controllers
             });
             await _context.SaveChangesAsync();
 
+            await PublishToMembersAsync(group, PushEventTypes.Groups, null, user.UserName);
+            await PublishToMembersAsync(group, PushEventTypes.Messages, new { group });
+            await _pushService.PublishAsync(new[] { formerManager?.UserName, targetUser.UserName }.Where(n => n != null), PushEventTypes.Permissions);
             return Ok();
         }
 
@@ -666,7 +687,16 @@ namespace VueCoreFramework.API.Controllers
             });
             await _context.SaveChangesAsync();
 
+            await _pushService.PublishAsync(new[] { user.UserName, targetUser.UserName }, PushEventTypes.Groups);
+            await _pushService.PublishAsync(new[] { targetUser.UserName }, PushEventTypes.SystemMessages);
+            await _pushService.PublishAsync(new[] { user.UserName, targetUser.UserName }, PushEventTypes.Permissions);
             return Ok();
         }
+
+        private async Task PublishToMembersAsync(string group, string type, object data = null, params string[] others)
+        {
+            var members = await _userManager.GetUsersInRoleAsync(group);
+            await _pushService.PublishAsync(members.Select(m => m.UserName).Concat(others), type, data);
+        }
     }
 }
@@ -1,20 +1,29 @@
 ﻿using IdentityModel;
 using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.Identity.EntityFrameworkCore;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Localization;
 using Microsoft.Extensions.Options;
+using Newtonsoft.Json;
+using Newtonsoft.Json.Serialization;
+using System;
 using System.Collections.Generic;
+using System.Globalization;
+using System.IO;
 using System.Linq;
 using System.Security.Claims;
+using System.Text;
+using System.Text.RegularExpressions;
 using System.Threading.Tasks;
 using VueCoreFramework.API.ViewModels;
 using VueCoreFramework.Core.Configuration;
 using VueCoreFramework.Core.Data.Identity;
 using VueCoreFramework.Core.Messages;
 using VueCoreFramework.Core.Models;
+using VueCoreFramework.Core.Services;
 using VueCoreFramework.Sample.Data;
 
 namespace VueCoreFramework.Controllers
@@ -25,44 +34,64 @@ namespace VueCoreFramework.Controllers
     [Authorize]
     public class MessageController : Controller
     {
+        private static readonly JsonSerializerSettings transcriptSerializerSettings = new JsonSerializerSettings
+        {
+            ContractResolver = new CamelCasePropertyNamesContractResolver(),
+            Formatting = Formatting.Indented
+        };
+
         private readonly AdminOptions _adminOptions;
+        private readonly AttachmentOptions _attachmentOptions;
+        private readonly IAttachmentScanner _attachmentScanner;
         private readonly ApplicationDbContext _context;
         private readonly IStringLocalizer<ErrorMessages> _errorLocalizer;
         private readonly IStringLocalizer<EmailMessages> _emailLocalizer;
+        private readonly IPushService _pushService;
         private readonly RoleManager<IdentityRole> _roleManager;
         private readonly UserManager<ApplicationUser> _userManager;
 
+        private const int MaxPageSize = 200;
+        private const int MaxThumbnailLength = 65536;
+
         /// <summary>
         /// Initializes a new instance of <see cref="MessageController"/>.
         /// </summary>
         public MessageController(
             IOptions<AdminOptions> adminOptions,
+            IOptions<AttachmentOptions> attachmentOptions,
+            IAttachmentScanner attachmentScanner,
             ApplicationDbContext context,
             IStringLocalizer<ErrorMessages> errorLocalizer,
             IStringLocalizer<EmailMessages> emailLocalizer,
+            IPushService pushService,
             RoleManager<IdentityRole> roleManager,
             UserManager<ApplicationUser> userManager)
         {
             _adminOptions = adminOptions.Value;
+            _attachmentOptions = attachmentOptions.Value;
+            _attachmentScanner = attachmentScanner;
             _context = context;
             _errorLocalizer = errorLocalizer;
             _emailLocalizer = emailLocalizer;
+            _pushService = pushService;
             _roleManager = roleManager;
             _userManager = userManager;
         }
 
         /// <summary>
-        /// Called to get a list of users involved in individual conversations in which the current
-        /// user is a sender or recipient, with an unread message count.
+        /// Called to delete a message sent by the current user. The message's content is hidden
+        /// from the participants in the conversation, but remains available to admins reviewing chat
+        /// logs.
         /// </summary>
+        /// <param name="id">The id of the message to delete.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">A list of <see cref="ConversationViewModel"/>s.</response>
-        [HttpGet]
+        /// <response code="200">Success.</response>
+        [HttpPost("{id}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> GetConversations()
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> DeleteMessage(Guid id)
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -74,43 +103,50 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            List<ConversationViewModel> vms = new List<ConversationViewModel>();
-            foreach(var message in _context.Messages
-                .Include(m => m.Sender)
-                .Include(m => m.SingleRecipient)
-                .Where(m => !m.IsSystemMessage
-                && m.GroupRecipient == null
-                && ((m.Sender == user && !m.SenderDeleted)
-                || (m.SingleRecipient == user && !m.RecipientDeleted))))
+            var target = await _context.Messages.FirstOrDefaultAsync(m => m.Id == id);
+            if (target == null || target.IsSystemMessage || target.IsDeleted)
             {
-                var interlocutor = message.Sender == user ? message.SingleRecipientName : message.SenderUsername;
-                var conversation = vms.FirstOrDefault(v => v.Interlocutor == interlocutor);
-                if (conversation == null)
-                {
-                    conversation = new ConversationViewModel { Interlocutor = interlocutor };
-                    vms.Add(conversation);
-                }
-                if (message.SingleRecipient == user && !message.Received)
-                {
-                    conversation.UnreadCount++;
-                }
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
             }
-            return Json(vms);
+            if (target.SenderUsername != user.UserName)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.SenderOnlyError]);
+            }
+
+            target.IsDeleted = true;
+            await _context.SaveChangesAsync();
+            await PublishChangeAsync(target);
+            // Mentions in deleted messages are no longer unread.
+            var mentioned = await _context.MessageMentions
+                .Where(m => m.MessageId == target.Id)
+                .Select(m => m.Username)
+                .ToListAsync();
+            if (mentioned.Count > 0)
+            {
+                await _pushService.PublishAsync(mentioned, PushEventTypes.Mentions);
+            }
+            return Ok();
         }
 
         /// <summary>
-        /// Called to get the messages exchanged within the given group.
+        /// Called to change the content of a message sent by the current user. The earlier content
+        /// is kept, for admins reviewing chat logs.
         /// </summary>
-        /// <param name="group">The name of the group whose conversation will be retrieved.</param>
+        /// <param name="id">The id of the message to edit.</param>
+        /// <param name="message">The new content of the message.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">The ordered list of <see cref="MessageViewModel"/>s.</response>
-        [HttpGet("{group}")]
+        /// <response code="200">Success.</response>
+        [HttpPost("{id}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> GetGroupMessages(string group)
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> EditMessage(Guid id, string message)
         {
+            if (string.IsNullOrEmpty(message) || message.Length > 125)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.MessageInvalidLengthError]);
+            }
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
             {
@@ -121,68 +157,55 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            var groupRole = await _roleManager.FindByNameAsync(group);
-            if (groupRole == null)
+            var target = await _context.Messages.FirstOrDefaultAsync(m => m.Id == id);
+            if (target == null || target.IsSystemMessage || target.IsDeleted)
             {
-                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
             }
-            var managerId = _context.UserClaims.FirstOrDefault(c =>
-                c.ClaimType == CustomClaimTypes.PermissionGroupManager && c.ClaimValue == group)?
-                .UserId;
-            ApplicationUser manager = null;
-            if (managerId != null)
+            if (target.SenderUsername != user.UserName)
             {
-                manager = await _userManager.FindByIdAsync(managerId);
+                return StatusCode(403, _errorLocalizer[ErrorMessages.SenderOnlyError]);
             }
 
-            var vms = new List<MessageViewModel>();
-            foreach (var message in _context.Messages
-                .Include(m => m.GroupRecipient)
-                .Include(m => m.Sender)
-                .Where(m => m.GroupRecipient == groupRole)
-                .OrderBy(m => m.Timestamp))
+            _context.MessageEdits.Add(new MessageEdit
             {
-                if (message.IsSystemMessage)
-                {
-                    vms.Add(new MessageViewModel
-                    {
-                        Content = message.Content,
-                        IsSystemMessage = true,
-                        Username = message.SenderUsername,
-                        Timestamp = message.Timestamp
-                    });
-                }
-                else
-                {
-                    var roles = await _userManager.GetRolesAsync(message.Sender);
-                    vms.Add(new MessageViewModel
-                    {
-                        Content = message.Content,
-                        IsSystemMessage = false,
-                        IsUserAdmin = roles.Contains(CustomRoles.Admin),
-                        IsUserManager = manager != null && message.Sender == manager,
-                        IsUserSiteAdmin = roles.Contains(CustomRoles.SiteAdmin),
-                        Username = message.SenderUsername,
-                        Timestamp = message.Timestamp
-                    });
-                }
+                Content = target.Content,
+                MessageId = target.Id
+            });
+            target.Content = message;
+            target.LastEdited = DateTime.UtcNow;
+            var mentioned = await AddMentionsAsync(target);
+            await _context.SaveChangesAsync();
+            await PublishChangeAsync(target);
+            if (mentioned.Count > 0)
+            {
+                await _pushService.PublishAsync(mentioned, PushEventTypes.Mentions);
             }
-            return Json(vms);
+            return Ok();
         }
 
         /// <summary>
-        /// Called to get a list of users involved in individual conversations in which the given
-        /// user is a sender or recipient. For use by admins to review chat logs.
+        /// Called to export the messages between a proxy user and the given user, or the messages
+        /// of the given group's chat, as a transcript file. For use by admins to review chat logs.
         /// </summary>
-        /// <param name="proxy">The name of the user whose conversation will be retrieved.</param>
+        /// <param name="proxy">The name of the user whose chat logs are being reviewed.</param>
+        /// <param name="username">
+        /// The name of the user whose conversation with the proxy user will be exported.
+        /// </param>
+        /// <param name="group">
+        /// The name of the group whose chat will be exported, instead of a conversation.
+        /// </param>
+        /// <param name="format">The format of the transcript: json, csv, or txt.</param>
+        /// <param name="from">If given, only messages sent at or after this time are exported.</param>
+        /// <param name="to">If given, only messages sent before this time are exported.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">A list of <see cref="ConversationViewModel"/>s.</response>
+        /// <response code="200">The transcript.</response>
         [HttpGet("{proxy}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> GetProxyConversations(string proxy)
+        [ProducesResponseType(typeof(FileContentResult), 200)]
+        public async Task<IActionResult> ExportProxyMessages(string proxy, string username = null, string group = null, string format = "json", DateTime? from = null, DateTime? to = null)
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -199,41 +222,75 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
             }
 
-            List<ConversationViewModel> vms = new List<ConversationViewModel>();
-            foreach (var message in _context.Messages
-                .Where(m => !m.IsSystemMessage
-                && (m.SenderUsername == proxy || m.SingleRecipientName == proxy)))
+            if (string.IsNullOrEmpty(username) && string.IsNullOrEmpty(group))
             {
-                var interlocutor = message.SenderUsername == proxy ? message.SingleRecipientName : message.SenderUsername;
-                var conversation = vms.FirstOrDefault(v => v.Interlocutor == interlocutor);
-                if (conversation == null)
+                return BadRequest(_errorLocalizer[ErrorMessages.MissingDataError]);
+            }
+            if (format != "json" && format != "csv" && format != "txt")
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidExportFormatError]);
+            }
+
+            var messages = await GetReviewMessages(proxy, username, group, from, to)
+                .OrderBy(m => m.Timestamp)
+                .ToListAsync();
+            var vms = await GetReviewViewModelsAsync(messages, user);
+            // Thumbnails are only a preview, and would bloat the transcript.
+            foreach (var attachment in vms.SelectMany(v => v.Attachments))
+            {
+                attachment.Thumbnail = null;
+            }
+
+            var title = string.IsNullOrEmpty(group)
+                ? $"Conversation between {proxy} and {username}"
+                : $"Group chat of {group}";
+            var fileName = $"chat-log-{(string.IsNullOrEmpty(group) ? $"{proxy}-{username}" : group)}.{format}";
+            if (format == "csv")
+            {
+                return File(Encoding.UTF8.GetBytes(GetCsvTranscript(vms)), "text/csv", fileName);
+            }
+            if (format == "txt")
+            {
+                var header = new StringBuilder();
+                header.AppendLine(title);
+                if (from.HasValue || to.HasValue)
                 {
-                    conversation = new ConversationViewModel { Interlocutor = interlocutor };
-                    vms.Add(conversation);
+                    header.AppendLine($"Sent from {from?.ToString("u") ?? "the start"} to {to?.ToString("u") ?? "the end"}");
                 }
+                header.AppendLine($"Exported by {user.UserName} at {DateTime.UtcNow:u}");
+                return File(Encoding.UTF8.GetBytes(GetTextTranscript(header.ToString(), vms)), "text/plain", fileName);
             }
-            return Json(vms);
+            var json = JsonConvert.SerializeObject(new
+            {
+                Title = title,
+                From = from,
+                To = to,
+                ExportedBy = user.UserName,
+                Exported = DateTime.UtcNow,
+                Messages = vms
+            }, transcriptSerializerSettings);
+            return File(Encoding.UTF8.GetBytes(json), "application/json", fileName);
         }
 
         /// <summary>
-        /// Called to get the messages between a proxy user and the given user. For use by admins to
-        /// review chat logs.
+        /// Called to flag a message for attention, with an optional note, or to replace the note of
+        /// a message which is already flagged. For use by admins to review chat logs.
         /// </summary>
-        /// <param name="proxy">
-        /// The name of the user whose conversation with the other user will be retrieved.
-        /// </param>
-        /// <param name="username">
-        /// The name of the user whose conversation with the proxy user will be retrieved.
-        /// </param>
+        /// <param name="id">The id of the message to flag.</param>
+        /// <param name="note">An optional note explaining why the message was flagged.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">The ordered list of <see cref="MessageViewModel"/>s.</response>
-        [HttpGet("{proxy}/{username}")]
+        /// <response code="200">Success.</response>
+        [HttpPost("{id}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> GetProxyUserMessages(string proxy, string username)
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> FlagMessage(Guid id, string note = null)
         {
+            if (note?.Length > 500)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.FlagNoteLengthError]);
+            }
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
             {
@@ -249,41 +306,38 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
             }
 
-            var vms = new List<MessageViewModel>();
-            foreach (var message in _context.Messages
-                .Include(m => m.Sender)
-                .Include(m => m.SingleRecipient)
-                .Where(m => (m.SingleRecipientName == proxy && m.SenderUsername == username)
-                || (m.SingleRecipientName == username && m.SenderUsername == proxy))
-                .OrderBy(m => m.Timestamp))
+            var target = await _context.Messages
+                .Include(m => m.Flag)
+                .FirstOrDefaultAsync(m => m.Id == id);
+            if (target == null || target.IsSystemMessage)
             {
-                var recipientRoles = await _userManager.GetRolesAsync(message.SenderUsername == proxy ? message.SingleRecipient : message.Sender);
-                vms.Add(new MessageViewModel
-                {
-                    Content = message.Content,
-                    IsSystemMessage = message.IsSystemMessage,
-                    IsUserAdmin = recipientRoles.Contains(CustomRoles.Admin),
-                    IsUserSiteAdmin = recipientRoles.Contains(CustomRoles.SiteAdmin),
-                    Received = message.Received,
-                    Username = message.SenderUsername,
-                    Timestamp = message.Timestamp
-                });
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
             }
-            return Json(vms);
+
+            if (target.Flag == null)
+            {
+                target.Flag = new MessageFlag();
+            }
+            target.Flag.Note = string.IsNullOrWhiteSpace(note) ? null : note;
+            target.Flag.Timestamp = DateTime.UtcNow;
+            target.Flag.Username = user.UserName;
+            await _context.SaveChangesAsync();
+            return Ok();
         }
 
         /// <summary>
-        /// Called to get the system messages sent to the current user which have not been marked
-        /// deleted by the current user.
+        /// Called to get the content of a file attached to a message. Admins may get files from
+        /// any conversation, in order to review chat logs.
         /// </summary>
+        /// <param name="id">The id of the attachment.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">The ordered list of <see cref="MessageViewModel"/>s.</response>
-        [HttpGet]
+        /// <response code="200">The file.</response>
+        [HttpGet("{id}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> GetSystemMessages()
+        [ProducesResponseType(typeof(FileContentResult), 200)]
+        public async Task<IActionResult> GetAttachment(Guid id)
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -295,33 +349,39 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            return Json(_context.Messages.Where(m =>
-                m.SingleRecipient == user && m.IsSystemMessage)
-                .OrderBy(m => m.Timestamp)
-                .Select(m => new MessageViewModel
-                {
-                    Content = m.Content,
-                    IsSystemMessage = true,
-                    Received = m.Received,
-                    Timestamp = m.Timestamp
-                }));
+            var attachment = await _context.MessageAttachments
+                .Include(a => a.Message)
+                .FirstOrDefaultAsync(a => a.Id == id);
+            if (attachment == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidAttachmentError]);
+            }
+            var isReview = !await IsParticipantAsync(user, attachment.Message);
+            if (isReview && !(await _userManager.GetRolesAsync(user)).Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.ParticipantOnlyError]);
+            }
+            // Files sent with a deleted message are hidden along with its content.
+            if (attachment.Message.IsDeleted && !isReview)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidAttachmentError]);
+            }
+
+            return File(attachment.Data, attachment.ContentType, attachment.FileName);
         }
 
         /// <summary>
-        /// Called to get the messages between the current user and the given user which have not
-        /// been marked deleted by the current user.
+        /// Called to get a list of users involved in individual conversations in which the current
+        /// user is a sender or recipient, with an unread message count.
         /// </summary>
-        /// <param name="username">
-        /// The name of the user whose conversation with the current user will be retrieved.
-        /// </param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">The ordered list of <see cref="MessageViewModel"/>s.</response>
-        [HttpGet("{username}")]
+        /// <response code="200">A list of <see cref="ConversationViewModel"/>s.</response>
+        [HttpGet]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
         [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
-        public async Task<IActionResult> GetUserMessages(string username)
+        public async Task<IActionResult> GetConversations()
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -333,43 +393,54 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            var vms = new List<MessageViewModel>();
-            foreach (var message in _context.Messages
+            List<ConversationViewModel> vms = new List<ConversationViewModel>();
+            foreach(var message in _context.Messages
                 .Include(m => m.Sender)
                 .Include(m => m.SingleRecipient)
-                .Where(m => (m.SingleRecipient == user && m.SenderUsername == username && !m.RecipientDeleted)
-                || (m.SingleRecipientName == username && m.Sender == user && !m.SenderDeleted))
-                .OrderBy(m => m.Timestamp))
+                .Where(m => !m.IsSystemMessage
+                && m.GroupRecipient == null
+                && ((m.Sender == user && !m.SenderDeleted)
+                || (m.SingleRecipient == user && !m.RecipientDeleted))))
             {
-                var roles = await _userManager.GetRolesAsync(message.Sender == user ? message.SingleRecipient : message.Sender);
-                vms.Add(new MessageViewModel
+                var interlocutor = message.Sender == user ? message.SingleRecipientName : message.SenderUsername;
+                var conversation = vms.FirstOrDefault(v => v.Interlocutor == interlocutor);
+                if (conversation == null)
                 {
-                    Content = message.Content,
-                    IsSystemMessage = message.IsSystemMessage,
-                    IsUserAdmin = roles.Contains(CustomRoles.Admin),
-                    IsUserSiteAdmin = roles.Contains(CustomRoles.SiteAdmin),
-                    Received = message.Received,
-                    Username = message.SenderUsername,
-                    Timestamp = message.Timestamp
-                });
+                    conversation = new ConversationViewModel { Interlocutor = interlocutor };
+                    vms.Add(conversation);
+                }
+                if (message.SingleRecipient == user && !message.Received)
+                {
+                    conversation.UnreadCount++;
+                }
             }
             return Json(vms);
         }
 
         /// <summary>
-        /// Called to mark a conversation with a given user deleted.
+        /// Called to get the messages exchanged within the given group. Replies in threads are
+        /// omitted; they are retrieved with <see cref="GetThreadMessages"/>.
         /// </summary>
-        /// <param name="username">
-        /// The name of the user whose conversation with the current user will be marked deleted.
+        /// <param name="group">The name of the group whose conversation will be retrieved.</param>
+        /// <param name="before">
+        /// If given, only messages sent before the message with this id are retrieved.
         /// </param>
+        /// <param name="after">
+        /// If given, all the messages sent after the message with this id are retrieved, and
+        /// <paramref name="before"/> and <paramref name="count"/> are ignored.
+        /// </param>
+        /// <param name="count">The greatest number of messages to retrieve.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">Success.</response>
-        [HttpPost("{username}")]
+        /// <response code="200">
+        /// The ordered list of <see cref="MessageViewModel"/>s. Without <paramref name="after"/>,
+        /// the latest <paramref name="count"/> messages.
+        /// </response>
+        [HttpGet("{group}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(200)]
-        public async Task<IActionResult> MarkConversationDeleted(string username)
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetGroupMessages(string group, Guid? before = null, Guid? after = null, int count = 50)
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -381,43 +452,42 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            foreach (var message in _context.Messages.Where(m =>
-                (m.SingleRecipient == user && m.SenderUsername == username)
-                || (m.SingleRecipientName == username && m.Sender == user)))
+            var groupRole = await _roleManager.FindByNameAsync(group);
+            if (groupRole == null)
             {
-                if (message.Sender == user)
-                {
-                    message.SenderDeleted = true;
-                }
-                else
-                {
-                    message.RecipientDeleted = true;
-                }
-                // Messages are actually deleted once both participants have marked them as such.
-                if (message.SenderDeleted && message.RecipientDeleted)
-                {
-                    _context.Messages.Remove(message);
-                }
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
             }
-            await _context.SaveChangesAsync();
-
-            return Ok();
+            var page = await GetPageAsync(_context.Messages
+                .Include(m => m.GroupRecipient)
+                .Include(m => m.Reactions)
+                .Include(m => m.Sender)
+                .Where(m => m.GroupRecipient == groupRole && m.ThreadId == null),
+                before, after, count);
+            // Messages retrieved by a member have been delivered to them.
+            if (page.Count > 0
+                && await _userManager.IsInRoleAsync(user, groupRole.Name)
+                && await AdvanceReceiptAsync(groupRole.Name, user.UserName, page.Max(m => m.Timestamp), null))
+            {
+                await _context.SaveChangesAsync();
+                var members = await _userManager.GetUsersInRoleAsync(groupRole.Name);
+                await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Receipts, new { group = groupRole.Name });
+            }
+            return Json(await GetGroupViewModelsAsync(groupRole.Name, page, user));
         }
 
         /// <summary>
-        /// Called to mark a conversation with a given user read, from the perspective of the current user.
+        /// Called to get how far each member of the given group has received and read the group's
+        /// chat. Only available to members of the group.
         /// </summary>
-        /// <param name="username">
-        /// The name of the user whose conversation with the current user will be marked read.
-        /// </param>
+        /// <param name="group">The name of the group.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">Success.</response>
-        [HttpPost("{username}")]
+        /// <response code="200">A list of <see cref="GroupReceiptViewModel"/>s.</response>
+        [HttpGet("{group}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(200)]
-        public async Task<IActionResult> MarkConversationRead(string username)
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetGroupReceipts(string group)
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -429,27 +499,44 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            foreach (var message in _context.Messages.Where(m => m.SingleRecipient == user
-                && m.SenderUsername == username))
+            var groupRole = await _roleManager.FindByNameAsync(group);
+            if (groupRole == null)
             {
-                message.Received = true;
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
+            }
+            if (!await _userManager.IsInRoleAsync(user, groupRole.Name))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
             }
-            await _context.SaveChangesAsync();
 
-            return Ok();
+            var members = await _userManager.GetUsersInRoleAsync(groupRole.Name);
+            var receipts = await _context.GroupReceipts
+                .Where(r => r.GroupName == groupRole.Name)
+                .ToListAsync();
+            return Json(members.Select(m =>
+            {
+                var receipt = receipts.FirstOrDefault(r => r.Username == m.UserName);
+                return new GroupReceiptViewModel
+                {
+                    LastDelivered = receipt?.LastDelivered,
+                    LastRead = receipt?.LastRead,
+                    Username = m.UserName
+                };
+            }));
         }
 
         /// <summary>
-        /// Called to mark all system messages sent to the current user read.
+        /// Called to get the number of unread messages mentioning the current user in each of
+        /// their groups' chats. Groups without unread mentions are omitted.
         /// </summary>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">Success.</response>
-        [HttpPost]
+        /// <response code="200">A list of <see cref="GroupMentionsViewModel"/>s.</response>
+        [HttpGet]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(200)]
-        public async Task<IActionResult> MarkSystemMessagesRead()
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetMentions()
         {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
@@ -461,33 +548,208 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            foreach (var message in _context.Messages.Where(m => m.SingleRecipient == user && m.IsSystemMessage))
+            var groups = await _userManager.GetRolesAsync(user);
+            var receipts = await _context.GroupReceipts
+                .Where(r => r.Username == user.UserName)
+                .ToListAsync();
+            var threadReceipts = await _context.ThreadReceipts
+                .Where(r => r.Username == user.UserName)
+                .ToListAsync();
+            var mentions = await _context.MessageMentions
+                .Where(m => m.Username == user.UserName && !m.Message.IsDeleted)
+                .Select(m => new { m.Message.GroupRecipientName, m.Message.ThreadId, m.Message.Timestamp })
+                .ToListAsync();
+            // A mention is read along with the rest of the group's chat, or of its thread.
+            return Json(mentions
+                .Where(m => groups.Contains(m.GroupRecipientName)
+                    && !((m.ThreadId.HasValue
+                        ? threadReceipts.FirstOrDefault(r => r.ThreadId == m.ThreadId)?.LastRead
+                        : receipts.FirstOrDefault(r => r.GroupName == m.GroupRecipientName)?.LastRead) >= m.Timestamp))
+                .GroupBy(m => m.GroupRecipientName)
+                .Select(g => new GroupMentionsViewModel { Group = g.Key, UnreadCount = g.Count() }));
+        }
+
+        /// <summary>
+        /// Called to get a single message, after it has changed. Admins may get messages from any
+        /// conversation, and receive them as they would when reviewing chat logs.
+        /// </summary>
+        /// <param name="id">The id of the message.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">A <see cref="MessageViewModel"/>.</response>
+        [HttpGet("{id}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetMessage(Guid id)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
             {
-                message.Received = true;
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
-            await _context.SaveChangesAsync();
 
-            return Ok();
+            var message = await _context.Messages
+                .Include(m => m.Edits)
+                .Include(m => m.Reactions)
+                .Include(m => m.Sender)
+                .FirstOrDefaultAsync(m => m.Id == id);
+            if (message == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
+            }
+            var isReview = !await IsParticipantAsync(user, message);
+            if (isReview && !(await _userManager.GetRolesAsync(user)).Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.ParticipantOnlyError]);
+            }
+
+            var attachments = await GetAttachmentsAsync(new[] { message });
+            var vm = new MessageViewModel
+            {
+                Id = message.Id,
+                Attachments = message.IsDeleted && !isReview ? null : attachments[message.Id].ToList(),
+                Content = message.IsDeleted && !isReview ? null : message.Content,
+                Edits = isReview ? GetEdits(message) : null,
+                IsDeleted = message.IsDeleted,
+                IsSystemMessage = message.IsSystemMessage,
+                LastEdited = message.LastEdited,
+                Reactions = GetReactions(message, user),
+                Received = message.Received,
+                ThreadId = message.ThreadId,
+                Username = message.SenderUsername,
+                Timestamp = message.Timestamp
+            };
+            if (message.GroupRecipientName != null)
+            {
+                await AddThreadsAsync(new[] { vm }, user);
+            }
+            if (!message.IsSystemMessage && message.Sender != null)
+            {
+                var roles = await _userManager.GetRolesAsync(message.Sender);
+                vm.IsUserAdmin = roles.Contains(CustomRoles.Admin);
+                vm.IsUserManager = message.GroupRecipientName != null
+                    && _context.UserClaims.Any(c => c.ClaimType == CustomClaimTypes.PermissionGroupManager
+                    && c.ClaimValue == message.GroupRecipientName
+                    && c.UserId == message.Sender.Id);
+                vm.IsUserSiteAdmin = roles.Contains(CustomRoles.SiteAdmin);
+            }
+            return Json(vm);
         }
 
         /// <summary>
-        /// Called to send a message to the given group.
+        /// Called to get the current user's settings for notifications of new messages.
         /// </summary>
-        /// <param name="group">The name of the group to which the message will be sent.</param>
-        /// <param name="message">The message to send.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">Success.</response>
-        [HttpPost("{group}")]
+        /// <response code="200">A <see cref="NotificationSettingsViewModel"/>.</response>
+        [HttpGet]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(200)]
-        public async Task<IActionResult> SendMessageToGroup(string group, string message)
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetNotificationSettings()
         {
-            if (string.IsNullOrEmpty(message) || message.Length > 125)
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
             {
-                return BadRequest(_errorLocalizer[ErrorMessages.MessageInvalidLengthError]);
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var mutes = await _context.ChatMutes
+                .Where(m => m.Username == user.UserName)
+                .ToListAsync();
+            return Json(new NotificationSettingsViewModel
+            {
+                DoNotDisturbEnd = user.DoNotDisturbEnd?.ToString(@"hh\:mm"),
+                DoNotDisturbStart = user.DoNotDisturbStart?.ToString(@"hh\:mm"),
+                MutedGroups = mutes.Where(m => m.IsGroup).Select(m => m.Name).OrderBy(n => n).ToList(),
+                MutedUsers = mutes.Where(m => !m.IsGroup).Select(m => m.Name).OrderBy(n => n).ToList()
+            });
+        }
+
+        /// <summary>
+        /// Called to get a list of users involved in individual conversations in which the given
+        /// user is a sender or recipient. For use by admins to review chat logs.
+        /// </summary>
+        /// <param name="proxy">The name of the user whose conversation will be retrieved.</param>
+        /// <param name="from">If given, only messages sent at or after this time are considered, and conversations without any are omitted.</param>
+        /// <param name="to">If given, only messages sent before this time are considered, and conversations without any are omitted.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">A list of <see cref="ConversationViewModel"/>s.</response>
+        [HttpGet("{proxy}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetProxyConversations(string proxy, DateTime? from = null, DateTime? to = null)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
+            var roles = await _userManager.GetRolesAsync(user);
+            if (!roles.Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
+            }
+
+            List<ConversationViewModel> vms = new List<ConversationViewModel>();
+            foreach (var message in FilterByDate(_context.Messages
+                .Where(m => !m.IsSystemMessage
+                && (m.SenderUsername == proxy || m.SingleRecipientName == proxy)),
+                from, to))
+            {
+                var interlocutor = message.SenderUsername == proxy ? message.SingleRecipientName : message.SenderUsername;
+                var conversation = vms.FirstOrDefault(v => v.Interlocutor == interlocutor);
+                if (conversation == null)
+                {
+                    conversation = new ConversationViewModel { Interlocutor = interlocutor };
+                    vms.Add(conversation);
+                }
+            }
+            return Json(vms);
+        }
+
+        /// <summary>
+        /// Called to get the messages of the given group's chat, including replies in threads. For
+        /// use by admins to review chat logs.
+        /// </summary>
+        /// <param name="group">The name of the group whose chat will be retrieved.</param>
+        /// <param name="before">
+        /// If given, only messages sent before the message with this id are retrieved.
+        /// </param>
+        /// <param name="after">
+        /// If given, all the messages sent after the message with this id are retrieved, and
+        /// <paramref name="before"/> and <paramref name="count"/> are ignored.
+        /// </param>
+        /// <param name="count">The greatest number of messages to retrieve.</param>
+        /// <param name="from">If given, only messages sent at or after this time are retrieved.</param>
+        /// <param name="to">If given, only messages sent before this time are retrieved.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">
+        /// The ordered list of <see cref="MessageViewModel"/>s. Without <paramref name="after"/>,
+        /// the latest <paramref name="count"/> messages.
+        /// </response>
+        [HttpGet("{group}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetProxyGroupMessages(string group, Guid? before = null, Guid? after = null, int count = 50, DateTime? from = null, DateTime? to = null)
+        {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
             {
@@ -497,48 +759,134 @@ namespace VueCoreFramework.Controllers
             {
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
+            var roles = await _userManager.GetRolesAsync(user);
+            if (!roles.Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
+            }
 
             var groupRole = await _roleManager.FindByNameAsync(group);
             if (groupRole == null)
             {
                 return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
             }
+            var page = await GetPageAsync(GetReviewMessages(null, null, groupRole.Name, from, to), before, after, count);
+            return Json(await GetReviewViewModelsAsync(page, user));
+        }
 
-            var messages = _context.Messages.Where(m => m.GroupRecipient == groupRole);
-            if (messages.Count() >= 250)
+        /// <summary>
+        /// Called to get the names of the groups in whose chats the given user may have taken
+        /// part: those to which they belong, and those to which they have sent messages. For use by
+        /// admins to review chat logs.
+        /// </summary>
+        /// <param name="proxy">The name of the user whose group chats will be retrieved.</param>
+        /// <param name="from">If given, only messages sent at or after this time are considered, and groups without any are omitted.</param>
+        /// <param name="to">If given, only messages sent before this time are considered, and groups without any are omitted.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">A list of group names.</response>
+        [HttpGet("{proxy}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetProxyGroups(string proxy, DateTime? from = null, DateTime? to = null)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
             {
-                _context.Messages.Remove(messages.OrderBy(m => m.Timestamp).FirstOrDefault());
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
             }
-            _context.Messages.Add(new Message
+            if (user.AdminLocked)
             {
-                Content = message,
-                Sender = user,
-                SenderUsername = user.UserName,
-                GroupRecipient = groupRole,
-                GroupRecipientName = groupRole.Name
-            });
-            await _context.SaveChangesAsync();
-            return Ok();
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+            var roles = await _userManager.GetRolesAsync(user);
+            if (!roles.Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
+            }
+
+            var proxyUser = await _userManager.FindByNameAsync(proxy);
+            if (proxyUser == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetUserError]);
+            }
+            var groups = await _userManager.GetRolesAsync(proxyUser);
+            var groupNames = await FilterByDate(_context.Messages
+                .Where(m => m.GroupRecipientName != null
+                && (m.SenderUsername == proxy || groups.Contains(m.GroupRecipientName))),
+                from, to)
+                .Select(m => m.GroupRecipientName)
+                .Distinct()
+                .OrderBy(g => g)
+                .ToListAsync();
+            return Json(groupNames);
         }
 
         /// <summary>
-        /// Called to send a message to the given user.
+        /// Called to get the messages between a proxy user and the given user. For use by admins to
+        /// review chat logs.
         /// </summary>
-        /// <param name="username">The name of the user to whom the message will be sent.</param>
-        /// <param name="message">The message to send.</param>
+        /// <param name="proxy">
+        /// The name of the user whose conversation with the other user will be retrieved.
+        /// </param>
+        /// <param name="username">
+        /// The name of the user whose conversation with the proxy user will be retrieved.
+        /// </param>
+        /// <param name="before">
+        /// If given, only messages sent before the message with this id are retrieved.
+        /// </param>
+        /// <param name="after">
+        /// If given, all the messages sent after the message with this id are retrieved, and
+        /// <paramref name="before"/> and <paramref name="count"/> are ignored.
+        /// </param>
+        /// <param name="count">The greatest number of messages to retrieve.</param>
+        /// <param name="from">If given, only messages sent at or after this time are retrieved.</param>
+        /// <param name="to">If given, only messages sent before this time are retrieved.</param>
         /// <response code="400">Bad request.</response>
         /// <response code="403">Forbidden.</response>
-        /// <response code="200">Success.</response>
-        [HttpPost("{username}")]
+        /// <response code="200">
+        /// The ordered list of <see cref="MessageViewModel"/>s. Without <paramref name="after"/>,
+        /// the latest <paramref name="count"/> messages.
+        /// </response>
+        [HttpGet("{proxy}/{username}")]
         [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
         [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
-        [ProducesResponseType(200)]
-        public async Task<IActionResult> SendMessageToUser(string username, string message)
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetProxyUserMessages(string proxy, string username, Guid? before = null, Guid? after = null, int count = 50, DateTime? from = null, DateTime? to = null)
         {
-            if (string.IsNullOrEmpty(message) || message.Length > 125)
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
             {
-                return BadRequest(_errorLocalizer[ErrorMessages.MessageInvalidLengthError]);
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
+            var roles = await _userManager.GetRolesAsync(user);
+            if (!roles.Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
+            }
+
+            var page = await GetPageAsync(GetReviewMessages(proxy, username, null, from, to), before, after, count);
+            return Json(await GetReviewViewModelsAsync(page, user));
+        }
+
+        /// <summary>
+        /// Called to get the system messages sent to the current user which have not been marked
+        /// deleted by the current user.
+        /// </summary>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">The ordered list of <see cref="MessageViewModel"/>s.</response>
+        [HttpGet]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetSystemMessages()
+        {
             var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
             if (user == null)
             {
@@ -549,29 +897,1299 @@ namespace VueCoreFramework.Controllers
                 return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            var targetUser = await _userManager.FindByNameAsync(username);
-            if (targetUser == null)
+            return Json(_context.Messages.Where(m =>
+                m.SingleRecipient == user && m.IsSystemMessage)
+                .OrderBy(m => m.Timestamp)
+                .Select(m => new MessageViewModel
+                {
+                    Id = m.Id,
+                    Content = m.Content,
+                    IsSystemMessage = true,
+                    Received = m.Received,
+                    Timestamp = m.Timestamp
+                }));
+        }
+
+        /// <summary>
+        /// Called to get the replies in the thread started by the given message of a group chat. Only
+        /// available to members of the group.
+        /// </summary>
+        /// <param name="id">The id of the message which started the thread.</param>
+        /// <param name="before">
+        /// If given, only replies sent before the reply with this id are retrieved.
+        /// </param>
+        /// <param name="after">
+        /// If given, all the replies sent after the reply with this id are retrieved, and
+        /// <paramref name="before"/> and <paramref name="count"/> are ignored.
+        /// </param>
+        /// <param name="count">The greatest number of replies to retrieve.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">
+        /// The ordered list of <see cref="MessageViewModel"/>s. Without <paramref name="after"/>,
+        /// the latest <paramref name="count"/> replies.
+        /// </response>
+        [HttpGet("{id}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetThreadMessages(Guid id, Guid? before = null, Guid? after = null, int count = 50)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
             {
-                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetUserError]);
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
             }
 
-            var messages = _context.Messages.Where(m =>
-                (m.Sender == user && m.SingleRecipient == targetUser)
-                || (m.Sender == targetUser && m.SingleRecipient == user));
-            if (messages.Count() >= 100)
+            var thread = await _context.Messages.FirstOrDefaultAsync(m => m.Id == id);
+            if (thread == null || thread.GroupRecipientName == null || thread.IsSystemMessage || thread.ThreadId.HasValue)
             {
-                _context.Messages.Remove(messages.OrderBy(m => m.Timestamp).FirstOrDefault());
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
             }
-            _context.Messages.Add(new Message
+            if (!await _userManager.IsInRoleAsync(user, thread.GroupRecipientName))
             {
-                Content = message,
-                Sender = user,
-                SenderUsername = user.UserName,
-                SingleRecipient = targetUser,
-                SingleRecipientName = targetUser.UserName
-            });
+                return StatusCode(403, _errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
+            }
+
+            var page = await GetPageAsync(_context.Messages
+                .Include(m => m.Reactions)
+                .Include(m => m.Sender)
+                .Where(m => m.ThreadId == thread.Id),
+                before, after, count);
+            return Json(await GetGroupViewModelsAsync(thread.GroupRecipientName, page, user));
+        }
+
+        /// <summary>
+        /// Called to get the messages between the current user and the given user which have not
+        /// been marked deleted by the current user.
+        /// </summary>
+        /// <param name="username">
+        /// The name of the user whose conversation with the current user will be retrieved.
+        /// </param>
+        /// <param name="before">
+        /// If given, only messages sent before the message with this id are retrieved.
+        /// </param>
+        /// <param name="after">
+        /// If given, all the messages sent after the message with this id are retrieved, and
+        /// <paramref name="before"/> and <paramref name="count"/> are ignored.
+        /// </param>
+        /// <param name="count">The greatest number of messages to retrieve.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">
+        /// The ordered list of <see cref="MessageViewModel"/>s. Without <paramref name="after"/>,
+        /// the latest <paramref name="count"/> messages.
+        /// </response>
+        [HttpGet("{username}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> GetUserMessages(string username, Guid? before = null, Guid? after = null, int count = 50)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var page = await GetPageAsync(_context.Messages
+                .Include(m => m.Reactions)
+                .Include(m => m.Sender)
+                .Include(m => m.SingleRecipient)
+                .Where(m => (m.SingleRecipient == user && m.SenderUsername == username && !m.RecipientDeleted)
+                || (m.SingleRecipientName == username && m.Sender == user && !m.SenderDeleted)),
+                before, after, count);
+            var attachments = await GetAttachmentsAsync(page);
+            var vms = new List<MessageViewModel>();
+            foreach (var message in page)
+            {
+                var roles = await _userManager.GetRolesAsync(message.Sender == user ? message.SingleRecipient : message.Sender);
+                vms.Add(new MessageViewModel
+                {
+                    Id = message.Id,
+                    Attachments = message.IsDeleted ? null : attachments[message.Id].ToList(),
+                    Content = message.IsDeleted ? null : message.Content,
+                    IsDeleted = message.IsDeleted,
+                    IsSystemMessage = message.IsSystemMessage,
+                    IsUserAdmin = roles.Contains(CustomRoles.Admin),
+                    IsUserSiteAdmin = roles.Contains(CustomRoles.SiteAdmin),
+                    LastEdited = message.LastEdited,
+                    Reactions = GetReactions(message, user),
+                    Received = message.Received,
+                    Username = message.SenderUsername,
+                    Timestamp = message.Timestamp
+                });
+            }
+            return Json(vms);
+        }
+
+        /// <summary>
+        /// Called to mark a conversation with a given user deleted.
+        /// </summary>
+        /// <param name="username">
+        /// The name of the user whose conversation with the current user will be marked deleted.
+        /// </param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{username}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> MarkConversationDeleted(string username)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            foreach (var message in _context.Messages.Where(m =>
+                (m.SingleRecipient == user && m.SenderUsername == username)
+                || (m.SingleRecipientName == username && m.Sender == user)))
+            {
+                if (message.Sender == user)
+                {
+                    message.SenderDeleted = true;
+                }
+                else
+                {
+                    message.RecipientDeleted = true;
+                }
+                // Messages are actually deleted once both participants have marked them as such.
+                if (message.SenderDeleted && message.RecipientDeleted)
+                {
+                    _context.Messages.Remove(message);
+                }
+            }
+            await _context.SaveChangesAsync();
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Conversations);
+
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to mark a conversation with a given user read, from the perspective of the current user.
+        /// </summary>
+        /// <param name="username">
+        /// The name of the user whose conversation with the current user will be marked read.
+        /// </param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{username}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> MarkConversationRead(string username)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            foreach (var message in _context.Messages.Where(m => m.SingleRecipient == user
+                && m.SenderUsername == username))
+            {
+                message.Received = true;
+            }
+            await _context.SaveChangesAsync();
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Conversations);
+
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to mark the chat of the given group read, up to its latest message, from the
+        /// perspective of the current user.
+        /// </summary>
+        /// <param name="group">The name of the group whose chat will be marked read.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{group}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> MarkGroupRead(string group)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var groupRole = await _roleManager.FindByNameAsync(group);
+            if (groupRole == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
+            }
+            if (!await _userManager.IsInRoleAsync(user, groupRole.Name))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
+            }
+
+            var latest = await _context.Messages
+                .Where(m => m.GroupRecipientName == groupRole.Name)
+                .MaxAsync(m => (DateTime?)m.Timestamp);
+            if (latest.HasValue && await AdvanceReceiptAsync(groupRole.Name, user.UserName, null, latest))
+            {
+                await _context.SaveChangesAsync();
+                var members = await _userManager.GetUsersInRoleAsync(groupRole.Name);
+                await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Receipts, new { group = groupRole.Name });
+                await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Mentions);
+            }
+
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to mark all system messages sent to the current user read.
+        /// </summary>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> MarkSystemMessagesRead()
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            foreach (var message in _context.Messages.Where(m => m.SingleRecipient == user && m.IsSystemMessage))
+            {
+                message.Received = true;
+            }
+            await _context.SaveChangesAsync();
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.SystemMessages);
+
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to mark the replies in the thread started by the given message read, from the
+        /// perspective of the current user.
+        /// </summary>
+        /// <param name="id">The id of the message which started the thread.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{id}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> MarkThreadRead(Guid id)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var thread = await _context.Messages.FirstOrDefaultAsync(m => m.Id == id);
+            if (thread == null || thread.GroupRecipientName == null || thread.IsSystemMessage || thread.ThreadId.HasValue)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
+            }
+            if (!await _userManager.IsInRoleAsync(user, thread.GroupRecipientName))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
+            }
+
+            var latest = await _context.Messages
+                .Where(m => m.ThreadId == thread.Id)
+                .MaxAsync(m => (DateTime?)m.Timestamp);
+            if (latest.HasValue && await AdvanceThreadReceiptAsync(thread.Id, user.UserName, latest.Value))
+            {
+                await _context.SaveChangesAsync();
+                // The unread reply count of the thread's first message has changed.
+                await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Messages, new { group = thread.GroupRecipientName, messageId = thread.Id });
+                await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Mentions);
+            }
+
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to tell the other members of the given group that the current user is typing a
+        /// message in the group's chat. Should be repeated periodically while the user types.
+        /// </summary>
+        /// <param name="group">The name of the group.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{group}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> NotifyTyping(string group)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var groupRole = await _roleManager.FindByNameAsync(group);
+            if (groupRole == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
+            }
+            if (!await _userManager.IsInRoleAsync(user, groupRole.Name))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
+            }
+
+            var members = await _userManager.GetUsersInRoleAsync(groupRole.Name);
+            await _pushService.PublishAsync(
+                members.Where(m => m.UserName != user.UserName).Select(m => m.UserName),
+                PushEventTypes.Typing,
+                new { group = groupRole.Name, username = user.UserName });
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to search the messages the current user can see: those in their individual
+        /// conversations which they have not marked deleted, those in the chats of their groups,
+        /// and their system messages. Deleted messages are not searched.
+        /// </summary>
+        /// <param name="query">The text to find in the content of the messages.</param>
+        /// <param name="sender">If given, only messages sent by the user with this name are found.</param>
+        /// <param name="group">If given, only messages sent to the group with this name are found.</param>
+        /// <param name="from">If given, only messages sent at or after this time are found.</param>
+        /// <param name="to">If given, only messages sent before this time are found.</param>
+        /// <param name="count">The greatest number of messages to find.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">
+        /// A list of <see cref="MessageSearchResultViewModel"/>s, the latest first.
+        /// </response>
+        [HttpGet]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(typeof(IDictionary<string, object>), 200)]
+        public async Task<IActionResult> SearchMessages(string query, string sender = null, string group = null, DateTime? from = null, DateTime? to = null, int count = 50)
+        {
+            if (string.IsNullOrWhiteSpace(query) || query.Length > 125)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidSearchError]);
+            }
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var groups = await _userManager.GetRolesAsync(user);
+            var messages = _context.Messages.Where(m => !m.IsDeleted
+                && m.Content.Contains(query)
+                && ((m.SingleRecipientName == user.UserName && !m.RecipientDeleted)
+                || (m.SenderUsername == user.UserName && m.SingleRecipientName != null && !m.SenderDeleted)
+                || (m.GroupRecipientName != null && groups.Contains(m.GroupRecipientName))));
+            if (!string.IsNullOrEmpty(sender))
+            {
+                messages = messages.Where(m => m.SenderUsername == sender);
+            }
+            if (!string.IsNullOrEmpty(group))
+            {
+                messages = messages.Where(m => m.GroupRecipientName == group);
+            }
+            if (from.HasValue)
+            {
+                messages = messages.Where(m => m.Timestamp >= from.Value);
+            }
+            if (to.HasValue)
+            {
+                messages = messages.Where(m => m.Timestamp < to.Value);
+            }
+
+            var results = await messages
+                .OrderByDescending(m => m.Timestamp)
+                .Take(Math.Min(Math.Max(count, 1), MaxPageSize))
+                .ToListAsync();
+            return Json(results.Select(m => new MessageSearchResultViewModel
+            {
+                Id = m.Id,
+                Content = m.Content,
+                Group = m.GroupRecipientName,
+                Interlocutor = m.GroupRecipientName != null || m.IsSystemMessage
+                    ? null
+                    : m.SenderUsername == user.UserName ? m.SingleRecipientName : m.SenderUsername,
+                IsSystemMessage = m.IsSystemMessage,
+                ThreadId = m.ThreadId,
+                Timestamp = m.Timestamp,
+                Username = m.SenderUsername
+            }));
+        }
+
+        /// <summary>
+        /// Called to send a message to the given group. The message is posted as a form, which
+        /// may include attached files.
+        /// </summary>
+        /// <param name="group">The name of the group to which the message will be sent.</param>
+        /// <param name="message">The message to send. May be empty if files are attached.</param>
+        /// <param name="attachments">The files attached to the message, if any.</param>
+        /// <param name="thumbnails">
+        /// Previews of the attached images as data URLs, in the same order as <paramref
+        /// name="attachments"/>, with empty entries for files which are not images.
+        /// </param>
+        /// <param name="threadId">
+        /// If given, the message is sent as a reply in the thread started by the message with this id.
+        /// </param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{group}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> SendMessageToGroup(string group, string message, IList<IFormFile> attachments, IList<string> thumbnails, Guid? threadId = null)
+        {
+            if ((string.IsNullOrEmpty(message) && !(attachments?.Count > 0)) || message?.Length > 125)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.MessageInvalidLengthError]);
+            }
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var groupRole = await _roleManager.FindByNameAsync(group);
+            if (groupRole == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetGroupError]);
+            }
+            // Replies are made only to messages of the group's chat which are not themselves replies.
+            if (threadId.HasValue && !await _context.Messages.AnyAsync(m => m.Id == threadId.Value
+                && m.GroupRecipientName == groupRole.Name
+                && !m.IsSystemMessage
+                && m.ThreadId == null))
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
+            }
+
+            var newMessage = new Message
+            {
+                Content = message,
+                Sender = user,
+                SenderUsername = user.UserName,
+                GroupRecipient = groupRole,
+                GroupRecipientName = groupRole.Name,
+                ThreadId = threadId
+            };
+            var attachmentError = await AddAttachmentsAsync(newMessage, attachments, thumbnails);
+            if (attachmentError != null)
+            {
+                return attachmentError;
+            }
+            var mentioned = await AddMentionsAsync(newMessage);
+
+            var messages = _context.Messages.Where(m => m.GroupRecipient == groupRole);
+            if (messages.Count() >= 250)
+            {
+                var oldest = messages.OrderBy(m => m.Timestamp).FirstOrDefault();
+                _context.Messages.Remove(oldest);
+                // A thread is removed along with the message which started it.
+                _context.Messages.RemoveRange(messages.Where(m => m.ThreadId == oldest.Id));
+            }
+            _context.Messages.Add(newMessage);
+            await _context.SaveChangesAsync();
+
+            var members = await _userManager.GetUsersInRoleAsync(groupRole.Name);
+            if (threadId.HasValue)
+            {
+                // The sender has read their own reply. The thread's first message is updated with
+                // its new reply count, as is the thread itself, wherever they are shown.
+                await AdvanceThreadReceiptAsync(threadId.Value, user.UserName, newMessage.Timestamp);
+                await _context.SaveChangesAsync();
+                await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Messages, new { group = groupRole.Name, messageId = threadId.Value });
+                if (mentioned.Count > 0)
+                {
+                    await _pushService.PublishAsync(mentioned, PushEventTypes.Mentions);
+                }
+                return Ok();
+            }
+
+            // The sender has read their own message, and members with an open connection receive
+            // it as soon as it is published.
+            foreach (var member in members)
+            {
+                if (member.UserName == user.UserName)
+                {
+                    await AdvanceReceiptAsync(groupRole.Name, member.UserName, null, newMessage.Timestamp);
+                }
+                else if (_pushService.IsConnected(member.UserName))
+                {
+                    await AdvanceReceiptAsync(groupRole.Name, member.UserName, newMessage.Timestamp, null);
+                }
+            }
+            await _context.SaveChangesAsync();
+            await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Messages, new { group = groupRole.Name });
+            if (mentioned.Count > 0)
+            {
+                await _pushService.PublishAsync(mentioned, PushEventTypes.Mentions);
+            }
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to send a message to the given user. The message is posted as a form, which may
+        /// include attached files.
+        /// </summary>
+        /// <param name="username">The name of the user to whom the message will be sent.</param>
+        /// <param name="message">The message to send. May be empty if files are attached.</param>
+        /// <param name="attachments">The files attached to the message, if any.</param>
+        /// <param name="thumbnails">
+        /// Previews of the attached images as data URLs, in the same order as <paramref
+        /// name="attachments"/>, with empty entries for files which are not images.
+        /// </param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{username}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> SendMessageToUser(string username, string message, IList<IFormFile> attachments, IList<string> thumbnails)
+        {
+            if ((string.IsNullOrEmpty(message) && !(attachments?.Count > 0)) || message?.Length > 125)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.MessageInvalidLengthError]);
+            }
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var targetUser = await _userManager.FindByNameAsync(username);
+            if (targetUser == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetUserError]);
+            }
+
+            var newMessage = new Message
+            {
+                Content = message,
+                Sender = user,
+                SenderUsername = user.UserName,
+                SingleRecipient = targetUser,
+                SingleRecipientName = targetUser.UserName
+            };
+            var attachmentError = await AddAttachmentsAsync(newMessage, attachments, thumbnails);
+            if (attachmentError != null)
+            {
+                return attachmentError;
+            }
+
+            var messages = _context.Messages.Where(m =>
+                (m.Sender == user && m.SingleRecipient == targetUser)
+                || (m.Sender == targetUser && m.SingleRecipient == user));
+            if (messages.Count() >= 100)
+            {
+                _context.Messages.Remove(messages.OrderBy(m => m.Timestamp).FirstOrDefault());
+            }
+            _context.Messages.Add(newMessage);
+            await _context.SaveChangesAsync();
+
+            // Each participant identifies the conversation by the other's name.
+            await _pushService.PublishAsync(new[] { targetUser.UserName }, PushEventTypes.Messages, new { username = user.UserName });
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.Messages, new { username = targetUser.UserName });
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to mute or unmute the current user's conversation with the given user, or the
+        /// chat of the given group. Muted chats do not raise notifications of new messages.
+        /// </summary>
+        /// <param name="muted">Whether the chat should be muted.</param>
+        /// <param name="username">The name of the other participant in the conversation.</param>
+        /// <param name="group">The name of the group, instead of a conversation.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> SetChatMuted(bool muted, string username = null, string group = null)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var isGroup = !string.IsNullOrEmpty(group);
+            var name = isGroup ? group : username;
+            if (isGroup)
+            {
+                if (!await _userManager.IsInRoleAsync(user, group))
+                {
+                    return StatusCode(403, _errorLocalizer[ErrorMessages.GroupMemberOnlyError]);
+                }
+            }
+            else if (string.IsNullOrEmpty(username) || await _userManager.FindByNameAsync(username) == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidTargetUserError]);
+            }
+
+            var mute = await _context.ChatMutes.FirstOrDefaultAsync(m =>
+                m.Username == user.UserName && m.IsGroup == isGroup && m.Name == name);
+            if (muted && mute == null)
+            {
+                _context.ChatMutes.Add(new ChatMute
+                {
+                    IsGroup = isGroup,
+                    Name = name,
+                    Username = user.UserName
+                });
+            }
+            else if (!muted && mute != null)
+            {
+                _context.ChatMutes.Remove(mute);
+            }
+            await _context.SaveChangesAsync();
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.NotificationSettings);
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to set the current user's daily do-not-disturb period, during which new messages
+        /// do not raise notifications, or to clear it if no times are given. The times are in the
+        /// user's own time zone, and the period may span midnight.
+        /// </summary>
+        /// <param name="start">The time of day at which the period starts, as hh:mm.</param>
+        /// <param name="end">The time of day at which the period ends, as hh:mm.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> SetDoNotDisturb(string start = null, string end = null)
+        {
+            TimeSpan? startTime = null;
+            TimeSpan? endTime = null;
+            if (!string.IsNullOrEmpty(start) || !string.IsNullOrEmpty(end))
+            {
+                startTime = ParseTimeOfDay(start);
+                endTime = ParseTimeOfDay(end);
+                if (!startTime.HasValue || !endTime.HasValue)
+                {
+                    return BadRequest(_errorLocalizer[ErrorMessages.InvalidScheduleError]);
+                }
+            }
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            user.DoNotDisturbStart = startTime;
+            user.DoNotDisturbEnd = endTime;
+            await _userManager.UpdateAsync(user);
+            await _pushService.PublishAsync(new[] { user.UserName }, PushEventTypes.NotificationSettings);
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to add the current user's reaction to a message with the given emoji, or to
+        /// remove it if they have already reacted with that emoji.
+        /// </summary>
+        /// <param name="id">The id of the message.</param>
+        /// <param name="emoji">The emoji with which to react.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{id}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> ToggleReaction(Guid id, string emoji)
+        {
+            if (string.IsNullOrEmpty(emoji) || emoji.Length > 16)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidReactionError]);
+            }
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+
+            var target = await _context.Messages.FirstOrDefaultAsync(m => m.Id == id);
+            if (target == null || target.IsDeleted)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
+            }
+            if (!await IsParticipantAsync(user, target))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.ParticipantOnlyError]);
+            }
+
+            var reaction = await _context.MessageReactions.FirstOrDefaultAsync(r =>
+                r.MessageId == id && r.Username == user.UserName && r.Emoji == emoji);
+            if (reaction == null)
+            {
+                _context.MessageReactions.Add(new MessageReaction
+                {
+                    Emoji = emoji,
+                    MessageId = id,
+                    Username = user.UserName
+                });
+            }
+            else
+            {
+                _context.MessageReactions.Remove(reaction);
+            }
+            await _context.SaveChangesAsync();
+            await PublishChangeAsync(target);
+            return Ok();
+        }
+
+        /// <summary>
+        /// Called to remove the flag from a message. For use by admins to review chat logs.
+        /// </summary>
+        /// <param name="id">The id of the flagged message.</param>
+        /// <response code="400">Bad request.</response>
+        /// <response code="403">Forbidden.</response>
+        /// <response code="200">Success.</response>
+        [HttpPost("{id}")]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 400)]
+        [ProducesResponseType(typeof(IDictionary<string, string>), 403)]
+        [ProducesResponseType(200)]
+        public async Task<IActionResult> UnflagMessage(Guid id)
+        {
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidUserError]);
+            }
+            if (user.AdminLocked)
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.LockedAccount, _adminOptions.AdminEmailAddress]);
+            }
+            var roles = await _userManager.GetRolesAsync(user);
+            if (!roles.Contains(CustomRoles.Admin))
+            {
+                return StatusCode(403, _errorLocalizer[ErrorMessages.AdminOnlyError]);
+            }
+
+            var flag = await _context.MessageFlags.FirstOrDefaultAsync(f => f.MessageId == id);
+            if (flag == null)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.InvalidMessageError]);
+            }
+            _context.MessageFlags.Remove(flag);
             await _context.SaveChangesAsync();
             return Ok();
         }
+
+        private async Task<IActionResult> AddAttachmentsAsync(Message message, IList<IFormFile> attachments, IList<string> thumbnails)
+        {
+            if (attachments == null)
+            {
+                return null;
+            }
+            if (attachments.Count > _attachmentOptions.MaxAttachments)
+            {
+                return BadRequest(_errorLocalizer[ErrorMessages.AttachmentCountError, _attachmentOptions.MaxAttachments]);
+            }
+            for (var i = 0; i < attachments.Count; i++)
+            {
+                var file = attachments[i];
+                var fileName = Path.GetFileName(file.FileName);
+                if (file.Length == 0 || string.IsNullOrEmpty(fileName) || fileName.Length > 256
+                    || string.IsNullOrEmpty(file.ContentType) || file.ContentType.Length > 128)
+                {
+                    return BadRequest(_errorLocalizer[ErrorMessages.InvalidAttachmentError]);
+                }
+                if (file.Length > _attachmentOptions.MaxSize)
+                {
+                    return BadRequest(_errorLocalizer[ErrorMessages.AttachmentSizeError, _attachmentOptions.MaxSize / 1024]);
+                }
+                if (!IsAllowedContentType(file.ContentType))
+                {
+                    return BadRequest(_errorLocalizer[ErrorMessages.AttachmentTypeError, file.ContentType]);
+                }
+
+                using (var stream = new MemoryStream())
+                {
+                    await file.CopyToAsync(stream);
+                    stream.Position = 0;
+                    if (!await _attachmentScanner.IsSafeAsync(fileName, file.ContentType, stream))
+                    {
+                        return BadRequest(_errorLocalizer[ErrorMessages.AttachmentRejectedError, fileName]);
+                    }
+
+                    // Previews are only kept for images, and must themselves be small images.
+                    var thumbnail = thumbnails != null && i < thumbnails.Count ? thumbnails[i] : null;
+                    if (!file.ContentType.StartsWith("image/")
+                        || thumbnail?.StartsWith("data:image/") != true
+                        || thumbnail.Length > MaxThumbnailLength)
+                    {
+                        thumbnail = null;
+                    }
+                    message.Attachments.Add(new MessageAttachment
+                    {
+                        ContentType = file.ContentType,
+                        Data = stream.ToArray(),
+                        FileName = fileName,
+                        Size = file.Length,
+                        Thumbnail = thumbnail
+                    });
+                }
+            }
+            return null;
+        }
+
+        private async Task<IList<string>> AddMentionsAsync(Message message)
+        {
+            var added = new List<string>();
+            if (message.GroupRecipientName == null || string.IsNullOrEmpty(message.Content))
+            {
+                return added;
+            }
+            var mentioned = await _context.MessageMentions
+                .Where(m => m.MessageId == message.Id)
+                .Select(m => m.Username)
+                .ToListAsync();
+            foreach (var member in await _userManager.GetUsersInRoleAsync(message.GroupRecipientName))
+            {
+                if (member.UserName == message.SenderUsername || mentioned.Contains(member.UserName))
+                {
+                    continue;
+                }
+                // A mention may be followed by punctuation, but not by more of a longer name.
+                if (Regex.IsMatch(message.Content, $@"(^|\s)@{Regex.Escape(member.UserName)}(?![\w@+-]|\.\w)", RegexOptions.IgnoreCase))
+                {
+                    message.Mentions.Add(new MessageMention { Username = member.UserName });
+                    added.Add(member.UserName);
+                }
+            }
+            return added;
+        }
+
+        private async Task AddThreadsAsync(IList<MessageViewModel> vms, ApplicationUser user)
+        {
+            var ids = vms.Where(v => !v.ThreadId.HasValue).Select(v => v.Id).ToList();
+            if (ids.Count == 0)
+            {
+                return;
+            }
+            var replies = await _context.Messages
+                .Where(m => m.ThreadId.HasValue && ids.Contains(m.ThreadId.Value))
+                .Select(m => new { ThreadId = m.ThreadId.Value, m.SenderUsername, m.Timestamp })
+                .ToListAsync();
+            var receipts = await _context.ThreadReceipts
+                .Where(r => r.Username == user.UserName && ids.Contains(r.ThreadId))
+                .ToListAsync();
+            foreach (var vm in vms)
+            {
+                var threadReplies = replies.Where(r => r.ThreadId == vm.Id).ToList();
+                if (threadReplies.Count == 0)
+                {
+                    continue;
+                }
+                var lastRead = receipts.FirstOrDefault(r => r.ThreadId == vm.Id)?.LastRead;
+                vm.ReplyCount = threadReplies.Count;
+                vm.LastReply = threadReplies.Max(r => r.Timestamp);
+                // The user's own replies are never unread.
+                vm.UnreadReplyCount = threadReplies.Count(r => r.SenderUsername != user.UserName && !(lastRead >= r.Timestamp));
+            }
+        }
+
+        private async Task<bool> AdvanceReceiptAsync(string group, string username, DateTime? delivered, DateTime? read)
+        {
+            var receipt = await _context.GroupReceipts.FirstOrDefaultAsync(r => r.GroupName == group && r.Username == username);
+            if (receipt == null)
+            {
+                receipt = new GroupReceipt { GroupName = group, Username = username };
+                _context.GroupReceipts.Add(receipt);
+            }
+            // A message which has been read has also been delivered.
+            if (!delivered.HasValue || read > delivered)
+            {
+                delivered = read;
+            }
+            var advanced = false;
+            if (delivered.HasValue && !(receipt.LastDelivered >= delivered))
+            {
+                receipt.LastDelivered = delivered;
+                advanced = true;
+            }
+            if (read.HasValue && !(receipt.LastRead >= read))
+            {
+                receipt.LastRead = read;
+                advanced = true;
+            }
+            return advanced;
+        }
+
+        private async Task<bool> AdvanceThreadReceiptAsync(Guid threadId, string username, DateTime read)
+        {
+            var receipt = await _context.ThreadReceipts.FirstOrDefaultAsync(r => r.ThreadId == threadId && r.Username == username);
+            if (receipt == null)
+            {
+                receipt = new ThreadReceipt { ThreadId = threadId, Username = username };
+                _context.ThreadReceipts.Add(receipt);
+            }
+            if (receipt.LastRead >= read)
+            {
+                return false;
+            }
+            receipt.LastRead = read;
+            return true;
+        }
+
+        private IQueryable<Message> FilterByDate(IQueryable<Message> messages, DateTime? from, DateTime? to)
+        {
+            if (from.HasValue)
+            {
+                messages = messages.Where(m => m.Timestamp >= from.Value);
+            }
+            if (to.HasValue)
+            {
+                messages = messages.Where(m => m.Timestamp < to.Value);
+            }
+            return messages;
+        }
+
+        private async Task<ILookup<Guid, AttachmentViewModel>> GetAttachmentsAsync(IEnumerable<Message> messages)
+        {
+            // The files' content is left out, since it is only retrieved when requested.
+            var ids = messages.Select(m => m.Id).ToList();
+            var attachments = await _context.MessageAttachments
+                .Where(a => ids.Contains(a.MessageId))
+                .Select(a => new
+                {
+                    a.MessageId,
+                    ViewModel = new AttachmentViewModel
+                    {
+                        Id = a.Id,
+                        ContentType = a.ContentType,
+                        FileName = a.FileName,
+                        Size = a.Size,
+                        Thumbnail = a.Thumbnail
+                    }
+                })
+                .ToListAsync();
+            return attachments.ToLookup(a => a.MessageId, a => a.ViewModel);
+        }
+
+        private string GetCsvTranscript(IList<MessageViewModel> vms)
+        {
+            // Every field is quoted, since content may contain commas, quotes, and line breaks.
+            string Quote(string value) => $"\"{value?.Replace("\"", "\"\"")}\"";
+
+            var csv = new StringBuilder();
+            csv.AppendLine("Id,Timestamp,Username,Content,IsDeleted,LastEdited,ThreadId,Attachments,FlaggedBy,FlagNote");
+            foreach (var vm in vms)
+            {
+                csv.AppendLine(string.Join(",", new[]
+                {
+                    vm.Id.ToString(),
+                    vm.Timestamp.ToString("o"),
+                    vm.Username,
+                    vm.Content,
+                    vm.IsDeleted.ToString(),
+                    vm.LastEdited?.ToString("o"),
+                    vm.ThreadId?.ToString(),
+                    string.Join("; ", vm.Attachments.Select(a => a.FileName)),
+                    vm.Flag?.Username,
+                    vm.Flag?.Note
+                }.Select(Quote)));
+            }
+            return csv.ToString();
+        }
+
+        private IList<MessageEditViewModel> GetEdits(Message message)
+            => message.Edits
+                .OrderBy(e => e.Timestamp)
+                .Select(e => new MessageEditViewModel { Content = e.Content, Timestamp = e.Timestamp })
+                .ToList();
+
+        private async Task<IList<MessageViewModel>> GetGroupViewModelsAsync(string group, IList<Message> page, ApplicationUser user)
+        {
+            var managerId = _context.UserClaims.FirstOrDefault(c =>
+                c.ClaimType == CustomClaimTypes.PermissionGroupManager && c.ClaimValue == group)?
+                .UserId;
+            ApplicationUser manager = null;
+            if (managerId != null)
+            {
+                manager = await _userManager.FindByIdAsync(managerId);
+            }
+
+            var attachments = await GetAttachmentsAsync(page);
+            var vms = new List<MessageViewModel>();
+            foreach (var message in page)
+            {
+                if (message.IsSystemMessage)
+                {
+                    vms.Add(new MessageViewModel
+                    {
+                        Id = message.Id,
+                        Content = message.Content,
+                        IsSystemMessage = true,
+                        Reactions = GetReactions(message, user),
+                        Username = message.SenderUsername,
+                        Timestamp = message.Timestamp
+                    });
+                }
+                else
+                {
+                    var roles = await _userManager.GetRolesAsync(message.Sender);
+                    vms.Add(new MessageViewModel
+                    {
+                        Id = message.Id,
+                        Attachments = message.IsDeleted ? null : attachments[message.Id].ToList(),
+                        Content = message.IsDeleted ? null : message.Content,
+                        IsDeleted = message.IsDeleted,
+                        IsSystemMessage = false,
+                        IsUserAdmin = roles.Contains(CustomRoles.Admin),
+                        IsUserManager = manager != null && message.Sender == manager,
+                        IsUserSiteAdmin = roles.Contains(CustomRoles.SiteAdmin),
+                        LastEdited = message.LastEdited,
+                        Reactions = GetReactions(message, user),
+                        ThreadId = message.ThreadId,
+                        Username = message.SenderUsername,
+                        Timestamp = message.Timestamp
+                    });
+                }
+            }
+            await AddThreadsAsync(vms, user);
+            return vms;
+        }
+
+        private async Task<IList<Message>> GetPageAsync(IQueryable<Message> messages, Guid? before, Guid? after, int count)
+        {
+            if (after.HasValue)
+            {
+                var cursor = await _context.Messages.FindAsync(after.Value);
+                if (cursor != null)
+                {
+                    // Messages sent at the same moment as the cursor are included, since their
+                    // order is unknown; the client skips any it already has.
+                    return await messages
+                        .Where(m => m.Timestamp >= cursor.Timestamp && m.Id != cursor.Id)
+                        .OrderBy(m => m.Timestamp)
+                        .ToListAsync();
+                }
+            }
+            else if (before.HasValue)
+            {
+                var cursor = await _context.Messages.FindAsync(before.Value);
+                if (cursor != null)
+                {
+                    messages = messages.Where(m => m.Timestamp <= cursor.Timestamp && m.Id != cursor.Id);
+                }
+            }
+            var page = await messages
+                .OrderByDescending(m => m.Timestamp)
+                .Take(Math.Min(Math.Max(count, 1), MaxPageSize))
+                .ToListAsync();
+            page.Reverse();
+            return page;
+        }
+
+        private IList<ReactionViewModel> GetReactions(Message message, ApplicationUser user)
+            => message.Reactions
+                .GroupBy(r => r.Emoji)
+                .Select(g => new ReactionViewModel
+                {
+                    Count = g.Count(),
+                    Emoji = g.Key,
+                    Reacted = g.Any(r => r.Username == user.UserName)
+                })
+                .ToList();
+
+        private IQueryable<Message> GetReviewMessages(string proxy, string username, string group, DateTime? from, DateTime? to)
+        {
+            IQueryable<Message> messages = _context.Messages
+                .Include(m => m.Edits)
+                .Include(m => m.Flag)
+                .Include(m => m.Reactions)
+                .Include(m => m.Sender);
+            if (group != null)
+            {
+                messages = messages.Where(m => m.GroupRecipientName == group);
+            }
+            else
+            {
+                messages = messages.Where(m => (m.SingleRecipientName == proxy && m.SenderUsername == username)
+                    || (m.SingleRecipientName == username && m.SenderUsername == proxy));
+            }
+            return FilterByDate(messages, from, to);
+        }
+
+        private async Task<IList<MessageViewModel>> GetReviewViewModelsAsync(IList<Message> page, ApplicationUser user)
+        {
+            var attachments = await GetAttachmentsAsync(page);
+            var vms = new List<MessageViewModel>();
+            foreach (var message in page)
+            {
+                var roles = message.Sender == null
+                    ? new List<string>()
+                    : await _userManager.GetRolesAsync(message.Sender);
+                // Admins reviewing chat logs see deleted messages, and earlier versions of edited
+                // ones.
+                vms.Add(new MessageViewModel
+                {
+                    Id = message.Id,
+                    Attachments = attachments[message.Id].ToList(),
+                    Content = message.Content,
+                    Edits = GetEdits(message),
+                    Flag = message.Flag == null ? null : new MessageFlagViewModel
+                    {
+                        Note = message.Flag.Note,
+                        Timestamp = message.Flag.Timestamp,
+                        Username = message.Flag.Username
+                    },
+                    IsDeleted = message.IsDeleted,
+                    IsSystemMessage = message.IsSystemMessage,
+                    IsUserAdmin = roles.Contains(CustomRoles.Admin),
+                    IsUserSiteAdmin = roles.Contains(CustomRoles.SiteAdmin),
+                    LastEdited = message.LastEdited,
+                    Reactions = GetReactions(message, user),
+                    Received = message.Received,
+                    ThreadId = message.ThreadId,
+                    Username = message.SenderUsername,
+                    Timestamp = message.Timestamp
+                });
+            }
+            return vms;
+        }
+
+        private string GetTextTranscript(string header, IList<MessageViewModel> vms)
+        {
+            var text = new StringBuilder(header);
+            foreach (var vm in vms)
+            {
+                text.AppendLine();
+                text.AppendLine($"[{vm.Timestamp:u}] {vm.Username}{(vm.ThreadId.HasValue ? " (reply)" : string.Empty)}: {vm.Content}");
+                foreach (var edit in vm.Edits)
+                {
+                    text.AppendLine($"    Earlier version, replaced at {edit.Timestamp:u}: {edit.Content}");
+                }
+                if (vm.IsDeleted)
+                {
+                    text.AppendLine("    Deleted by the sender.");
+                }
+                foreach (var attachment in vm.Attachments)
+                {
+                    text.AppendLine($"    Attachment: {attachment.FileName}");
+                }
+                if (vm.Flag != null)
+                {
+                    text.AppendLine($"    Flagged by {vm.Flag.Username} at {vm.Flag.Timestamp:u}{(vm.Flag.Note == null ? string.Empty : $": {vm.Flag.Note}")}");
+                }
+            }
+            return text.ToString();
+        }
+
+        private bool IsAllowedContentType(string contentType)
+            => _attachmentOptions.AllowedContentTypes.Any(t => t.EndsWith("/*")
+                ? contentType.StartsWith(t.Substring(0, t.Length - 1), StringComparison.OrdinalIgnoreCase)
+                : string.Equals(contentType, t, StringComparison.OrdinalIgnoreCase));
+
+        private async Task<bool> IsParticipantAsync(ApplicationUser user, Message message)
+        {
+            if (message.SenderUsername == user.UserName || message.SingleRecipientName == user.UserName)
+            {
+                return true;
+            }
+            return message.GroupRecipientName != null
+                && await _userManager.IsInRoleAsync(user, message.GroupRecipientName);
+        }
+
+        private TimeSpan? ParseTimeOfDay(string value)
+        {
+            if (TimeSpan.TryParse(value, CultureInfo.InvariantCulture, out var time)
+                && time >= TimeSpan.Zero && time < TimeSpan.FromDays(1))
+            {
+                return time;
+            }
+            return null;
+        }
+
+        private async Task PublishChangeAsync(Message message)
+        {
+            if (message.GroupRecipientName != null)
+            {
+                var members = await _userManager.GetUsersInRoleAsync(message.GroupRecipientName);
+                await _pushService.PublishAsync(members.Select(m => m.UserName), PushEventTypes.Messages, new { group = message.GroupRecipientName, messageId = message.Id });
+            }
+            else
+            {
+                // Each participant identifies the conversation by the other's name.
+                await _pushService.PublishAsync(new[] { message.SingleRecipientName }, PushEventTypes.Messages, new { username = message.SenderUsername, messageId = message.Id });
+                await _pushService.PublishAsync(new[] { message.SenderUsername }, PushEventTypes.Messages, new { username = message.SingleRecipientName, messageId = message.Id });
+            }
+        }
     }
 }
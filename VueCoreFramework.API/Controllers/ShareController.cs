@@ -15,6 +15,7 @@ using VueCoreFramework.Core.Data.Identity;
 using VueCoreFramework.Core.Extensions;
 using VueCoreFramework.Core.Messages;
 using VueCoreFramework.Core.Models;
+using VueCoreFramework.Core.Services;
 using VueCoreFramework.Sample.Data;
 
 namespace VueCoreFramework.Controllers
@@ -29,6 +30,7 @@ namespace VueCoreFramework.Controllers
         private readonly ApplicationDbContext _context;
         private readonly IStringLocalizer<ErrorMessages> _errorLocalizer;
         private readonly IStringLocalizer<EmailMessages> _emailLocalizer;
+        private readonly IPushService _pushService;
         private readonly RoleManager<IdentityRole> _roleManager;
         private readonly UserManager<ApplicationUser> _userManager;
 
@@ -40,6 +42,7 @@ namespace VueCoreFramework.Controllers
             ApplicationDbContext context,
             IStringLocalizer<ErrorMessages> errorLocalizer,
             IStringLocalizer<EmailMessages> emailLocalizer,
+            IPushService pushService,
             RoleManager<IdentityRole> roleManager,
             UserManager<ApplicationUser> userManager)
         {
@@ -47,6 +50,7 @@ namespace VueCoreFramework.Controllers
             _context = context;
             _errorLocalizer = errorLocalizer;
             _emailLocalizer = emailLocalizer;
+            _pushService = pushService;
             _roleManager = roleManager;
             _userManager = userManager;
         }
@@ -478,6 +482,7 @@ namespace VueCoreFramework.Controllers
             {
                 await _roleManager.RemoveClaimAsync(allRole, impliedClaim);
             }
+            await PublishPermissionsAsync(_userManager.Users.Select(u => u.UserName).ToList(), dataType, id);
             return Ok();
         }
 
@@ -536,6 +541,8 @@ namespace VueCoreFramework.Controllers
             {
                 await _roleManager.RemoveClaimAsync(groupRole, impliedClaim);
             }
+            var members = await _userManager.GetUsersInRoleAsync(group);
+            await PublishPermissionsAsync(members.Select(m => m.UserName), dataType, id);
             return Ok();
         }
 
@@ -587,9 +594,15 @@ namespace VueCoreFramework.Controllers
                 return BadRequest(_errorLocalizer[ErrorMessages.DataError]);
             }
             await _userManager.RemoveClaimsAsync(targetUser, GetImpliedClaimsForRemove(claim));
+            await PublishPermissionsAsync(new[] { targetUser.UserName }, dataType, id);
             return Ok();
         }
 
+        private async Task PublishPermissionsAsync(IEnumerable<string> usernames, string dataType, string id)
+        {
+            await _pushService.PublishAsync(usernames, PushEventTypes.Permissions, new { dataType, id });
+        }
+
         /// <summary>
         /// Called to share the given data with all users.
         /// </summary>
@@ -650,6 +663,7 @@ namespace VueCoreFramework.Controllers
                 claim = new Claim(operation, $"{dataType}{{{id}}}");
             }
             await _roleManager.AddClaimAsync(allRole, claim);
+            await PublishPermissionsAsync(_userManager.Users.Select(u => u.UserName).ToList(), dataType, id);
             return Ok();
         }
 
@@ -726,6 +740,8 @@ namespace VueCoreFramework.Controllers
             }
 
             await _roleManager.AddClaimAsync(groupRole, claim);
+            var members = await _userManager.GetUsersInRoleAsync(group);
+            await PublishPermissionsAsync(members.Select(m => m.UserName), dataType, id);
             return Ok();
         }
 
@@ -789,6 +805,7 @@ namespace VueCoreFramework.Controllers
                 return BadRequest(_errorLocalizer[ErrorMessages.DataError]);
             }
             await _userManager.AddClaimAsync(targetUser, claim);
+            await PublishPermissionsAsync(new[] { targetUser.UserName }, dataType, id);
             return Ok();
         }
 
@@ -79,6 +79,13 @@ namespace VueCoreFramework.API
                     options.ApiName = IdentityServerConfig.apiName;
                     options.ApiSecret = Configuration["secretJwtKey"];
                     options.EnableCaching = true;
+                    // Browsers can't add headers to an EventSource, so the event stream may
+                    // provide its token in the query string.
+                    var fromHeader = TokenRetrieval.FromAuthorizationHeader();
+                    var fromQuery = TokenRetrieval.FromQueryString();
+                    options.TokenRetriever = request => request.Path.StartsWithSegments("/api/Event")
+                        ? fromHeader(request) ?? fromQuery(request)
+                        : fromHeader(request);
                 });
 
             services.AddLocalization(options => options.ResourcesPath = "Resources");
@@ -117,8 +124,11 @@ namespace VueCoreFramework.API
 
             // Add application services.
             services.AddTransient<IEmailSender, AuthMessageSender>();
+            services.AddSingleton<IPushService, PushService>();
+            services.AddTransient<IAttachmentScanner, AttachmentScanner>();
             services.Configure<AuthMessageSenderOptions>(Configuration.GetSection("AuthMessageSender"));
             services.Configure<AdminOptions>(Configuration.GetSection("AdminOptions"));
+            services.Configure<AttachmentOptions>(Configuration.GetSection("AttachmentOptions"));
             services.Configure<URLOptions>(urls);
         }
 
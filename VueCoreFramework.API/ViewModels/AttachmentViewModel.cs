@@ -0,0 +1,35 @@
+﻿using System;
+
+namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about a file attached to a message.
+    /// </summary>
+    public class AttachmentViewModel
+    {
+        /// <summary>
+        /// The id of the attachment.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The MIME type of the file.
+        /// </summary>
+        public string ContentType { get; set; }
+
+        /// <summary>
+        /// The name of the file.
+        /// </summary>
+        public string FileName { get; set; }
+
+        /// <summary>
+        /// The size of the file, in bytes.
+        /// </summary>
+        public long Size { get; set; }
+
+        /// <summary>
+        /// A small preview of the file as a data URL, if the file is an image.
+        /// </summary>
+        public string Thumbnail { get; set; }
+    }
+}
@@ -0,0 +1,19 @@
+﻿namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about the mentions of a user in a group's chat.
+    /// </summary>
+    public class GroupMentionsViewModel
+    {
+        /// <summary>
+        /// The name of the group.
+        /// </summary>
+        public string Group { get; set; }
+
+        /// <summary>
+        /// The number of messages mentioning the current user which they have not read in the
+        /// group's chat.
+        /// </summary>
+        public int UnreadCount { get; set; }
+    }
+}
@@ -0,0 +1,26 @@
+﻿using System;
+
+namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about how far a member of a group has received and read the
+    /// group's chat.
+    /// </summary>
+    public class GroupReceiptViewModel
+    {
+        /// <summary>
+        /// The time at which the latest message delivered to the member was sent, if any has been.
+        /// </summary>
+        public DateTime? LastDelivered { get; set; }
+
+        /// <summary>
+        /// The time at which the latest message read by the member was sent, if any has been.
+        /// </summary>
+        public DateTime? LastRead { get; set; }
+
+        /// <summary>
+        /// The name of the member.
+        /// </summary>
+        public string Username { get; set; }
+    }
+}
@@ -0,0 +1,20 @@
+﻿using System;
+
+namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about an earlier version of an edited message.
+    /// </summary>
+    public class MessageEditViewModel
+    {
+        /// <summary>
+        /// The content of the message before the edit.
+        /// </summary>
+        public string Content { get; set; }
+
+        /// <summary>
+        /// The date and time when the edit was made.
+        /// </summary>
+        public DateTime Timestamp { get; set; }
+    }
+}
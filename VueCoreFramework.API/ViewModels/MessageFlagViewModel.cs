@@ -0,0 +1,25 @@
+﻿using System;
+
+namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about the flag an admin has set on a message.
+    /// </summary>
+    public class MessageFlagViewModel
+    {
+        /// <summary>
+        /// The admin's note explaining why the message was flagged, if any.
+        /// </summary>
+        public string Note { get; set; }
+
+        /// <summary>
+        /// The date and time when the message was flagged.
+        /// </summary>
+        public DateTime Timestamp { get; set; }
+
+        /// <summary>
+        /// The name of the admin who flagged the message.
+        /// </summary>
+        public string Username { get; set; }
+    }
+}
@@ -0,0 +1,53 @@
+﻿using System;
+
+namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about a message found by a search, and the conversation to which
+    /// it belongs.
+    /// </summary>
+    public class MessageSearchResultViewModel
+    {
+        /// <summary>
+        /// The id of the message.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The content of the message. May have markdown-formatted text.
+        /// </summary>
+        public string Content { get; set; }
+
+        /// <summary>
+        /// The name of the group to which the message was sent, if it is a group message.
+        /// </summary>
+        public string Group { get; set; }
+
+        /// <summary>
+        /// The name of the other participant in the current user's conversation, if it is an
+        /// individual message.
+        /// </summary>
+        public string Interlocutor { get; set; }
+
+        /// <summary>
+        /// Indicates that the message is from the system, rather than from a user.
+        /// </summary>
+        public bool IsSystemMessage { get; set; }
+
+        /// <summary>
+        /// If the message is a reply in a thread of a group chat, the id of the message which
+        /// started the thread.
+        /// </summary>
+        public Guid? ThreadId { get; set; }
+
+        /// <summary>
+        /// The date and time when the message was sent.
+        /// </summary>
+        public DateTime Timestamp { get; set; }
+
+        /// <summary>
+        /// The name of the user who sent the message.
+        /// </summary>
+        public string Username { get; set; }
+    }
+}
@@ -1,4 +1,5 @@
 ﻿using System;
+using System.Collections.Generic;
 
 namespace VueCoreFramework.API.ViewModels
 {
@@ -8,10 +9,39 @@ namespace VueCoreFramework.API.ViewModels
     public class MessageViewModel
     {
         /// <summary>
-        /// The content of the message. May have markdown-formatted text.
+        /// The id of the message.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The files sent with the message. Not sent to participants if the message was deleted.
+        /// </summary>
+        public IList<AttachmentViewModel> Attachments { get; set; }
+
+        /// <summary>
+        /// The content of the message. May have markdown-formatted text. May be empty if the
+        /// message has attachments.
         /// </summary>
         public string Content { get; set; }
 
+        /// <summary>
+        /// The earlier versions of the message, if it has been edited. Only sent to admins
+        /// reviewing chat logs.
+        /// </summary>
+        public IList<MessageEditViewModel> Edits { get; set; }
+
+        /// <summary>
+        /// The flag set on the message by an admin, if any. Only sent to admins reviewing chat
+        /// logs.
+        /// </summary>
+        public MessageFlagViewModel Flag { get; set; }
+
+        /// <summary>
+        /// Indicates that the sender has deleted the message. Its content is only sent to admins
+        /// reviewing chat logs.
+        /// </summary>
+        public bool IsDeleted { get; set; }
+
         /// <summary>
         /// Indicates that the message is from the system, rather than from a user.
         /// </summary>
@@ -32,11 +62,44 @@ namespace VueCoreFramework.API.ViewModels
         /// </summary>
         public bool IsUserSiteAdmin { get; set; }
 
+        /// <summary>
+        /// The date and time when the message was last edited, if it has been.
+        /// </summary>
+        public DateTime? LastEdited { get; set; }
+
+        /// <summary>
+        /// The date and time when the latest reply in the thread started by the message was sent,
+        /// if it has any replies.
+        /// </summary>
+        public DateTime? LastReply { get; set; }
+
+        /// <summary>
+        /// The emoji reactions to the message, with their counts.
+        /// </summary>
+        public IList<ReactionViewModel> Reactions { get; set; }
+
         /// <summary>
         /// Indicates that the single recipient has read the message.
         /// </summary>
         public bool Received { get; set; }
 
+        /// <summary>
+        /// The number of replies in the thread started by the message.
+        /// </summary>
+        public int ReplyCount { get; set; }
+
+        /// <summary>
+        /// If the message is a reply in a thread of a group chat, the id of the message which
+        /// started the thread.
+        /// </summary>
+        public Guid? ThreadId { get; set; }
+
+        /// <summary>
+        /// The number of replies in the thread started by the message which the current user has
+        /// not read.
+        /// </summary>
+        public int UnreadReplyCount { get; set; }
+
         /// <summary>
         /// The name of the user who sent the message.
         /// </summary>
@@ -0,0 +1,32 @@
+﻿using System.Collections.Generic;
+
+namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to transfer a user's settings for notifications of new messages.
+    /// </summary>
+    public class NotificationSettingsViewModel
+    {
+        /// <summary>
+        /// The time of day at which the user's do-not-disturb period ends, as hh:mm in their own
+        /// time zone, if they have one.
+        /// </summary>
+        public string DoNotDisturbEnd { get; set; }
+
+        /// <summary>
+        /// The time of day at which the user's do-not-disturb period starts, as hh:mm in their own
+        /// time zone, if they have one.
+        /// </summary>
+        public string DoNotDisturbStart { get; set; }
+
+        /// <summary>
+        /// The names of the groups whose chats the user has muted.
+        /// </summary>
+        public IList<string> MutedGroups { get; set; }
+
+        /// <summary>
+        /// The names of the users whose conversations with the user have been muted.
+        /// </summary>
+        public IList<string> MutedUsers { get; set; }
+    }
+}
@@ -0,0 +1,23 @@
+﻿namespace VueCoreFramework.API.ViewModels
+{
+    /// <summary>
+    /// Used to send information about the reactions to a message with a single emoji.
+    /// </summary>
+    public class ReactionViewModel
+    {
+        /// <summary>
+        /// The number of users who reacted with the emoji.
+        /// </summary>
+        public int Count { get; set; }
+
+        /// <summary>
+        /// The emoji.
+        /// </summary>
+        public string Emoji { get; set; }
+
+        /// <summary>
+        /// Indicates that the current user is one of those who reacted with the emoji.
+        /// </summary>
+        public bool Reacted { get; set; }
+    }
+}
@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.Identity.EntityFrameworkCore;
 using Microsoft.AspNetCore.Mvc;
+using System.Collections.Generic;
 using System.Linq;
 using System.Security.Claims;
 using System.Threading.Tasks;
@@ -52,18 +53,54 @@ namespace VueCoreFramework.Auth.Controllers
                 return new AuthorizationViewModel { Authorization = Authorization.login };
             }
 
-            var roles = await _userManager.GetRolesAsync(user);
-            roles.Add(CustomRoles.AllUsers);
-            var claims = await _userManager.GetClaimsAsync(user);
-            foreach (var roleName in roles)
+            var (claims, isAdmin) = await GetClaimsAsync(user);
+            return GetAuthorization(claims, isAdmin, dataType, $"permission/data/{operation}", id);
+        }
+
+        /// <summary>
+        /// Called to authorize the current user for a particular operation on each of a collection
+        /// of items, in a single request.
+        /// </summary>
+        /// <param name="dataType">
+        /// The type of data involved in the current operation.
+        /// </param>
+        /// <param name="ids">The primary keys of the items involved in the current operation.</param>
+        /// <param name="operation">An optional operation being performed.</param>
+        /// <response code="200">
+        /// A dictionary of primary keys to <see cref="AuthorizationViewModel"/>s indicating whether
+        /// the current user is authorized for each item.
+        /// </response>
+        [HttpPost("[controller]/[action]/{dataType}")]
+        [ProducesResponseType(typeof(IDictionary<string, AuthorizationViewModel>), 200)]
+        public async Task<IDictionary<string, AuthorizationViewModel>> AuthorizeRange(string dataType, [FromBody]string[] ids, string operation = "view")
+        {
+            var results = new Dictionary<string, AuthorizationViewModel>();
+            if (ids == null)
             {
-                var role = await _roleManager.FindByNameAsync(roleName);
-                var roleClaims = await _roleManager.GetClaimsAsync(role);
-                claims = claims.Concat(roleClaims).ToList();
+                return results;
+            }
+
+            var user = await _userManager.FindByIdAsync(HttpContext.User.FindFirstValue(JwtClaimTypes.Subject));
+            if (user == null || user.AdminLocked)
+            {
+                foreach (var id in ids.Distinct())
+                {
+                    results[id] = new AuthorizationViewModel { Authorization = Authorization.login };
+                }
+                return results;
             }
-            var isAdmin = roles.Any(r => r == CustomRoles.Admin);
 
-            operation = $"permission/data/{operation}";
+            // The user's claims are only retrieved once for all the items.
+            var (claims, isAdmin) = await GetClaimsAsync(user);
+            foreach (var id in ids.Distinct())
+            {
+                results[id] = GetAuthorization(claims, isAdmin, dataType, $"permission/data/{operation}", id);
+            }
+            return results;
+        }
+
+        private AuthorizationViewModel GetAuthorization(IList<Claim> claims, bool isAdmin, string dataType, string operation, string id)
+        {
             var vm = new AuthorizationViewModel
             {
                 Authorization = Authorization.GetAuthorization(claims, dataType, operation, id)
@@ -87,5 +124,19 @@ namespace VueCoreFramework.Auth.Controllers
 
             return vm;
         }
+
+        private async Task<(IList<Claim>, bool)> GetClaimsAsync(ApplicationUser user)
+        {
+            var roles = await _userManager.GetRolesAsync(user);
+            roles.Add(CustomRoles.AllUsers);
+            var claims = await _userManager.GetClaimsAsync(user);
+            foreach (var roleName in roles)
+            {
+                var role = await _roleManager.FindByNameAsync(roleName);
+                var roleClaims = await _roleManager.GetClaimsAsync(role);
+                claims = claims.Concat(roleClaims).ToList();
+            }
+            return (claims, roles.Any(r => r == CustomRoles.Admin));
+        }
     }
 }
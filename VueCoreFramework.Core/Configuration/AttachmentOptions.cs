@@ -0,0 +1,24 @@
+﻿namespace VueCoreFramework.Core.Configuration
+{
+    /// <summary>
+    /// Options configuration object containing the limits on files attached to messages.
+    /// </summary>
+    public class AttachmentOptions
+    {
+        /// <summary>
+        /// The MIME types of the files which may be attached. A type ending in '/*' allows any
+        /// subtype (e.g. 'image/*').
+        /// </summary>
+        public string[] AllowedContentTypes { get; set; } = new[] { "image/*", "text/plain", "application/pdf", "application/zip" };
+
+        /// <summary>
+        /// The greatest number of files which may be attached to a single message.
+        /// </summary>
+        public int MaxAttachments { get; set; } = 5;
+
+        /// <summary>
+        /// The greatest size of an attached file, in bytes.
+        /// </summary>
+        public long MaxSize { get; set; } = 5 * 1024 * 1024;
+    }
+}
@@ -0,0 +1,23 @@
+﻿namespace VueCoreFramework.Core.Configuration
+{
+    /// <summary>
+    /// Provides the settings which the Vue client needs in order to connect to the other hosts.
+    /// </summary>
+    public class ClientOptions
+    {
+        /// <summary>
+        /// The version of the API which the client requests.
+        /// </summary>
+        public string ApiVersion { get; set; } = "1.0";
+
+        /// <summary>
+        /// The client id with which the client identifies itself to IdentityServer.
+        /// </summary>
+        public string ClientId { get; set; } = IdentityServerConfig.vueClientName;
+
+        /// <summary>
+        /// The space-separated list of scopes requested by the client.
+        /// </summary>
+        public string Scopes { get; set; } = $"openid profile roles {IdentityServerConfig.apiName}";
+    }
+}
@@ -29,6 +29,11 @@ namespace VueCoreFramework.Core.Data
         /// </summary>
         string PrimaryKeyVMProperty { get; }
 
+        /// <summary>
+        /// The name of the ViewModel property which contains the item's version token. Read-only.
+        /// </summary>
+        string VersionTokenVMProperty { get; }
+
         /// <summary>
         /// Asynchronously creates a new instance of the repository's type and adds it to the <see
         /// cref="VueCoreFrameworkDbContext"/> instance.
@@ -130,6 +135,10 @@ namespace VueCoreFramework.Core.Data
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query which filters the results, and sorts them after <paramref
+        /// name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -139,17 +148,28 @@ namespace VueCoreFramework.Core.Data
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided. The other parameters should
+        /// match those of the previous request.
+        /// </param>
         /// <param name="claims">The collection of claims held by the current user.</param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        Task<IList<IDictionary<string, object>>> GetChildPageAsync(
+        /// <returns>
+        /// A <see cref="PageResult"/> containing the ViewModels on the page and the total number
+        /// of matching items.
+        /// </returns>
+        Task<PageResult> GetChildPageAsync(
             string id,
             PropertyInfo childProp,
             string search,
+            DataQuery query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             IList<Claim> claims,
             string culture,
             IStringLocalizer localizer);
@@ -182,6 +202,10 @@ namespace VueCoreFramework.Core.Data
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query which filters the results, and sorts them after <paramref
+        /// name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -191,6 +215,11 @@ namespace VueCoreFramework.Core.Data
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided. The other parameters should
+        /// match those of the previous request.
+        /// </param>
         /// <param name="except">
         /// An enumeration of primary keys of items which should be excluded from the results before
         /// calculating the page contents, as strings.
@@ -198,12 +227,18 @@ namespace VueCoreFramework.Core.Data
         /// <param name="claims">The collection of claims held by the current user.</param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        Task<IList<IDictionary<string, object>>> GetPageAsync(
+        /// <returns>
+        /// A <see cref="PageResult"/> containing the ViewModels on the page and the total number
+        /// of matching items.
+        /// </returns>
+        Task<PageResult> GetPageAsync(
             string search,
+            DataQuery query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             IEnumerable<string> except,
             IList<Claim> claims,
             string culture,
@@ -217,6 +252,10 @@ namespace VueCoreFramework.Core.Data
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query which filters the results, and sorts them after <paramref
+        /// name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -226,16 +265,27 @@ namespace VueCoreFramework.Core.Data
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided. The other parameters should
+        /// match those of the previous request.
+        /// </param>
         /// <param name="claims">The collection of claims held by the current user.</param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        Task<IList<IDictionary<string, object>>> GetPageItemsAsync(
+        /// <returns>
+        /// A <see cref="PageResult"/> containing the ViewModels on the page and the total number
+        /// of matching items.
+        /// </returns>
+        Task<PageResult> GetPageItemsAsync(
             IQueryable<object> items,
             string search,
+            DataQuery query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             IList<Claim> claims,
             string culture,
             IStringLocalizer localizer);
@@ -331,9 +381,17 @@ namespace VueCoreFramework.Core.Data
         /// ViewModel representing the updated item.
         /// </summary>
         /// <param name="item">The item to update.</param>
+        /// <param name="versionToken">
+        /// An optional version token, taken from the ViewModel on which the update is based. If the
+        /// stored item no longer has this version, it has been changed by someone else, and the
+        /// update is not made.
+        /// </param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        /// <returns>A ViewModel representing the updated item.</returns>
-        Task<IDictionary<string, object>> UpdateAsync(object item, string culture, IStringLocalizer localizer);
+        /// <returns>
+        /// A ViewModel representing the updated item, and false; or, if the update conflicts with
+        /// a change made by someone else, a ViewModel representing the stored item, and true.
+        /// </returns>
+        Task<(IDictionary<string, object>, bool)> UpdateAsync(object item, string versionToken, string culture, IStringLocalizer localizer);
     }
 }
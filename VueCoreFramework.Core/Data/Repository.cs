@@ -1,12 +1,18 @@
 ﻿using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.Metadata;
 using Microsoft.Extensions.Localization;
+using Newtonsoft.Json;
+using Newtonsoft.Json.Linq;
 using System;
+using System.Collections;
 using System.Collections.Generic;
 using System.ComponentModel.DataAnnotations;
+using System.Globalization;
 using System.Linq;
 using System.Reflection;
 using System.Security.Claims;
+using System.Security.Cryptography;
+using System.Text;
 using System.Threading.Tasks;
 using VueCoreFramework.Core.Data.Attributes;
 using VueCoreFramework.Core.Data.Identity;
@@ -29,6 +35,7 @@ namespace VueCoreFramework.Core.Data
         private readonly bool _isMenuClass;
         private DbSet<T> items;
         private const string primaryKeyVMProperty = "primaryKeyProperty";
+        private const string versionTokenVMProperty = "versionToken";
 
         /// <summary>
         /// The <see cref="IEntityType"/> of this Repository. Read-only.
@@ -49,6 +56,15 @@ namespace VueCoreFramework.Core.Data
         /// </remarks>
         public string PrimaryKeyVMProperty { get; }
 
+        /// <summary>
+        /// The name of the ViewModel property which contains the item's version token. Read-only.
+        /// </summary>
+        /// <remarks>
+        /// References a class constant, but made available as an instance property so that it can be
+        /// defined on the interface.
+        /// </remarks>
+        public string VersionTokenVMProperty { get; }
+
         /// <summary>
         /// Initializes a new instance of <see cref="Repository{T}"/>.
         /// </summary>
@@ -60,6 +76,7 @@ namespace VueCoreFramework.Core.Data
             _isMenuClass = typeof(T).GetTypeInfo().GetCustomAttribute<MenuClassAttribute>() != null;
             PrimaryKey = EntityType.FindPrimaryKey().Properties.FirstOrDefault();
             PrimaryKeyVMProperty = primaryKeyVMProperty;
+            VersionTokenVMProperty = versionTokenVMProperty;
 
             items = _context.Set<T>();
         }
@@ -198,6 +215,9 @@ namespace VueCoreFramework.Core.Data
             return false;
         }
 
+        private static string CreateContinuationToken(int skip)
+            => Convert.ToBase64String(Encoding.UTF8.GetBytes(skip.ToString(CultureInfo.InvariantCulture)));
+
         /// <summary>
         /// Asynchronously duplicates an entity in the <see cref="VueCoreFrameworkDbContext"/>. Returns a
         /// ViewModel representing the new copy.
@@ -412,6 +432,10 @@ namespace VueCoreFramework.Core.Data
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query which filters the results, and sorts them after <paramref
+        /// name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -421,17 +445,28 @@ namespace VueCoreFramework.Core.Data
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided. The other parameters should
+        /// match those of the previous request.
+        /// </param>
         /// <param name="claims">The collection of claims held by the current user.</param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        public async Task<IList<IDictionary<string, object>>> GetChildPageAsync(
+        /// <returns>
+        /// A <see cref="PageResult"/> containing the ViewModels on the page and the total number
+        /// of matching items.
+        /// </returns>
+        public async Task<PageResult> GetChildPageAsync(
             string id,
             PropertyInfo childProp,
             string search,
+            DataQuery query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             IList<Claim> claims,
             string culture,
             IStringLocalizer localizer)
@@ -452,13 +487,13 @@ namespace VueCoreFramework.Core.Data
                     await _context.Entry(child).Navigation(mtmChildNav.Name).LoadAsync();
                 }
                 var childItems = coll.CurrentValue.Cast<object>().Select(c => mtmChildNav.PropertyInfo.GetValue(c)).AsQueryable();
-                return await childRepo.GetPageItemsAsync(childItems, search, sortBy, descending, page, rowsPerPage, claims, culture, localizer);
+                return await childRepo.GetPageItemsAsync(childItems, search, query, sortBy, descending, page, rowsPerPage, continuationToken, claims, culture, localizer);
             }
             else
             {
                 var childRepo = _context.GetRepositoryForType(childType.ClrType);
                 var childItems = coll.CurrentValue.Cast<object>().AsQueryable();
-                return await childRepo.GetPageItemsAsync(childItems, search, sortBy, descending, page, rowsPerPage, claims, culture, localizer);
+                return await childRepo.GetPageItemsAsync(childItems, search, query, sortBy, descending, page, rowsPerPage, continuationToken, claims, culture, localizer);
             }
         }
 
@@ -496,6 +531,8 @@ namespace VueCoreFramework.Core.Data
                 && (entityPInfo.IsPrimaryKey() || entityPInfo.IsForeignKey()))
             {
                 fd.Type = "label";
+                // Keys are represented as strings in ViewModels.
+                fd.InputType = "string";
                 fd.HideInTable = true;
                 fd.Visible = false;
                 return fd;
@@ -507,6 +544,9 @@ namespace VueCoreFramework.Core.Data
             if (hidden?.Hidden == true)
             {
                 fd.Type = "label";
+                // Hidden properties are still included in ViewModels, so the type of their value is
+                // identified for clients.
+                fd.InputType = GetLabelValueType(pInfo);
                 fd.HideInTable = true;
                 fd.Visible = false;
                 return fd;
@@ -609,6 +649,7 @@ namespace VueCoreFramework.Core.Data
                         else if (dataType.CustomDataType == "Label")
                         {
                             fd.Type = "label";
+                            fd.InputType = GetLabelValueType(pInfo);
                         }
                         // Any custom data type not recognized as one of the special types handled above is
                         // treated as a simple text field.
@@ -812,6 +853,7 @@ namespace VueCoreFramework.Core.Data
                 else
                 {
                     fd.Type = "label";
+                    fd.InputType = GetLabelValueType(pInfo);
                 }
             }
 
@@ -926,6 +968,98 @@ namespace VueCoreFramework.Core.Data
             return _fieldDefinitions;
         }
 
+        private static Func<T, bool> GetFieldFilterPredicate(FieldFilter filter)
+        {
+            if (filter == null)
+            {
+                throw new ArgumentNullException(nameof(filter));
+            }
+            var pInfo = GetQueryProperty(filter.Field);
+            // Values are converted once, rather than for every item compared.
+            switch (filter.Operator)
+            {
+                case FieldFilter.Contains:
+                    var term = filter.Value?.ToString();
+                    if (string.IsNullOrEmpty(term))
+                    {
+                        throw new ArgumentException($"A value is required for {filter.Operator}.", nameof(filter));
+                    }
+                    return i =>
+                    {
+                        var value = pInfo.GetValue(i);
+                        return value != null && value.ToString().IndexOf(term, StringComparison.OrdinalIgnoreCase) != -1;
+                    };
+                case FieldFilter.Equal:
+                    var equalValue = GetQueryValue(filter.Value, pInfo);
+                    return i => Equals(pInfo.GetValue(i), equalValue);
+                case FieldFilter.GreaterThan:
+                    var gtValue = GetQueryValue(filter.Value, pInfo);
+                    return i => Comparer.Default.Compare(pInfo.GetValue(i), gtValue) > 0;
+                case FieldFilter.GreaterThanOrEqual:
+                    var gteValue = GetQueryValue(filter.Value, pInfo);
+                    return i => Comparer.Default.Compare(pInfo.GetValue(i), gteValue) >= 0;
+                case FieldFilter.In:
+                    if (filter.Values == null)
+                    {
+                        throw new ArgumentException($"Values are required for {filter.Operator}.", nameof(filter));
+                    }
+                    var inValues = filter.Values.Select(v => GetQueryValue(v, pInfo)).ToList();
+                    return i => inValues.Contains(pInfo.GetValue(i));
+                case FieldFilter.LessThan:
+                    var ltValue = GetQueryValue(filter.Value, pInfo);
+                    return i => Comparer.Default.Compare(pInfo.GetValue(i), ltValue) < 0;
+                case FieldFilter.LessThanOrEqual:
+                    var lteValue = GetQueryValue(filter.Value, pInfo);
+                    return i => Comparer.Default.Compare(pInfo.GetValue(i), lteValue) <= 0;
+                case FieldFilter.NotEqual:
+                    var notEqualValue = GetQueryValue(filter.Value, pInfo);
+                    return i => !Equals(pInfo.GetValue(i), notEqualValue);
+                case FieldFilter.NotNull:
+                    return i => pInfo.GetValue(i) != null;
+                case FieldFilter.Null:
+                    return i => pInfo.GetValue(i) == null;
+                case FieldFilter.Range:
+                    var lowerBound = GetQueryValue(filter.From, pInfo);
+                    var upperBound = GetQueryValue(filter.To, pInfo);
+                    return i =>
+                    {
+                        var value = pInfo.GetValue(i);
+                        // An item with no value is outside any range.
+                        return value != null
+                            && (lowerBound == null || Comparer.Default.Compare(value, lowerBound) >= 0)
+                            && (upperBound == null || Comparer.Default.Compare(value, upperBound) <= 0);
+                    };
+                default:
+                    throw new ArgumentException($"{filter.Operator} is not a valid filter operator.", nameof(filter));
+            }
+        }
+
+        private static Func<T, bool> GetFilterGroupPredicate(FilterGroup group)
+        {
+            var predicates = new List<Func<T, bool>>();
+            if (group.Filters != null)
+            {
+                predicates.AddRange(group.Filters.Select(f => GetFieldFilterPredicate(f)));
+            }
+            if (group.Groups != null)
+            {
+                predicates.AddRange(group.Groups.Select(g => GetFilterGroupPredicate(g)));
+            }
+            if (string.IsNullOrEmpty(group.Logic) || group.Logic == FilterGroup.And)
+            {
+                return i => predicates.All(p => p(i));
+            }
+            else if (group.Logic == FilterGroup.Or)
+            {
+                // An empty 'or' group places no restriction, just like an empty 'and' group.
+                return i => predicates.Count == 0 || predicates.Any(p => p(i));
+            }
+            else
+            {
+                throw new ArgumentException($"{group.Logic} is not a valid filter group logic.", nameof(group));
+            }
+        }
+
         /// <summary>
         /// Calculates and enumerates the set of entities with the given paging parameters, as ViewModels.
         /// </summary>
@@ -933,6 +1067,10 @@ namespace VueCoreFramework.Core.Data
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query which filters the results, and sorts them after <paramref
+        /// name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -942,6 +1080,11 @@ namespace VueCoreFramework.Core.Data
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided. The other parameters should
+        /// match those of the previous request.
+        /// </param>
         /// <param name="except">
         /// An enumeration of primary keys of items which should be excluded from the results before
         /// calculating the page contents, as strings.
@@ -949,18 +1092,24 @@ namespace VueCoreFramework.Core.Data
         /// <param name="claims">The collection of claims held by the current user.</param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        public async Task<IList<IDictionary<string, object>>> GetPageAsync(
+        /// <returns>
+        /// A <see cref="PageResult"/> containing the ViewModels on the page and the total number
+        /// of matching items.
+        /// </returns>
+        public async Task<PageResult> GetPageAsync(
             string search,
+            DataQuery query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             IEnumerable<string> except,
             IList<Claim> claims,
             string culture,
             IStringLocalizer localizer)
             => await GetPageItemsAsync(items.Where(i => !except.Contains(PrimaryKey.PropertyInfo.GetValue(i).ToString())),
-                search, sortBy, descending, page, rowsPerPage, claims, culture, localizer);
+                search, query, sortBy, descending, page, rowsPerPage, continuationToken, claims, culture, localizer);
 
         /// <summary>
         /// Calculates and enumerates the given items with the given paging parameters, as ViewModels.
@@ -970,6 +1119,10 @@ namespace VueCoreFramework.Core.Data
         /// An optional search term which will filter the results. Any string or numeric property
         /// with matching text will be included.
         /// </param>
+        /// <param name="query">
+        /// An optional structured query which filters the results, and sorts them after <paramref
+        /// name="sortBy"/>.
+        /// </param>
         /// <param name="sortBy">
         /// An optional property name which will be used to sort the items before calculating the
         /// page contents.
@@ -979,16 +1132,27 @@ namespace VueCoreFramework.Core.Data
         /// </param>
         /// <param name="page">The page number requested.</param>
         /// <param name="rowsPerPage">The number of items per page.</param>
+        /// <param name="continuationToken">
+        /// An optional token returned with a previous page, which requests the page following it.
+        /// Takes the place of <paramref name="page"/> when provided. The other parameters should
+        /// match those of the previous request.
+        /// </param>
         /// <param name="claims">The collection of claims held by the current user.</param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        public async Task<IList<IDictionary<string, object>>> GetPageItemsAsync(
+        /// <returns>
+        /// A <see cref="PageResult"/> containing the ViewModels on the page and the total number
+        /// of matching items.
+        /// </returns>
+        public async Task<PageResult> GetPageItemsAsync(
             IQueryable<object> items,
             string search,
+            DataQuery query,
             string sortBy,
             bool descending,
             int page,
             int rowsPerPage,
+            string continuationToken,
             IList<Claim> claims,
             string culture,
             IStringLocalizer localizer)
@@ -1004,6 +1168,13 @@ namespace VueCoreFramework.Core.Data
                 filteredItems = filteredItems.Where(i => AnyPropMatch(i, search));
             }
 
+            if (query?.Filter != null)
+            {
+                var predicate = GetFilterGroupPredicate(query.Filter);
+                filteredItems = filteredItems.Where(i => predicate(i));
+            }
+
+            IOrderedQueryable<T> orderedItems = null;
             if (!string.IsNullOrEmpty(sortBy))
             {
                 var sortProp = typeof(T).GetProperty(sortBy);
@@ -1013,21 +1184,61 @@ namespace VueCoreFramework.Core.Data
                 }
                 if (descending)
                 {
-                    filteredItems = filteredItems.OrderByDescending(i => sortProp.GetValue(i));
+                    orderedItems = filteredItems.OrderByDescending(i => sortProp.GetValue(i));
                 }
                 else
                 {
-                    filteredItems = filteredItems.OrderBy(i => sortProp.GetValue(i));
+                    orderedItems = filteredItems.OrderBy(i => sortProp.GetValue(i));
                 }
             }
+            if (query?.Sort != null)
+            {
+                // Sorts in the query break ties left by any earlier sort.
+                foreach (var sort in query.Sort)
+                {
+                    var sortProp = GetQueryProperty(sort.Field);
+                    if (orderedItems == null)
+                    {
+                        orderedItems = sort.Descending
+                            ? filteredItems.OrderByDescending(i => sortProp.GetValue(i))
+                            : filteredItems.OrderBy(i => sortProp.GetValue(i));
+                    }
+                    else
+                    {
+                        orderedItems = sort.Descending
+                            ? orderedItems.ThenByDescending(i => sortProp.GetValue(i))
+                            : orderedItems.ThenBy(i => sortProp.GetValue(i));
+                    }
+                }
+            }
+            if (orderedItems != null)
+            {
+                filteredItems = orderedItems;
+            }
 
-            if (rowsPerPage > 0)
+            // Counted before paging, so that the total reflects every filter but not the page size.
+            var total = filteredItems.LongCount();
+
+            var skip = 0;
+            if (!string.IsNullOrEmpty(continuationToken))
+            {
+                skip = ParseContinuationToken(continuationToken);
+            }
+            else if (rowsPerPage > 0)
             {
                 if (page < 1)
                 {
                     throw new ArgumentException($"{nameof(page)} cannot be < 1 if {nameof(rowsPerPage)} is > 0.", nameof(page));
                 }
-                filteredItems = filteredItems.Skip((page - 1) * rowsPerPage).Take(rowsPerPage);
+                skip = (page - 1) * rowsPerPage;
+            }
+            if (skip > 0)
+            {
+                filteredItems = filteredItems.Skip(skip);
+            }
+            if (rowsPerPage > 0)
+            {
+                filteredItems = filteredItems.Take(rowsPerPage);
             }
 
             IList<IDictionary<string, object>> vms = new List<IDictionary<string, object>>();
@@ -1035,7 +1246,30 @@ namespace VueCoreFramework.Core.Data
             {
                 vms.Add(await GetViewModelAsync(item, culture, localizer));
             }
-            return vms;
+            return new PageResult
+            {
+                ContinuationToken = rowsPerPage > 0 && skip + rowsPerPage < total
+                    ? CreateContinuationToken(skip + rowsPerPage)
+                    : null,
+                PageItems = vms,
+                TotalItems = total
+            };
+        }
+
+        /// <summary>
+        /// Identifies the type of value a label field's property is given in ViewModels, as the
+        /// name of the corresponding JavaScript type.
+        /// </summary>
+        private static string GetLabelValueType(PropertyInfo pInfo)
+        {
+            if (pInfo.PropertyType.GetTypeInfo().IsEnum)
+            {
+                // Enums are given their integer value.
+                return "number";
+            }
+            // All other values are represented as strings, including booleans, and placeholder
+            // text for unsupported types.
+            return "string";
         }
 
         private static IProperty GetPrimaryKey(IEntityType entityType)
@@ -1112,12 +1346,53 @@ namespace VueCoreFramework.Core.Data
             }
         }
 
+        private static PropertyInfo GetQueryProperty(string field)
+        {
+            // Queries use the ViewModel's initial-lower-case property names.
+            var pInfo = string.IsNullOrEmpty(field) ? null : typeof(T).GetProperty(field.ToInitialCaps());
+            if (pInfo == null)
+            {
+                throw new ArgumentException($"{field} is not a valid property for this item.", nameof(field));
+            }
+            return pInfo;
+        }
+
+        private static object GetQueryValue(JToken token, PropertyInfo pInfo)
+        {
+            if (token == null || token.Type == JTokenType.Null)
+            {
+                return null;
+            }
+            var type = Nullable.GetUnderlyingType(pInfo.PropertyType) ?? pInfo.PropertyType;
+            try
+            {
+                return token.ToObject(type);
+            }
+            catch (Exception ex)
+            {
+                throw new ArgumentException($"{token} is not a valid value for {pInfo.Name}.", nameof(token), ex);
+            }
+        }
+
         /// <summary>
         /// Asynchronously returns a <see cref="long"/> that represents the total number of entities
         /// in the set.
         /// </summary>
         public async Task<long> GetTotalAsync() => await items.LongCountAsync();
 
+        private string GetVersionToken(T item)
+        {
+            // The token is a hash of the item's stored values. Original values are used, so that
+            // changes which have not yet been saved don't affect it.
+            var values = _context.Entry(item).Properties
+                .OrderBy(p => p.Metadata.Name)
+                .Select(p => p.OriginalValue);
+            using (var sha = SHA256.Create())
+            {
+                return Convert.ToBase64String(sha.ComputeHash(Encoding.UTF8.GetBytes(JsonConvert.SerializeObject(values))));
+            }
+        }
+
         private async Task<IDictionary<string, object>> GetViewModelAsync(T item, string culture, IStringLocalizer localizer)
         {
             IDictionary<string, object> vm = new Dictionary<string, object>();
@@ -1127,6 +1402,12 @@ namespace VueCoreFramework.Core.Data
             // Add a property to the VM which identifies the primary key.
             vm[primaryKeyVMProperty] = PrimaryKey.Name.ToInitialLower();
 
+            // Add a property to the VM which identifies the stored version of the item.
+            if (item != null)
+            {
+                vm[versionTokenVMProperty] = GetVersionToken(item);
+            }
+
             // Load all navigation properties.
             if (entry != null)
             {
@@ -1344,6 +1625,21 @@ namespace VueCoreFramework.Core.Data
             return true;
         }
 
+        private static int ParseContinuationToken(string continuationToken)
+        {
+            try
+            {
+                var skip = int.Parse(Encoding.UTF8.GetString(Convert.FromBase64String(continuationToken)), CultureInfo.InvariantCulture);
+                if (skip >= 0)
+                {
+                    return skip;
+                }
+            }
+            catch (FormatException) { }
+            catch (OverflowException) { }
+            throw new ArgumentException($"{nameof(continuationToken)} is not a valid continuation token.", nameof(continuationToken));
+        }
+
         /// <summary>
         /// Asynchronously removes an entity from the <see cref="VueCoreFrameworkDbContext"/>.
         /// </summary>
@@ -1566,18 +1862,45 @@ namespace VueCoreFramework.Core.Data
         /// ViewModel representing the updated item.
         /// </summary>
         /// <param name="item">The item to update.</param>
+        /// <param name="versionToken">
+        /// An optional version token, taken from the ViewModel on which the update is based. If the
+        /// stored item no longer has this version, it has been changed by someone else, and the
+        /// update is not made.
+        /// </param>
         /// <param name="culture">A string indicating the current culture.</param>
         /// <param name="localizer">The current <see cref="IStringLocalizer"/> instance.</param>
-        /// <returns>A ViewModel representing the updated item.</returns>
-        public async Task<IDictionary<string, object>> UpdateAsync(object item, string culture, IStringLocalizer localizer)
+        /// <returns>
+        /// A ViewModel representing the updated item, and false; or, if the update conflicts with
+        /// a change made by someone else, a ViewModel representing the stored item, and true.
+        /// </returns>
+        public async Task<(IDictionary<string, object>, bool)> UpdateAsync(object item, string versionToken, string culture, IStringLocalizer localizer)
         {
             if (item == null)
             {
                 throw new ArgumentNullException(nameof(item));
             }
+            if (!string.IsNullOrEmpty(versionToken))
+            {
+                var current = await items.FindAsync(PrimaryKey.PropertyInfo.GetValue(item));
+                if (current != null)
+                {
+                    if (GetVersionToken(current) != versionToken)
+                    {
+                        return (await GetViewModelAsync(current, culture, localizer), true);
+                    }
+                    // The stored copy must stop being tracked before the update can be attached.
+                    if (current != item)
+                    {
+                        _context.Entry(current).State = EntityState.Detached;
+                    }
+                }
+            }
             items.Update(item as T);
             await _context.SaveChangesAsync();
-            return await GetViewModelAsync(item as T, culture, localizer);
+            // The stored values may differ in form from those submitted (e.g. in precision), so
+            // they are reloaded to give the same version token the item will have when next retrieved.
+            await _context.Entry(item).ReloadAsync();
+            return (await GetViewModelAsync(item as T, culture, localizer), false);
         }
     }
 }
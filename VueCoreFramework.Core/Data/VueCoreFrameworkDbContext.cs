@@ -12,6 +12,16 @@ namespace VueCoreFramework.Core.Data
     /// </summary>
     public class VueCoreFrameworkDbContext : IdentityDbContext<ApplicationUser>
     {
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="ChatMute"/>s.
+        /// </summary>
+        public DbSet<ChatMute> ChatMutes { get; set; }
+
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="GroupReceipt"/>s.
+        /// </summary>
+        public DbSet<GroupReceipt> GroupReceipts { get; set; }
+
         /// <summary>
         /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="Log"/>s.
         /// </summary>
@@ -22,6 +32,36 @@ namespace VueCoreFramework.Core.Data
         /// </summary>
         public DbSet<Message> Messages { get; set; }
 
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="MessageAttachment"/>s.
+        /// </summary>
+        public DbSet<MessageAttachment> MessageAttachments { get; set; }
+
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="MessageEdit"/>s.
+        /// </summary>
+        public DbSet<MessageEdit> MessageEdits { get; set; }
+
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="MessageFlag"/>s.
+        /// </summary>
+        public DbSet<MessageFlag> MessageFlags { get; set; }
+
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="MessageMention"/>s.
+        /// </summary>
+        public DbSet<MessageMention> MessageMentions { get; set; }
+
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="MessageReaction"/>s.
+        /// </summary>
+        public DbSet<MessageReaction> MessageReactions { get; set; }
+
+        /// <summary>
+        /// Gets or sets the <see cref="DbSet{TEntity}"/> of <see cref="ThreadReceipt"/>s.
+        /// </summary>
+        public DbSet<ThreadReceipt> ThreadReceipts { get; set; }
+
         /// <summary>
         /// Caches instances of <see cref="IRepository"/> for the entity types tracked by this
         /// <see cref="VueCoreFrameworkDbContext"/>.
@@ -66,7 +106,14 @@ namespace VueCoreFramework.Core.Data
             base.OnModelCreating(builder);
             // Add your customizations after calling base.OnModelCreating(builder);
 
+            builder.ApplyConfiguration(new ChatMuteConfiguration());
+            builder.ApplyConfiguration(new GroupReceiptConfiguration());
             builder.ApplyConfiguration(new MessageConfiguration());
+            builder.ApplyConfiguration(new MessageEditConfiguration());
+            builder.ApplyConfiguration(new MessageFlagConfiguration());
+            builder.ApplyConfiguration(new MessageMentionConfiguration());
+            builder.ApplyConfiguration(new MessageReactionConfiguration());
+            builder.ApplyConfiguration(new ThreadReceiptConfiguration());
         }
 
         /// <summary>
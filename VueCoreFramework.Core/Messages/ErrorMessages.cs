@@ -13,6 +13,10 @@
         public const string AllUsersRequiredError = "Membership in the All Users group is automatic.";
         public const string AlreadyLockedError = "The account you specified is already locked.";
         public const string AlreadyUnlockedError = "The account you specified is not locked.";
+        public const string AttachmentCountError = "You may attach no more than {0} files to a message.";
+        public const string AttachmentRejectedError = "The file '{0}' was rejected by the virus scanner.";
+        public const string AttachmentSizeError = "Attached files may be no larger than {0} KB.";
+        public const string AttachmentTypeError = "Files of type '{0}' may not be attached.";
         public const string AuthProviderError = "There was a problem authenticating with that provider.";
         public const string CannotBeSystemError = "Names may not appear to imitate the system.";
         public const string ChangeEmailLimitError = "You may not change the email on your account more than once per day.";
@@ -23,10 +27,18 @@
         public const string DuplicateEmailError = "An account with this email already exists. If you've forgotten your password, please use the link on the login page.";
         public const string DuplicateUsernameError = "This username is already in use.";
         public const string DuplicateGroupNameError = "This group name is already in use.";
+        public const string FlagNoteLengthError = "Flag notes may be no longer than 500 characters.";
         public const string GroupMemberOnlyError = "That action is only valid for members of your group.";
+        public const string InvalidAttachmentError = "There was a problem with the attachment you specified.";
         public const string InvalidDataTypeError = "An error occurred while trying to access this data. Please refresh the page before trying again.";
+        public const string InvalidExportFormatError = "Chat logs may only be exported as json, csv, or txt.";
         public const string InvalidLogin = "Invalid login attempt.";
+        public const string InvalidMessageError = "There was a problem with the message you specified.";
         public const string InvalidNameError = "The name you selected is invalid.";
+        public const string InvalidQueryError = "The filter, sort, or paging options in your request are invalid.";
+        public const string InvalidReactionError = "Reactions must be between 1 and 16 characters long.";
+        public const string InvalidScheduleError = "Do-not-disturb times must be given as hours and minutes, like 22:30, and must be set or cleared together.";
+        public const string InvalidSearchError = "Searches must be between 1 and 125 characters long.";
         public const string InvalidTargetGroupError = "There was a problem with the group you specified.";
         public const string InvalidTargetUserError = "There was a problem with the account you specified.";
         public const string InvalidUserError = "Your login appears to be invalid or out of date. Please try to log in again.";
@@ -40,12 +52,15 @@
         public const string NotForAdminsError = "That action is not valid for administrator accounts.";
         public const string OnlyAdminCanBeAdminError = "Names may not appear to imitate official administrators.";
         public const string OwnerOnlyError = "Only the owner of the data may perform that action.";
+        public const string ParticipantOnlyError = "Only the participants in a conversation may perform that action.";
         public const string SaveItemError = "Item could not be saved.";
         public const string SelfGroupAddError = "You cannot add yourself to a group.";
+        public const string SenderOnlyError = "Only the sender of a message may perform that action.";
         public const string SiteAdminOnlyError = "Only the site administrator may perform that action.";
         public const string SiteAdminSingularError = "There must always be only one site administrator. Please use the transfer option if you wish to hand off the role to another administrator.";
         public const string RemoveItemError = "Item could not be removed.";
         public const string RemoveItemsError = "One or more items could not be removed.";
+        public const string UpdateConflictError = "This item has been changed by someone else since you opened it.";
         public const string ViewEditOnlyError = "Only view or edit permission can be shared.";
 
         public const string PermissionAction_AddNew = "add new items of this type";
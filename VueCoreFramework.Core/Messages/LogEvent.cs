@@ -42,6 +42,7 @@
         // Internal errors
         public const int INTERNAL_ERROR = 9000;
         public const int SEND_EMAIL_ERROR = 9010;
+        public const int PUSH_SEND_ERROR = 9020;
 #pragma warning restore CS1591
     }
 }
@@ -13,6 +13,18 @@ namespace VueCoreFramework.Core.Models
         /// </summary>
         public string Culture { get; set; } = "en-US";
 
+        /// <summary>
+        /// The time of day, in the user's own time zone, at which their do-not-disturb period ends,
+        /// if they have one.
+        /// </summary>
+        public TimeSpan? DoNotDisturbEnd { get; set; }
+
+        /// <summary>
+        /// The time of day, in the user's own time zone, at which their do-not-disturb period
+        /// starts, if they have one. Notifications of new messages are not shown during the period.
+        /// </summary>
+        public TimeSpan? DoNotDisturbStart { get; set; }
+
         /// <summary>
         /// The new email requested during an email change.
         /// </summary>
@@ -0,0 +1,51 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// Records that a user has muted a conversation or group chat, so that its new messages do not
+    /// raise notifications.
+    /// </summary>
+    public class ChatMute
+    {
+        /// <summary>
+        /// The primary key of the <see cref="ChatMute"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// Indicates that <see cref="Name"/> is the name of a group, rather than of the other
+        /// participant in a conversation.
+        /// </summary>
+        public bool IsGroup { get; set; }
+
+        /// <summary>
+        /// The name of the group, or of the other participant in the conversation, which is muted.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Name { get; set; }
+
+        /// <summary>
+        /// The name of the user who muted the chat.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Username { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="ChatMute"/>.
+    /// </summary>
+    public class ChatMuteConfiguration : IEntityTypeConfiguration<ChatMute>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="ChatMute"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        public void Configure(EntityTypeBuilder<ChatMute> builder)
+            => builder.HasIndex(m => new { m.Username, m.IsGroup, m.Name })
+                .IsUnique();
+    }
+}
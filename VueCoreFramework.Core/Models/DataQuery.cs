@@ -0,0 +1,122 @@
+﻿using Newtonsoft.Json.Linq;
+using System.Collections.Generic;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// A structured query which filters and sorts items before a page is calculated.
+    /// </summary>
+    /// <remarks>
+    /// Sent by the SPA framework as JSON in the 'query' query string parameter, e.g.:
+    /// {"filter":{"logic":"and","filters":[{"field":"population","operator":"range","from":1000}],
+    /// "groups":[{"logic":"or","filters":[...]}]},"sort":[{"field":"name","descending":true}]}
+    /// </remarks>
+    public class DataQuery
+    {
+        /// <summary>
+        /// The filters which items must match in order to be included. Optional.
+        /// </summary>
+        public FilterGroup Filter { get; set; }
+
+        /// <summary>
+        /// The properties used to sort the items, in order of precedence. Optional.
+        /// </summary>
+        public IList<SortDescriptor> Sort { get; set; }
+    }
+
+    /// <summary>
+    /// A comparison between a property of an item and one or more values.
+    /// </summary>
+    public class FieldFilter
+    {
+#pragma warning disable CS1591
+        public const string Contains = "contains";
+        public const string Equal = "eq";
+        public const string GreaterThan = "gt";
+        public const string GreaterThanOrEqual = "gte";
+        public const string In = "in";
+        public const string LessThan = "lt";
+        public const string LessThanOrEqual = "lte";
+        public const string NotEqual = "ne";
+        public const string NotNull = "notNull";
+        public const string Null = "null";
+        public const string Range = "range";
+#pragma warning restore CS1591
+
+        /// <summary>
+        /// The name of the property being compared.
+        /// </summary>
+        public string Field { get; set; }
+
+        /// <summary>
+        /// For the range operator, the inclusive lower bound. Optional; if omitted the range has
+        /// no lower bound.
+        /// </summary>
+        public JToken From { get; set; }
+
+        /// <summary>
+        /// The comparison to perform. One of the operator constants of this class.
+        /// </summary>
+        public string Operator { get; set; }
+
+        /// <summary>
+        /// For the range operator, the inclusive upper bound. Optional; if omitted the range has
+        /// no upper bound.
+        /// </summary>
+        public JToken To { get; set; }
+
+        /// <summary>
+        /// The value to which the property is compared, for all operators except range, in, null,
+        /// and notNull.
+        /// </summary>
+        public JToken Value { get; set; }
+
+        /// <summary>
+        /// For the in operator, the list of values, any of which the property may equal.
+        /// </summary>
+        public IList<JToken> Values { get; set; }
+    }
+
+    /// <summary>
+    /// A set of filters and nested groups, which are combined with a single logical operator.
+    /// </summary>
+    public class FilterGroup
+    {
+#pragma warning disable CS1591
+        public const string And = "and";
+        public const string Or = "or";
+#pragma warning restore CS1591
+
+        /// <summary>
+        /// The filters in the group.
+        /// </summary>
+        public IList<FieldFilter> Filters { get; set; }
+
+        /// <summary>
+        /// Nested groups, which are combined with the filters of this group.
+        /// </summary>
+        public IList<FilterGroup> Groups { get; set; }
+
+        /// <summary>
+        /// Either "and" (the default), which requires every filter and group to match, or "or",
+        /// which requires any one of them to match.
+        /// </summary>
+        public string Logic { get; set; }
+    }
+
+    /// <summary>
+    /// A property used to sort items.
+    /// </summary>
+    public class SortDescriptor
+    {
+        /// <summary>
+        /// Indicates whether the sort is descending; if false, the sort is ascending.
+        /// </summary>
+        public bool Descending { get; set; }
+
+        /// <summary>
+        /// The name of the property used to sort the items.
+        /// </summary>
+        public string Field { get; set; }
+    }
+}
@@ -38,7 +38,8 @@ namespace VueCoreFramework.Core.Models
         public string Icon { get; set; }
 
         /// <summary>
-        /// The input type of certain fields which can display more than one type of data.
+        /// The input type of certain fields which can display more than one type of data. For labels,
+        /// the JavaScript type of the property's value in ViewModels.
         /// </summary>
         public string InputType { get; set; }
 
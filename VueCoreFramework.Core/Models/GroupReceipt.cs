@@ -0,0 +1,55 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// Records how far a member of a group has received and read the messages of the group's chat.
+    /// </summary>
+    public class GroupReceipt
+    {
+        /// <summary>
+        /// The primary key of the <see cref="GroupReceipt"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The name of the group.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string GroupName { get; set; }
+
+        /// <summary>
+        /// The time at which the latest message delivered to the member was sent, if any has been.
+        /// </summary>
+        public DateTime? LastDelivered { get; set; }
+
+        /// <summary>
+        /// The time at which the latest message read by the member was sent, if any has been.
+        /// </summary>
+        public DateTime? LastRead { get; set; }
+
+        /// <summary>
+        /// The name of the member.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Username { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="GroupReceipt"/>.
+    /// </summary>
+    public class GroupReceiptConfiguration : IEntityTypeConfiguration<GroupReceipt>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="GroupReceipt"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        /// <remarks>Each member has a single receipt for each group.</remarks>
+        public void Configure(EntityTypeBuilder<GroupReceipt> builder)
+            => builder.HasIndex(r => new { r.GroupName, r.Username })
+                .IsUnique();
+    }
+}
@@ -2,6 +2,8 @@
 using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.Metadata.Builders;
 using System;
+using System.Collections.Generic;
+using System.Collections.ObjectModel;
 using System.ComponentModel.DataAnnotations;
 
 namespace VueCoreFramework.Core.Models
@@ -17,11 +19,27 @@ namespace VueCoreFramework.Core.Models
         public Guid Id { get; set; }
 
         /// <summary>
-        /// The content of the message. Accepts markdown-formatted text.
+        /// The files sent with the message.
+        /// </summary>
+        public ICollection<MessageAttachment> Attachments { get; set; } = new Collection<MessageAttachment>();
+
+        /// <summary>
+        /// The content of the message. Accepts markdown-formatted text. May be empty if the message
+        /// has attachments.
         /// </summary>
         [MaxLength(125)]
         public string Content { get; set; }
 
+        /// <summary>
+        /// The earlier content of the message, recorded each time it was edited.
+        /// </summary>
+        public ICollection<MessageEdit> Edits { get; set; } = new Collection<MessageEdit>();
+
+        /// <summary>
+        /// The flag set on the message by an admin reviewing chat logs, if any.
+        /// </summary>
+        public MessageFlag Flag { get; set; }
+
         /// <summary>
         /// The group to which the message was sent (if not an individual message).
         /// </summary>
@@ -32,11 +50,32 @@ namespace VueCoreFramework.Core.Models
         /// </summary>
         public string GroupRecipientName { get; set; }
 
+        /// <summary>
+        /// Indicates that the sender has deleted the message. Its content is hidden from the
+        /// participants, but remains available to admins reviewing chat logs.
+        /// </summary>
+        public bool IsDeleted { get; set; }
+
         /// <summary>
         /// Indicates that the message is from the system, rather than from a user.
         /// </summary>
         public bool IsSystemMessage { get; set; }
 
+        /// <summary>
+        /// The date and time when the message was last edited, if it has been.
+        /// </summary>
+        public DateTime? LastEdited { get; set; }
+
+        /// <summary>
+        /// The members of the group to which the message was sent who are mentioned in it.
+        /// </summary>
+        public ICollection<MessageMention> Mentions { get; set; } = new Collection<MessageMention>();
+
+        /// <summary>
+        /// The emoji reactions of users to the message.
+        /// </summary>
+        public ICollection<MessageReaction> Reactions { get; set; } = new Collection<MessageReaction>();
+
         /// <summary>
         /// Indicates that the single recipient has read the message.
         /// </summary>
@@ -72,6 +111,12 @@ namespace VueCoreFramework.Core.Models
         /// </summary>
         public string SingleRecipientName { get; set; }
 
+        /// <summary>
+        /// If the message is a reply in a thread of a group chat, the primary key of the message
+        /// which started the thread.
+        /// </summary>
+        public Guid? ThreadId { get; set; }
+
         /// <summary>
         /// The date and time when the message was sent.
         /// </summary>
@@ -89,8 +134,11 @@ namespace VueCoreFramework.Core.Models
         /// </summary>
         /// <param name="builder">The builder to be used to configure the entity type.</param>
         public void Configure(EntityTypeBuilder<Message> builder)
-            => builder.Property(m => m.Timestamp)
+        {
+            builder.HasIndex(m => m.ThreadId);
+            builder.Property(m => m.Timestamp)
                 .HasDefaultValueSql("GETUTCDATE()")
                 .ValueGeneratedOnAdd();
+        }
     }
 }
@@ -0,0 +1,54 @@
+﻿using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// A file sent with a <see cref="Models.Message"/>.
+    /// </summary>
+    public class MessageAttachment
+    {
+        /// <summary>
+        /// The primary key of the <see cref="MessageAttachment"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The MIME type of the file.
+        /// </summary>
+        [Required, MaxLength(128)]
+        public string ContentType { get; set; }
+
+        /// <summary>
+        /// The content of the file.
+        /// </summary>
+        [Required]
+        public byte[] Data { get; set; }
+
+        /// <summary>
+        /// The name of the file, as it was uploaded.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string FileName { get; set; }
+
+        /// <summary>
+        /// The message with which the file was sent.
+        /// </summary>
+        public Message Message { get; set; }
+
+        /// <summary>
+        /// The primary key of the message with which the file was sent.
+        /// </summary>
+        public Guid MessageId { get; set; }
+
+        /// <summary>
+        /// The size of the file, in bytes.
+        /// </summary>
+        public long Size { get; set; }
+
+        /// <summary>
+        /// A small preview of the file as a data URL, if the file is an image.
+        /// </summary>
+        public string Thumbnail { get; set; }
+    }
+}
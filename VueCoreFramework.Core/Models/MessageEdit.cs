@@ -0,0 +1,55 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// Records the content a <see cref="Models.Message"/> had before it was edited.
+    /// </summary>
+    public class MessageEdit
+    {
+        /// <summary>
+        /// The primary key of the <see cref="MessageEdit"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The content of the message before the edit.
+        /// </summary>
+        [MaxLength(125)]
+        public string Content { get; set; }
+
+        /// <summary>
+        /// The message which was edited.
+        /// </summary>
+        public Message Message { get; set; }
+
+        /// <summary>
+        /// The primary key of the message which was edited.
+        /// </summary>
+        public Guid MessageId { get; set; }
+
+        /// <summary>
+        /// The date and time when the edit was made.
+        /// </summary>
+        /// <remarks>Set automatically by the database.</remarks>
+        public DateTime Timestamp { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="MessageEdit"/>.
+    /// </summary>
+    public class MessageEditConfiguration : IEntityTypeConfiguration<MessageEdit>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="MessageEdit"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        public void Configure(EntityTypeBuilder<MessageEdit> builder)
+            => builder.Property(e => e.Timestamp)
+                .HasDefaultValueSql("GETUTCDATE()")
+                .ValueGeneratedOnAdd();
+    }
+}
@@ -0,0 +1,62 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// Marks a <see cref="Models.Message"/> which an admin reviewing chat logs has flagged for
+    /// attention.
+    /// </summary>
+    public class MessageFlag
+    {
+        /// <summary>
+        /// The primary key of the <see cref="MessageFlag"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The message which was flagged.
+        /// </summary>
+        public Message Message { get; set; }
+
+        /// <summary>
+        /// The primary key of the message which was flagged.
+        /// </summary>
+        public Guid MessageId { get; set; }
+
+        /// <summary>
+        /// An optional note from the admin explaining why the message was flagged.
+        /// </summary>
+        [MaxLength(500)]
+        public string Note { get; set; }
+
+        /// <summary>
+        /// The date and time when the message was flagged.
+        /// </summary>
+        public DateTime Timestamp { get; set; }
+
+        /// <summary>
+        /// The name of the admin who flagged the message.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Username { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="MessageFlag"/>.
+    /// </summary>
+    public class MessageFlagConfiguration : IEntityTypeConfiguration<MessageFlag>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="MessageFlag"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        /// <remarks>A message has at most one flag; flagging it again replaces the note.</remarks>
+        public void Configure(EntityTypeBuilder<MessageFlag> builder)
+            => builder.HasOne(f => f.Message)
+                .WithOne(m => m.Flag)
+                .HasForeignKey<MessageFlag>(f => f.MessageId);
+    }
+}
@@ -0,0 +1,50 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// A mention of a member of a group, with @username, in a <see cref="Models.Message"/> sent to
+    /// the group.
+    /// </summary>
+    public class MessageMention
+    {
+        /// <summary>
+        /// The primary key of the <see cref="MessageMention"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The message in which the member was mentioned.
+        /// </summary>
+        public Message Message { get; set; }
+
+        /// <summary>
+        /// The primary key of the message in which the member was mentioned.
+        /// </summary>
+        public Guid MessageId { get; set; }
+
+        /// <summary>
+        /// The name of the member who was mentioned.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Username { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="MessageMention"/>.
+    /// </summary>
+    public class MessageMentionConfiguration : IEntityTypeConfiguration<MessageMention>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="MessageMention"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        /// <remarks>A member is mentioned by a message only once, however often they are named.</remarks>
+        public void Configure(EntityTypeBuilder<MessageMention> builder)
+            => builder.HasIndex(m => new { m.MessageId, m.Username })
+                .IsUnique();
+    }
+}
@@ -0,0 +1,55 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// An emoji reaction by a user to a <see cref="Models.Message"/>.
+    /// </summary>
+    public class MessageReaction
+    {
+        /// <summary>
+        /// The primary key of the <see cref="MessageReaction"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The emoji with which the user reacted.
+        /// </summary>
+        [Required, MaxLength(16)]
+        public string Emoji { get; set; }
+
+        /// <summary>
+        /// The message to which the user reacted.
+        /// </summary>
+        public Message Message { get; set; }
+
+        /// <summary>
+        /// The primary key of the message to which the user reacted.
+        /// </summary>
+        public Guid MessageId { get; set; }
+
+        /// <summary>
+        /// The name of the user who reacted.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Username { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="MessageReaction"/>.
+    /// </summary>
+    public class MessageReactionConfiguration : IEntityTypeConfiguration<MessageReaction>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="MessageReaction"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        /// <remarks>A user may react to a message with each emoji only once.</remarks>
+        public void Configure(EntityTypeBuilder<MessageReaction> builder)
+            => builder.HasIndex(r => new { r.MessageId, r.Username, r.Emoji })
+                .IsUnique();
+    }
+}
@@ -0,0 +1,27 @@
+﻿using System.Collections.Generic;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// A ViewModel for a single page of items, along with the total number of items available.
+    /// </summary>
+    public class PageResult
+    {
+        /// <summary>
+        /// An opaque token which may be used to request the page following this one, or null if
+        /// this is the last page.
+        /// </summary>
+        public string ContinuationToken { get; set; }
+
+        /// <summary>
+        /// ViewModels representing the items on the page.
+        /// </summary>
+        public IList<IDictionary<string, object>> PageItems { get; set; }
+
+        /// <summary>
+        /// The total number of items which matched the request, before paging. Items excluded
+        /// from the results, by filters or due to a lack of permission, are not counted.
+        /// </summary>
+        public long TotalItems { get; set; }
+    }
+}
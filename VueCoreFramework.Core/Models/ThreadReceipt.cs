@@ -0,0 +1,49 @@
+﻿using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using System;
+using System.ComponentModel.DataAnnotations;
+
+namespace VueCoreFramework.Core.Models
+{
+    /// <summary>
+    /// Records how far a member of a group has read the replies in a thread of the group's chat.
+    /// </summary>
+    public class ThreadReceipt
+    {
+        /// <summary>
+        /// The primary key of the <see cref="ThreadReceipt"/>.
+        /// </summary>
+        public Guid Id { get; set; }
+
+        /// <summary>
+        /// The time at which the latest reply read by the member was sent, if any has been.
+        /// </summary>
+        public DateTime? LastRead { get; set; }
+
+        /// <summary>
+        /// The primary key of the message which started the thread.
+        /// </summary>
+        public Guid ThreadId { get; set; }
+
+        /// <summary>
+        /// The name of the member.
+        /// </summary>
+        [Required, MaxLength(256)]
+        public string Username { get; set; }
+    }
+
+    /// <summary>
+    /// The <see cref="IEntityTypeConfiguration{TEntity}"/> for <see cref="ThreadReceipt"/>.
+    /// </summary>
+    public class ThreadReceiptConfiguration : IEntityTypeConfiguration<ThreadReceipt>
+    {
+        /// <summary>
+        /// Configures the entity of type <see cref="ThreadReceipt"/>.
+        /// </summary>
+        /// <param name="builder">The builder to be used to configure the entity type.</param>
+        /// <remarks>Each member has a single receipt for each thread.</remarks>
+        public void Configure(EntityTypeBuilder<ThreadReceipt> builder)
+            => builder.HasIndex(r => new { r.ThreadId, r.Username })
+                .IsUnique();
+    }
+}
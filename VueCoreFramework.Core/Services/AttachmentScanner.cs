@@ -0,0 +1,22 @@
+﻿using System.IO;
+using System.Threading.Tasks;
+
+namespace VueCoreFramework.Core.Services
+{
+    /// <summary>
+    /// The default <see cref="IAttachmentScanner"/>, which accepts every file. Replace it with an
+    /// implementation which calls a virus scanner before allowing untrusted users to share files.
+    /// </summary>
+    public class AttachmentScanner : IAttachmentScanner
+    {
+        /// <summary>
+        /// Scans an attached file.
+        /// </summary>
+        /// <param name="fileName">The name of the file, as it was uploaded.</param>
+        /// <param name="contentType">The MIME type of the file.</param>
+        /// <param name="content">The content of the file.</param>
+        /// <returns>Always true.</returns>
+        public Task<bool> IsSafeAsync(string fileName, string contentType, Stream content)
+            => Task.FromResult(true);
+    }
+}
@@ -0,0 +1,21 @@
+﻿using System.IO;
+using System.Threading.Tasks;
+
+namespace VueCoreFramework.Core.Services
+{
+    /// <summary>
+    /// This interface is used by the application to check files attached to messages for
+    /// malicious content before they are stored.
+    /// </summary>
+    public interface IAttachmentScanner
+    {
+        /// <summary>
+        /// Scans an attached file.
+        /// </summary>
+        /// <param name="fileName">The name of the file, as it was uploaded.</param>
+        /// <param name="contentType">The MIME type of the file.</param>
+        /// <param name="content">The content of the file.</param>
+        /// <returns>true if the file may be stored; false if it was rejected.</returns>
+        Task<bool> IsSafeAsync(string fileName, string contentType, Stream content);
+    }
+}
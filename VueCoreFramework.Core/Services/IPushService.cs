@@ -0,0 +1,37 @@
+﻿using System;
+using System.Collections.Generic;
+using System.Threading.Tasks;
+
+namespace VueCoreFramework.Core.Services
+{
+    /// <summary>
+    /// This interface is used by the application to deliver events to connected users as they
+    /// happen, rather than waiting for clients to poll for changes.
+    /// </summary>
+    public interface IPushService
+    {
+        /// <summary>
+        /// Determines whether the given user has any open connection.
+        /// </summary>
+        /// <param name="username">The name of the user.</param>
+        /// <returns>true if events published to the user will be delivered; otherwise false.</returns>
+        bool IsConnected(string username);
+
+        /// <summary>
+        /// Sends an event to every open connection of the given users. Users who are not connected
+        /// are skipped.
+        /// </summary>
+        /// <param name="usernames">The names of the users who will receive the event.</param>
+        /// <param name="type">The type of the event (see <see cref="PushEventTypes"/>).</param>
+        /// <param name="data">Optional data describing the event, which is sent as JSON.</param>
+        Task PublishAsync(IEnumerable<string> usernames, string type, object data = null);
+
+        /// <summary>
+        /// Opens a connection for the given user, which receives the user's events until it is disposed.
+        /// </summary>
+        /// <param name="username">The name of the user who owns the connection.</param>
+        /// <param name="send">Writes a formatted event to the connection.</param>
+        /// <returns>An <see cref="IDisposable"/> which closes the connection.</returns>
+        IDisposable Subscribe(string username, Func<string, Task> send);
+    }
+}
@@ -0,0 +1,57 @@
+﻿namespace VueCoreFramework.Core.Services
+{
+    /// <summary>
+    /// The types of event delivered by the <see cref="IPushService"/>.
+    /// </summary>
+    public static class PushEventTypes
+    {
+        /// <summary>
+        /// The user's conversations (or their unread counts) have changed.
+        /// </summary>
+        public const string Conversations = "conversations";
+
+        /// <summary>
+        /// The user's group memberships have changed.
+        /// </summary>
+        public const string Groups = "groups";
+
+        /// <summary>
+        /// A message has been sent in one of the user's conversations or group chats. The data
+        /// identifies the conversation by its 'username' or 'group'.
+        /// </summary>
+        public const string Messages = "messages";
+
+        /// <summary>
+        /// The user's unread mentions in group chats have changed.
+        /// </summary>
+        public const string Mentions = "mentions";
+
+        /// <summary>
+        /// The user's settings for notifications of new messages have changed.
+        /// </summary>
+        public const string NotificationSettings = "notificationSettings";
+
+        /// <summary>
+        /// The user's permissions to data have changed. If only one data type is affected, the data
+        /// identifies it by its 'dataType', and a single item of that type by its 'id'.
+        /// </summary>
+        public const string Permissions = "permissions";
+
+        /// <summary>
+        /// Members of one of the user's groups have received or read more of the group's chat. The
+        /// data identifies the chat by its 'group'.
+        /// </summary>
+        public const string Receipts = "receipts";
+
+        /// <summary>
+        /// The user's system messages have changed.
+        /// </summary>
+        public const string SystemMessages = "systemMessages";
+
+        /// <summary>
+        /// Another member of one of the user's groups is typing a message. The data identifies the
+        /// chat by its 'group', and the member by their 'username'.
+        /// </summary>
+        public const string Typing = "typing";
+    }
+}
@@ -0,0 +1,126 @@
+﻿using Microsoft.Extensions.Logging;
+using Newtonsoft.Json;
+using Newtonsoft.Json.Serialization;
+using System;
+using System.Collections.Concurrent;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using VueCoreFramework.Core.Messages;
+
+namespace VueCoreFramework.Core.Services
+{
+    /// <summary>
+    /// Delivers events to connected users as Server-Sent Events. Connections are held in memory,
+    /// so all of a user's connections must be served by the same instance.
+    /// </summary>
+    public class PushService : IPushService
+    {
+        private static readonly JsonSerializerSettings serializerSettings = new JsonSerializerSettings
+        {
+            ContractResolver = new CamelCasePropertyNamesContractResolver()
+        };
+
+        private readonly ConcurrentDictionary<string, ConcurrentDictionary<Guid, Func<string, Task>>> _connections
+            = new ConcurrentDictionary<string, ConcurrentDictionary<Guid, Func<string, Task>>>();
+        private readonly ILogger<PushService> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of <see cref="PushService"/>.
+        /// </summary>
+        public PushService(ILogger<PushService> logger)
+        {
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Determines whether the given user has any open connection.
+        /// </summary>
+        /// <param name="username">The name of the user.</param>
+        /// <returns>true if events published to the user will be delivered; otherwise false.</returns>
+        public bool IsConnected(string username)
+            => username != null
+            && _connections.TryGetValue(username, out var connections)
+            && !connections.IsEmpty;
+
+        /// <summary>
+        /// Sends an event to every open connection of the given users. Users who are not connected
+        /// are skipped.
+        /// </summary>
+        /// <param name="usernames">The names of the users who will receive the event.</param>
+        /// <param name="type">The type of the event (see <see cref="PushEventTypes"/>).</param>
+        /// <param name="data">Optional data describing the event, which is sent as JSON.</param>
+        public async Task PublishAsync(IEnumerable<string> usernames, string type, object data = null)
+        {
+            var json = JsonConvert.SerializeObject(data ?? new { }, serializerSettings);
+            var formatted = $"event: {type}\ndata: {json}\n\n";
+            var sends = new List<Task>();
+            foreach (var username in usernames.Distinct())
+            {
+                if (username != null && _connections.TryGetValue(username, out var connections))
+                {
+                    foreach (var connection in connections)
+                    {
+                        sends.Add(SendAsync(username, connection.Key, connection.Value, formatted));
+                    }
+                }
+            }
+            await Task.WhenAll(sends);
+        }
+
+        /// <summary>
+        /// Opens a connection for the given user, which receives the user's events until it is disposed.
+        /// </summary>
+        /// <param name="username">The name of the user who owns the connection.</param>
+        /// <param name="send">Writes a formatted event to the connection.</param>
+        /// <returns>An <see cref="IDisposable"/> which closes the connection.</returns>
+        public IDisposable Subscribe(string username, Func<string, Task> send)
+        {
+            var id = Guid.NewGuid();
+            _connections.GetOrAdd(username, u => new ConcurrentDictionary<Guid, Func<string, Task>>())[id] = send;
+            return new Subscription(() => Unsubscribe(username, id));
+        }
+
+        private async Task SendAsync(string username, Guid id, Func<string, Task> send, string formatted)
+        {
+            try
+            {
+                await send(formatted);
+            }
+            catch (Exception ex)
+            {
+                // The client has most likely disconnected; it will reconnect if it is still open.
+                _logger.LogWarning(LogEvent.PUSH_SEND_ERROR, ex, "Push event could not be sent to {USER}.", username);
+                Unsubscribe(username, id);
+            }
+        }
+
+        private void Unsubscribe(string username, Guid id)
+        {
+            if (_connections.TryGetValue(username, out var connections))
+            {
+                connections.TryRemove(id, out var send);
+                if (connections.IsEmpty)
+                {
+                    _connections.TryRemove(username, out connections);
+                }
+            }
+        }
+
+        private class Subscription : IDisposable
+        {
+            private Action _dispose;
+
+            public Subscription(Action dispose)
+            {
+                _dispose = dispose;
+            }
+
+            public void Dispose()
+            {
+                _dispose?.Invoke();
+                _dispose = null;
+            }
+        }
+    }
+}
@@ -0,0 +1,41 @@
+﻿// Request cancellation is not yet described by the DOM library of the TypeScript version used by
+// this project. These declarations can be removed once it is.
+
+/**
+ * A signal which indicates whether an operation has been aborted by its AbortController.
+ */
+interface AbortSignal extends EventTarget {
+    /**
+     * Indicates whether the operation has been aborted.
+     */
+    readonly aborted: boolean;
+
+    onabort: ((this: AbortSignal, ev: Event) => any) | null;
+}
+
+/**
+ * Allows one or more operations to be aborted through its signal.
+ */
+interface AbortController {
+    /**
+     * The signal which is passed to the operations controlled by this AbortController.
+     */
+    readonly signal: AbortSignal;
+
+    /**
+     * Aborts the operations controlled by this AbortController.
+     */
+    abort(): void;
+}
+
+declare var AbortController: {
+    prototype: AbortController;
+    new(): AbortController;
+};
+
+interface RequestInit {
+    /**
+     * A signal which aborts the request when triggered.
+     */
+    signal?: AbortSignal;
+}
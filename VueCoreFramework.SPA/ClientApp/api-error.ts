@@ -0,0 +1,228 @@
+﻿/**
+ * Identifies the call which produced an ApiError.
+ */
+export interface ApiErrorRequest {
+    /**
+     * The HTTP method of the call, if known.
+     */
+    method?: string;
+
+    /**
+     * The URL of the call.
+     */
+    url: string;
+}
+
+/**
+ * The base class for errors produced by calls to the framework's hosts.
+ */
+export class ApiError extends Error {
+    /**
+     * The parsed body of the error response (if any).
+     */
+    payload: any;
+
+    /**
+     * The call which produced the error.
+     */
+    request: ApiErrorRequest;
+
+    /**
+     * The HTTP status code of the response, or 0 if no response was received.
+     */
+    status: number;
+
+    /**
+     * The HTTP status text of the response, if any.
+     */
+    statusText: string;
+
+    /**
+     * Initializes a new instance of ApiError.
+     * @param {string} message A message describing the error, suitable for display.
+     * @param {ApiErrorRequest} request The call which produced the error.
+     * @param {number} status The HTTP status code of the response.
+     * @param {string} statusText The HTTP status text of the response.
+     * @param payload The parsed body of the error response.
+     */
+    constructor(message: string, request: ApiErrorRequest, status = 0, statusText = '', payload: any = null) {
+        super(message);
+        // Restore the prototype chain, which is lost when extending Error with an ES5 target.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.request = request;
+        this.status = status;
+        this.statusText = statusText;
+        this.payload = payload;
+    }
+}
+
+/**
+ * Indicates that the request was malformed or the submitted data was invalid (400).
+ */
+export class ValidationError extends ApiError {
+    /**
+     * A map of field names to the validation messages reported for each, if the server provided
+     * per-field messages.
+     */
+    fieldErrors: { [field: string]: string[] };
+
+    constructor(message: string, request: ApiErrorRequest, status = 400, statusText = '', payload: any = null) {
+        super(message, request, status, statusText, payload);
+        this.fieldErrors = getFieldErrors(payload);
+    }
+}
+
+/**
+ * Indicates that the user must sign in (401).
+ */
+export class UnauthorizedError extends ApiError { }
+
+/**
+ * Indicates that the user does not have permission for the operation (403).
+ */
+export class ForbiddenError extends ApiError { }
+
+/**
+ * Indicates that the requested item does not exist (404).
+ */
+export class NotFoundError extends ApiError { }
+
+/**
+ * Indicates that the operation conflicts with the current state of the data (409).
+ */
+export class ConflictError extends ApiError { }
+
+/**
+ * Indicates that the host encountered an error processing the request (5xx).
+ */
+export class ServerError extends ApiError { }
+
+/**
+ * Indicates that no response was received, such as when the host is unreachable.
+ */
+export class NetworkError extends ApiError {
+    /**
+     * The underlying error raised by fetch.
+     */
+    innerError: any;
+
+    constructor(request: ApiErrorRequest, innerError?: any) {
+        super("The server could not be reached.", request);
+        this.innerError = innerError;
+    }
+}
+
+/**
+ * Indicates that the call was aborted by its caller before it completed, usually because a newer
+ * call has made its result obsolete.
+ */
+export class CancelledError extends ApiError {
+    constructor(request: ApiErrorRequest) {
+        super("The request was cancelled.", request);
+    }
+}
+
+/**
+ * Indicates that the call was not attempted, because the host has been failing repeatedly.
+ */
+export class ServiceUnavailableError extends ApiError {
+    constructor(request: ApiErrorRequest) {
+        super("The service is temporarily unavailable.", request);
+    }
+}
+
+function getFieldErrors(payload: any): { [field: string]: string[] } {
+    let fieldErrors: { [field: string]: string[] } = {};
+    // ASP.NET model state is serialized as a map of field names to arrays of messages.
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+        for (var field in payload) {
+            if (Array.isArray(payload[field])) {
+                fieldErrors[field] = payload[field].map(e => typeof e === 'string' ? e : e.errorMessage);
+            }
+        }
+    }
+    return fieldErrors;
+}
+
+function getMessage(payload: any, statusText: string): string {
+    if (typeof payload === 'string' && payload) {
+        return payload;
+    }
+    if (payload && typeof payload === 'object') {
+        // A LocalizedString, as returned by most of the framework's controllers.
+        if (typeof payload.value === 'string' && payload.value) {
+            return payload.value;
+        }
+        let fieldErrors = getFieldErrors(payload);
+        let messages = Object.keys(fieldErrors)
+            .map(k => fieldErrors[k])
+            .reduce((a, b) => a.concat(b), []);
+        if (messages.length) {
+            return messages.join(' ');
+        }
+    }
+    return statusText;
+}
+
+async function readPayload(response: Response): Promise<any> {
+    try {
+        let text = await response.text();
+        if (!text) {
+            return null;
+        }
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            return text;
+        }
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Determines whether an error indicates that the host could not be reached, either because the
+ * connection has been lost, or because calls to the host are currently not being attempted.
+ * @param error The error.
+ */
+export function isConnectionError(error: any): boolean {
+    return error instanceof NetworkError || error instanceof ServiceUnavailableError;
+}
+
+/**
+ * Creates the ApiError which corresponds to an unsuccessful response.
+ * @param {Response} response The unsuccessful response.
+ * @param {string} method The HTTP method of the call, if known.
+ * @returns {ApiError} An ApiError of the type matching the response's status code.
+ */
+export async function fromResponse(response: Response, method?: string): Promise<ApiError> {
+    let payload = await readPayload(response);
+    let message = getMessage(payload, response.statusText);
+    let request: ApiErrorRequest = { method, url: response.url };
+    switch (response.status) {
+        case 400: return new ValidationError(message, request, response.status, response.statusText, payload);
+        case 401: return new UnauthorizedError(message, request, response.status, response.statusText, payload);
+        case 403: return new ForbiddenError(message, request, response.status, response.statusText, payload);
+        case 404: return new NotFoundError(message, request, response.status, response.statusText, payload);
+        case 409: return new ConflictError(message, request, response.status, response.statusText, payload);
+        default:
+            if (response.status >= 500) {
+                return new ServerError(message, request, response.status, response.statusText, payload);
+            }
+            return new ApiError(message, request, response.status, response.statusText, payload);
+    }
+}
+
+/**
+ * Throws the matching ApiError if the given response was unsuccessful.
+ * @param {Response} response The response to check.
+ * @param {string} method The HTTP method of the call, if known.
+ * @returns {Response} The response, if it was successful.
+ */
+export async function ensureSuccess(response: Response, method?: string): Promise<Response> {
+    if (!response.ok) {
+        throw await fromResponse(response, method);
+    }
+    return response;
+}
\ No newline at end of file
@@ -1,66 +1,282 @@
 ﻿import { store } from './store/store';
-import { checkResponse } from './router';
+import { resilientFetch } from './resilience';
+import { ProgressCallback } from './xhr-fetch';
 
+/**
+ * The base URLs of the framework's hosts. Set from the client configuration at startup.
+ */
 export const urls = {
-    apiUrl: "https://localhost:44325/",
-    authUrl: "https://localhost:44300/",
-    spaUrl: "https://localhost:44350/"
+    apiUrl: '',
+    authUrl: '',
+    spaUrl: ''
 };
 
-export function callFetch(url: string, method?: string, body?: any, cred?: boolean): Promise<Response> {
+/**
+ * Describes a single call made through the request pipeline.
+ */
+export interface ApiRequest {
+    /**
+     * The absolute URL being fetched.
+     */
+    url: string;
+
+    /**
+     * The options which will be passed to fetch. Request interceptors may modify these freely.
+     */
+    init: RequestInit;
+
+    /**
+     * Called as the request body is sent, if given.
+     */
+    onUploadProgress?: ProgressCallback;
+
+    /**
+     * Indicates that the call may be retried if it fails with a transient error.
+     */
+    retry?: boolean;
+
+    /**
+     * The URL to return to if a login redirect occurs during the operation, if any.
+     */
+    returnPath?: string;
+}
+
+/**
+ * Optional settings for a single call.
+ */
+export interface CallOptions {
+    /**
+     * Additional headers to send with the call.
+     */
+    headers?: { [name: string]: string };
+
+    /**
+     * Called as the request body is sent, for reporting the progress of uploads.
+     */
+    onUploadProgress?: ProgressCallback;
+
+    /**
+     * Indicates that the call may be retried if it fails with a transient error. GET calls are
+     * retried by default; other methods only when they are marked safe to repeat with this option.
+     */
+    retry?: boolean;
+
+    /**
+     * A signal which aborts the call when triggered. An aborted call is rejected with a CancelledError.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Identifies one call tracked by a LatestRequest.
+ */
+export interface RequestToken {
+    /**
+     * The signal which aborts the call when it is superseded. Undefined in browsers which do not
+     * support request cancellation.
+     */
+    signal: AbortSignal;
+
+    /**
+     * Determines whether the call is still the latest one tracked by its LatestRequest. Results
+     * of calls which are no longer current should be discarded.
+     */
+    isCurrent: () => boolean;
+}
+
+/**
+ * Tracks a series of calls of which only the latest matters, such as loading a page of a table
+ * or a completion suggestion. Starting a new call aborts the previous one.
+ */
+export class LatestRequest {
+    private controller: AbortController = null;
+
+    private sequence = 0;
+
+    /**
+     * Aborts the current call, if any. Its result will no longer be considered current.
+     */
+    cancel() {
+        this.sequence++;
+        if (this.controller) {
+            this.controller.abort();
+            this.controller = null;
+        }
+    }
+
+    /**
+     * Aborts the current call (if any) and begins tracking a new one.
+     * @returns {RequestToken} The token for the new call.
+     */
+    next(): RequestToken {
+        this.cancel();
+        let sequence = this.sequence;
+        this.controller = typeof AbortController === 'undefined' ? null : new AbortController();
+        return {
+            signal: this.controller ? this.controller.signal : undefined,
+            isCurrent: () => sequence === this.sequence
+        };
+    }
+}
+
+/**
+ * A set of hooks which are run for every call made through the request pipeline.
+ */
+export interface Interceptor {
+    /**
+     * Called before the request is sent, in the order the interceptors were added. May modify
+     * the request, or return a replacement.
+     */
+    request?: (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+
+    /**
+     * Called after a response is received, in the reverse of the order the interceptors were
+     * added. May return the response as-is, or a replacement.
+     */
+    response?: (response: Response, request: ApiRequest) => Response | Promise<Response>;
+
+    /**
+     * Called when the request (or another interceptor) fails, in the reverse of the order the
+     * interceptors were added. May return a Response to recover from the error; otherwise the
+     * error is passed on to the next interceptor and finally to the caller.
+     */
+    error?: (error: any, request: ApiRequest) => Response | Promise<Response> | void;
+}
+
+const interceptors: Interceptor[] = [];
+
+/**
+ * Adds an interceptor to the end of the request pipeline.
+ * @param {Interceptor} interceptor The interceptor to add.
+ * @returns {Function} A function which removes the interceptor when called.
+ */
+export function addInterceptor(interceptor: Interceptor): () => void {
+    interceptors.push(interceptor);
+    return () => removeInterceptor(interceptor);
+}
+
+/**
+ * Removes an interceptor from the request pipeline.
+ * @param {Interceptor} interceptor The interceptor to remove.
+ */
+export function removeInterceptor(interceptor: Interceptor) {
+    let index = interceptors.indexOf(interceptor);
+    if (index !== -1) {
+        interceptors.splice(index, 1);
+    }
+}
+
+/**
+ * An interceptor which sets the content negotiation headers and CORS mode expected by the
+ * framework's hosts.
+ */
+export const defaultHeadersInterceptor: Interceptor = {
+    request(request: ApiRequest) {
+        let headers = request.init.headers as Headers;
+        headers.set('Accept', `application/json;v=${store.state.apiVer}`);
+        headers.set('Accept-Language', store.state.userState.culture);
+        // Forms are sent with the multipart content type (and boundary) chosen by the browser.
+        if (request.init.body && !(request.init.body instanceof FormData)) {
+            headers.set('Content-Type', `application/json;v=${store.state.apiVer}`);
+        }
+        request.init.mode = 'cors';
+        return request;
+    }
+};
+
+/**
+ * An interceptor which adds the current user's access token as a bearer token.
+ */
+export const bearerTokenInterceptor: Interceptor = {
+    request(request: ApiRequest) {
+        if (store.state.userState.user) {
+            (request.init.headers as Headers).set('Authorization', `Bearer ${store.state.userState.user.access_token}`);
+        }
+        return request;
+    }
+};
+
+addInterceptor(defaultHeadersInterceptor);
+addInterceptor(bearerTokenInterceptor);
+
+async function runPipeline(request: ApiRequest): Promise<Response> {
+    // Take a snapshot, so that hooks which add or remove interceptors don't affect this call.
+    let pipeline = interceptors.slice();
+    try {
+        for (var i = 0; i < pipeline.length; i++) {
+            if (pipeline[i].request) {
+                request = await pipeline[i].request(request);
+            }
+        }
+        let response = await resilientFetch(request.url, request.init, request.retry, request.onUploadProgress);
+        for (var i = pipeline.length - 1; i >= 0; i--) {
+            if (pipeline[i].response) {
+                response = await pipeline[i].response(response, request);
+            }
+        }
+        return response;
+    } catch (error) {
+        for (var i = pipeline.length - 1; i >= 0; i--) {
+            if (pipeline[i].error) {
+                try {
+                    let response = await pipeline[i].error(error, request);
+                    if (response) {
+                        return response;
+                    }
+                } catch (hookError) {
+                    error = hookError;
+                }
+            }
+        }
+        throw error;
+    }
+}
+
+export function callFetch(url: string, method?: string, body?: any, cred?: boolean, returnPath?: string, options: CallOptions = {}): Promise<Response> {
     if (!method) {
         method = 'GET';
     }
+    let retry = options.retry === undefined ? method === 'GET' : options.retry;
     let init: RequestInit = {
         method,
-        headers: new Headers({
-            'Accept': `application/json;v=${store.state.apiVer}`,
-            'Accept-Language': store.state.userState.culture
-        })
+        headers: new Headers(options.headers)
     };
     if (cred) {
         init.credentials = 'include';
     }
-    init.mode = 'cors';
-    if (store.state.userState.user) {
-        (init.headers as Headers).set('Authorization', `Bearer ${store.state.userState.user.access_token}`);
-    }
     if (body) {
         init.body = body;
-        (init.headers as Headers).set('Content-Type', `application/json;v=${store.state.apiVer}`);
     }
-    return fetch(url, init);
-}
-
-function invokeHost(hostUrl: string, relUrl: string, returnPath: string, method: string, body: any, cred?: boolean): Promise<Response> {
-    let f = callFetch(hostUrl + relUrl, method, body, cred);
-    if (returnPath) {
-        return f.then(response => checkResponse(response, returnPath));
-    } else {
-        return f;
+    if (options.signal) {
+        init.signal = options.signal;
     }
+    return runPipeline({ url, init, onUploadProgress: options.onUploadProgress, retry, returnPath });
 }
 
-export function getApi(relUrl: string, returnPath?: string, body?: any): Promise<Response> {
-    return invokeHost(urls.apiUrl, relUrl, returnPath, 'GET', body);
+function invokeHost(hostUrl: string, relUrl: string, returnPath: string, method: string, body: any, options: CallOptions, cred?: boolean): Promise<Response> {
+    return callFetch(hostUrl + relUrl, method, body, cred, returnPath, options);
 }
 
-export function getAuth(relUrl: string, returnPath?: string, body?: any): Promise<Response> {
-    return invokeHost(urls.authUrl, relUrl, returnPath, 'GET', body, true);
+export function getApi(relUrl: string, returnPath?: string, body?: any, options?: CallOptions): Promise<Response> {
+    return invokeHost(urls.apiUrl, relUrl, returnPath, 'GET', body, options);
 }
 
-export function getSpa(relUrl: string, returnPath?: string, body?: any): Promise<Response> {
-    return invokeHost(urls.spaUrl, relUrl, returnPath, 'GET', body);
+export function getAuth(relUrl: string, returnPath?: string, body?: any, options?: CallOptions): Promise<Response> {
+    return invokeHost(urls.authUrl, relUrl, returnPath, 'GET', body, options, true);
 }
 
-export function postApi(relUrl: string, returnPath?: string, body?: any): Promise<Response> {
-    return invokeHost(urls.apiUrl, relUrl, returnPath, 'POST', body);
+export function getSpa(relUrl: string, returnPath?: string, body?: any, options?: CallOptions): Promise<Response> {
+    return invokeHost(urls.spaUrl, relUrl, returnPath, 'GET', body, options);
 }
 
-export function postAuth(relUrl: string, returnPath?: string, body?: any): Promise<Response> {
-    return invokeHost(urls.authUrl, relUrl, returnPath, 'POST', body, true);
+export function postApi(relUrl: string, returnPath?: string, body?: any, options?: CallOptions): Promise<Response> {
+    return invokeHost(urls.apiUrl, relUrl, returnPath, 'POST', body, options);
 }
 
-export function postSpa(relUrl: string, returnPath?: string, body?: any): Promise<Response> {
-    return invokeHost(urls.spaUrl, relUrl, returnPath, 'POST', body);
+export function postAuth(relUrl: string, returnPath?: string, body?: any, options?: CallOptions): Promise<Response> {
+    return invokeHost(urls.authUrl, relUrl, returnPath, 'POST', body, options, true);
 }
+
+export function postSpa(relUrl: string, returnPath?: string, body?: any, options?: CallOptions): Promise<Response> {
+    return invokeHost(urls.spaUrl, relUrl, returnPath, 'POST', body, options);
+}
\ No newline at end of file
@@ -1,8 +1,11 @@
 ﻿import Oidc from 'oidc-client';
 import * as Api from './api';
+import { ensureSuccess, UnauthorizedError } from './api-error';
+import { clientConfig } from './config';
 import * as Store from './store/store';
 import { PermissionData } from './store/userStore';
 import { router } from './router';
+import { tabSync } from './store/tab-sync';
 import { JL } from 'jsnlog';
 import * as ErrorMsg from './error-msg';
 
@@ -13,16 +16,21 @@ export function configureOidc() {
     Oidc.Log.logger = JL("OIDC");
     config = {
         authority: Api.urls.authUrl,
-        client_id: "vue.client",
+        client_id: clientConfig.clientId,
         redirect_uri: `${Api.urls.spaUrl}oidc/callback`,
         response_type: "id_token token",
-        scope: "openid profile roles vcfapi",
+        scope: clientConfig.scopes,
         prompt: "none",
         post_logout_redirect_uri: Api.urls.spaUrl,
         userStore: new Oidc.WebStorageStateStore({ store: window.localStorage })
     };
     authMgr = new Oidc.UserManager(config);
-    authMgr.events.addAccessTokenExpiring(authorize);
+    // Only the leader tab renews the token; the others receive the renewed user from it.
+    authMgr.events.addAccessTokenExpiring(() => {
+        if (tabSync.isLeader) {
+            authorize();
+        }
+    });
 }
 
 async function authorize(): Promise<string> {
@@ -114,6 +122,31 @@ export interface AuthorizationViewModel {
     canShare: string;
 }
 
+// Signs the user in if they aren't already, before their authorization is checked. Returns false
+// if the user must sign in.
+async function ensureSignedIn(): Promise<boolean> {
+    let user = await authMgr.getUser();
+    if (user && Store.store.state.userState.user) {
+        return true;
+    }
+    return await authorize() !== "login";
+}
+
+// Stores the user's permission for the data, as reported by the API. Unauthorized results are
+// stored too, so that they aren't requested again until they expire.
+function commitPermission(dataType: string, id: string, data: AuthorizationViewModel) {
+    let permission: PermissionData = { dataType, canShare: data.canShare };
+    if (id) {
+        permission.id = id;
+    }
+    if (data.authorization === "unauthorized") {
+        permission.unauthorized = true;
+    } else if (data.authorization !== "authorized") {
+        permission.permission = data.authorization;
+    }
+    Store.store.commit(Store.updatePermission, permission);
+}
+
 /**
  * Calls an API endpoint which authorizes the current user for the data indicated.
  * @param {string} dataType The type of data requested.
@@ -123,55 +156,70 @@ export interface AuthorizationViewModel {
  */
 export async function checkAuthorization(dataType: string, operation = '', id = ''): Promise<string> {
     try {
-        let user = await authMgr.getUser();
-        let authorizeResult;
-        if (!user || !Store.store.state.userState.user) {
-            authorizeResult = await authorize();
-        } else {
-            authorizeResult = "authorized";
+        if (!await ensureSignedIn()) {
+            return "login";
         }
-        if (authorizeResult === "login") {
-            return authorizeResult;
-        } else {
-            let url = `Authorization/Authorize/${dataType}`;
-            if (operation) url += `?operation=${operation}`;
-            if (id) {
-                if (operation) {
-                    url += '&';
-                } else {
-                    url += '?';
-                }
-                url += `id=${id}`;
-            }
-            let response = await Api.getAuth(url);
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw Error("unauthorized");
-                }
-                throw Error(response.statusText);
-            }
-            let data = await response.json() as AuthorizationViewModel;
-            if (data.authorization === "login") {
-                return "login";
-            }
-            let permission: PermissionData = { dataType };
-            if (id) {
-                permission.id = id;
-            }
-            permission.canShare = data.canShare;
-            if (data.authorization !== "authorized"
-                && data.authorization !== "unauthorized") {
-                permission.permission = data.authorization;
+        let url = `Authorization/Authorize/${dataType}`;
+        if (operation) url += `?operation=${operation}`;
+        if (id) {
+            if (operation) {
+                url += '&';
+            } else {
+                url += '?';
             }
-            Store.store.commit(Store.updatePermission, permission);
-            return data.authorization;
+            url += `id=${id}`;
         }
+        let response = await Api.getAuth(url);
+        await ensureSuccess(response);
+        let data = await response.json() as AuthorizationViewModel;
+        if (data.authorization === "login") {
+            return "login";
+        }
+        commitPermission(dataType, id, data);
+        return data.authorization;
     } catch (error) {
-        if (error.message === "unauthorized") {
-            return error.message;
+        if (error instanceof UnauthorizedError) {
+            return "unauthorized";
         } else {
             ErrorMsg.logError("authorization.checkAuthorization", error);
             return "login";
         }
     }
 }
+
+/**
+ * Calls an API endpoint which authorizes the current user for the data indicated, for each of a
+ * collection of items in a single request. The resulting permissions are added to the store.
+ * @param {string} dataType The type of data requested.
+ * @param {string[]} ids The primary keys of the data items requested.
+ * @param {string} operation The type of operation to be performed on the data.
+ * @returns {string} Either 'authorized' once the permissions have been stored, 'unauthorized' if
+ * the user has no permission for any of the items, or 'login' if the user must sign in.
+ */
+export async function checkAuthorizationRange(dataType: string, ids: string[], operation = ''): Promise<string> {
+    try {
+        if (!await ensureSignedIn()) {
+            return "login";
+        }
+        let url = `Authorization/AuthorizeRange/${dataType}`;
+        if (operation) url += `?operation=${operation}`;
+        let response = await Api.postAuth(url, undefined, JSON.stringify(ids));
+        await ensureSuccess(response, 'POST');
+        let data = await response.json() as { [id: string]: AuthorizationViewModel };
+        for (let id in data) {
+            if (data[id].authorization === "login") {
+                return "login";
+            }
+            commitPermission(dataType, id, data[id]);
+        }
+        return "authorized";
+    } catch (error) {
+        if (error instanceof UnauthorizedError) {
+            ids.forEach(id => commitPermission(dataType, id, { authorization: "unauthorized", canShare: undefined }));
+            return "unauthorized";
+        } else {
+            ErrorMsg.logError("authorization.checkAuthorizationRange", error);
+            return "login";
+        }
+    }
+}
\ No newline at end of file
@@ -2,7 +2,11 @@ import Vue from 'vue';
 import VueRouter from 'vue-router';
 Vue.use(VueRouter);
 import { store } from './store/store';
+import { mutationQueue } from './store/mutation-queue';
+import { tabSync } from './store/tab-sync';
 import { router } from './router';
+import { applyConfig, ConfigError, loadConfig } from './config';
+import * as ErrorMsg from './error-msg';
 
 import Vuetify from 'vuetify';
 Vue.use(Vuetify);
@@ -21,9 +25,27 @@ Vue.component("fieldCollection", require('./dynamic-data/dynamic-form/fieldColle
 
 Vue.use(VueFormGenerator);
 
-new Vue({
-    el: '#app-root',
-    store,
-    router,
-    render: h => h(require('./components/app/app.vue').default)
-});
+async function start() {
+    try {
+        applyConfig(await loadConfig());
+    } catch (error) {
+        ErrorMsg.logError('boot.start', error);
+        let problems = error instanceof ConfigError ? error.problems : ['The client configuration could not be loaded.'];
+        new Vue({
+            el: '#app-root',
+            render: h => h(require('./components/error/config-error.vue').default, { props: { problems } })
+        });
+        return;
+    }
+    // Sends any changes which were saved while offline during an earlier visit.
+    mutationQueue.start();
+    tabSync.start();
+    new Vue({
+        el: '#app-root',
+        store,
+        router,
+        render: h => h(require('./components/app/app.vue').default)
+    });
+}
+
+start();
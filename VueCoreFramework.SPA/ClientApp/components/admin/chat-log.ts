@@ -0,0 +1,258 @@
+﻿import Vue from 'vue';
+import { Component, Prop } from 'vue-property-decorator';
+import * as Api from '../../api';
+import { ApiError, fromResponse } from '../../api-error';
+import { AttachmentViewModel, ChatLogFormat, ConversationViewModel, MessageDateRange, MessageViewModel, messagePageSize, messaging } from '../../store/messaging';
+import { UserViewModel } from '../app/app';
+import * as ErrorMsg from '../../error-msg';
+import * as moment from 'moment';
+
+@Component
+export default class ChatLogComponent extends Vue {
+    @Prop()
+    username: string;
+
+    activity = false;
+    conversations: ConversationViewModel[] = [];
+    errorMessage = '';
+    flaggedOnly = false;
+    flagDialog = false;
+    flagMessage: MessageViewModel = null;
+    flagNote = '';
+    foundUser: UserViewModel = null;
+    from = '';
+    groups: string[] = [];
+    hasEarlier = false;
+    messages: MessageViewModel[] = [];
+    searchUsername = '';
+    searchUsernameRequest = new Api.LatestRequest();
+    searchUsernameSuggestion = '';
+    searchUsernameTimeout = 0;
+    selectedGroup = '';
+    selectedUsername = '';
+    to = '';
+
+    get range(): MessageDateRange {
+        return {
+            from: this.from ? moment(this.from).toDate() : undefined,
+            // The end date is included in the review.
+            to: this.to ? moment(this.to).add(1, 'day').toDate() : undefined
+        };
+    }
+
+    get shownMessages() {
+        return this.flaggedOnly ? this.messages.filter(m => m.flag) : this.messages;
+    }
+
+    get title() {
+        if (this.selectedGroup) {
+            return `Group chat of ${this.selectedGroup}`;
+        } else if (this.selectedUsername) {
+            return `Conversation between ${this.foundUser.username} and ${this.selectedUsername}`;
+        }
+        return '';
+    }
+
+    formatSize(size: number) {
+        if (size < 1024) {
+            return `${size} B`;
+        } else if (size < 1024 * 1024) {
+            return `${Math.round(size / 1024)} KB`;
+        }
+        return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    formatTimestamp(timestamp: string) {
+        return moment(timestamp).format('l LTS');
+    }
+
+    handleError(error: any, method: string) {
+        if (error instanceof ApiError) {
+            this.errorMessage = error.message;
+        } else {
+            this.errorMessage = 'A problem occurred.';
+            ErrorMsg.logError(`admin/chat-log.${method}`, error);
+        }
+    }
+
+    async loadMessages(before?: string) {
+        this.activity = true;
+        this.errorMessage = '';
+        try {
+            let page = { before };
+            let messages = this.selectedGroup
+                ? await messaging.getProxyGroupMessages(this.$route.fullPath, this.selectedGroup, page, this.range)
+                : await messaging.getProxyUserMessages(this.$route.fullPath, this.foundUser.username, this.selectedUsername, page, this.range);
+            this.hasEarlier = messages.length >= messagePageSize;
+            this.messages = before ? messages.concat(this.messages) : messages;
+        } catch (error) {
+            this.handleError(error, 'loadMessages');
+        }
+        this.activity = false;
+    }
+
+    mounted() {
+        if (this.username) {
+            this.searchUsername = this.username;
+            this.onUsernameSearch();
+        }
+    }
+
+    async onApplyFilters() {
+        if (!this.foundUser) {
+            return;
+        }
+        this.activity = true;
+        this.errorMessage = '';
+        try {
+            this.conversations = await messaging.getProxyConversations(this.$route.fullPath, this.foundUser.username, this.range);
+            this.groups = await messaging.getProxyGroups(this.$route.fullPath, this.foundUser.username, this.range);
+        } catch (error) {
+            this.handleError(error, 'onApplyFilters');
+        }
+        this.activity = false;
+        if (this.selectedGroup || this.selectedUsername) {
+            await this.loadMessages();
+        }
+    }
+
+    async onExport(format: ChatLogFormat) {
+        this.errorMessage = '';
+        try {
+            let file = await messaging.exportProxyMessages(this.$route.fullPath, this.foundUser.username, this.selectedUsername, this.selectedGroup, format, this.range);
+            this.saveFile(file, `chat-log-${this.selectedGroup || `${this.foundUser.username}-${this.selectedUsername}`}.${format}`);
+        } catch (error) {
+            this.handleError(error, 'onExport');
+        }
+    }
+
+    async onFlag() {
+        this.flagDialog = false;
+        this.errorMessage = '';
+        let message = this.flagMessage;
+        try {
+            await messaging.flagMessage(this.$route.fullPath, message.id, this.flagNote);
+            message.flag = {
+                note: this.flagNote || undefined,
+                timestamp: new Date().toISOString(),
+                username: this.$store.state.userState.username
+            };
+        } catch (error) {
+            this.handleError(error, 'onFlag');
+        }
+    }
+
+    onFlagConfirm(message: MessageViewModel) {
+        this.flagMessage = message;
+        this.flagNote = message.flag && message.flag.note || '';
+        this.flagDialog = true;
+    }
+
+    async onLoadEarlier() {
+        if (this.messages.length) {
+            await this.loadMessages(this.messages[0].id);
+        }
+    }
+
+    async onOpenAttachment(attachment: AttachmentViewModel) {
+        this.errorMessage = '';
+        try {
+            this.saveFile(await messaging.getAttachment(this.$route.fullPath, attachment.id), attachment.fileName);
+        } catch (error) {
+            this.handleError(error, 'onOpenAttachment');
+        }
+    }
+
+    onSearchUsernameChange(val: string, oldVal: string) {
+        if (this.searchUsernameTimeout === 0) {
+            this.searchUsernameTimeout = setTimeout(this.suggestSearchUsername, 500);
+        }
+    }
+
+    onSearchUsernameKeypress(event: KeyboardEvent) {
+        if (event.key === "Enter") {
+            this.onUsernameSearch();
+        }
+    }
+
+    async onSelectConversation(username: string) {
+        this.selectedGroup = '';
+        this.selectedUsername = username;
+        this.messages = [];
+        await this.loadMessages();
+    }
+
+    async onSelectGroup(group: string) {
+        this.selectedGroup = group;
+        this.selectedUsername = '';
+        this.messages = [];
+        await this.loadMessages();
+    }
+
+    async onUnflag(message: MessageViewModel) {
+        this.errorMessage = '';
+        try {
+            await messaging.unflagMessage(this.$route.fullPath, message.id);
+            message.flag = undefined;
+        } catch (error) {
+            this.handleError(error, 'onUnflag');
+        }
+    }
+
+    async onUsernameSearch() {
+        this.errorMessage = '';
+        this.foundUser = null;
+        this.conversations = [];
+        this.groups = [];
+        this.messages = [];
+        this.selectedGroup = '';
+        this.selectedUsername = '';
+        if (!this.searchUsername) {
+            return;
+        }
+        this.activity = true;
+        try {
+            let response = await Api.postAuth(`Account/VerifyUser/${this.searchUsername}`, this.$route.fullPath);
+            if (!response.ok) {
+                throw await fromResponse(response);
+            }
+            this.foundUser = await response.json() as UserViewModel;
+        } catch (error) {
+            this.activity = false;
+            this.handleError(error, 'onUsernameSearch');
+            return;
+        }
+        await this.onApplyFilters();
+    }
+
+    saveFile(file: Blob, fileName: string) {
+        let url = URL.createObjectURL(file);
+        let link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    async suggestSearchUsername() {
+        this.searchUsernameTimeout = 0;
+        if (!this.searchUsername) {
+            return;
+        }
+        let request = this.searchUsernameRequest.next();
+        try {
+            let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.searchUsername}`, this.$route.fullPath, undefined, { signal: request.signal });
+            if (!response.ok) {
+                throw await fromResponse(response);
+            } else if (request.isCurrent()) {
+                this.searchUsernameSuggestion = response.statusText;
+            }
+        } catch (error) {
+            if (request.isCurrent()) {
+                ErrorMsg.logError('admin/chat-log.suggestSearchUsername', error);
+            }
+        }
+    }
+}
\ No newline at end of file
@@ -1,9 +1,11 @@
-import Vue from 'vue';
-import { Component } from 'vue-property-decorator';
+﻿import Vue from 'vue';
+import { Component, Watch } from 'vue-property-decorator';
 import { authMgr, configureOidc } from '../../authorization';
 import * as Api from '../../api';
+import { ApiError, fromResponse } from '../../api-error';
 import * as Store from '../../store/store';
-import { ConversationViewModel, MessageViewModel, messaging } from '../../store/messaging';
+import { AttachmentViewModel, attachmentPolicy, checkAttachment, ConversationViewModel, highlightMentions, MessageViewModel, messaging, typingPolicy } from '../../store/messaging';
+import { isChatMuted } from '../../store/notifications';
 import { defaultCulture } from '../../globalization/globalization';
 import { Group } from '../group/manage';
 import * as ErrorMsg from '../../error-msg';
@@ -13,7 +15,7 @@ import * as moment from 'moment';
 /**
  * Used to transfer information about a user.
  */
-interface UserViewModel {
+export interface UserViewModel {
     /**
      * The user's email address
      */
@@ -34,27 +36,85 @@ interface UserViewModel {
     components: {
         TopbarComponent: require('../topbar/topbar.vue').default,
         MenuItemComponent: require('../menu-item/menu-item.vue').default,
+        MessageSearchComponent: require('../message-search/message-search.vue').default,
         VueMarkdown
     }
 })
 export default class AppComponent extends Vue {
+    attachmentFiles: File[] = [];
+    editingMessage: MessageViewModel = null;
     foundUser: UserViewModel = null;
     foundUserConversations: ConversationViewModel[] = [];
+    lastTypingNotice = 0;
+    loadingOlderMessages = false;
     messageText = '';
+    reactionEmoji = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+    replyText = '';
     sideNav = false;
     chatErrorMessage = '';
-    chatRefreshTimeout = 0;
-    conversationRefreshTimeout = 0;
-    groupRefreshTimeout = 0;
     searchUsername = '';
+    searchUsernameRequest = new Api.LatestRequest();
     searchUsernameSuggestion = '';
     searchUsernameTimeout = 0;
-    systemMessageRefreshTimeout = 0;
+    threadCollapsed = false;
+    uploadProgress = 0;
+    uploading = false;
+
+    get canMuteChat() {
+        let chat = this.$store.state.uiState.messaging;
+        return !chat.proxySender && !!(chat.groupChat || chat.interlocutor);
+    }
+
+    get chatMembers(): string[] {
+        let group = this.groups.find(g => g.name === this.$store.state.uiState.messaging.groupChat);
+        return group ? group.members : [];
+    }
+
+    get chatMuted() {
+        let chat = this.$store.state.uiState.messaging;
+        return isChatMuted(this.$store.state.userState.notificationSettings, chat.interlocutor, chat.groupChat);
+    }
 
     get groups() {
         return this.$store.state.userState.managedGroups.concat(this.$store.state.userState.joinedGroups);
     }
 
+    get mentionSuggestions() {
+        // Members are suggested while a mention is typed at the end of the message.
+        let match = /(^|\s)@([\w.@+-]*)$/.exec(this.messageText);
+        if (!match) {
+            return [];
+        }
+        let partial = match[2].toLowerCase();
+        return this.chatMembers
+            .filter(m => m !== this.$store.state.userState.username && m.toLowerCase().startsWith(partial))
+            .slice(0, 5);
+    }
+
+    get typingDescription() {
+        let typingUsers: string[] = this.$store.state.uiState.messaging.typingUsers;
+        if (typingUsers.length === 0) {
+            return '';
+        } else if (typingUsers.length === 1) {
+            return `${typingUsers[0]} is typing...`;
+        } else if (typingUsers.length === 2) {
+            return `${typingUsers[0]} and ${typingUsers[1]} are typing...`;
+        }
+        return `${typingUsers.length} people are typing...`;
+    }
+
+    canChangeMessage(message: MessageViewModel) {
+        return !message.isSystemMessage
+            && !message.isDeleted
+            && message.username === this.$store.state.userState.username;
+    }
+
+    canReply(message: MessageViewModel) {
+        return this.$store.state.uiState.messaging.groupChat
+            && !message.isSystemMessage
+            && !message.threadId;
+    }
+
     created() {
         configureOidc();
 
@@ -67,22 +127,6 @@ export default class AppComponent extends Vue {
         if (forwardUrl) {
             this.$router.push(forwardUrl);
         }
-
-        if (this.groupRefreshTimeout === 0) {
-            this.groupRefreshTimeout = setTimeout(this.refreshGroups, 100);
-        }
-
-        if (this.systemMessageRefreshTimeout === 0) {
-            this.systemMessageRefreshTimeout = setTimeout(this.refreshSystemMessages, 200);
-        }
-
-        if (this.conversationRefreshTimeout === 0) {
-            this.conversationRefreshTimeout = setTimeout(this.refreshConversations, 300);
-        }
-
-        if (this.chatRefreshTimeout === 0) {
-            this.chatRefreshTimeout = setTimeout(this.refreshChat, 400);
-        }
     }
 
     describeMembers(group: Group) {
@@ -107,10 +151,32 @@ export default class AppComponent extends Vue {
         return desc;
     }
 
+    describeReplies(message: MessageViewModel) {
+        let desc = message.replyCount === 1 ? '1 reply' : `${message.replyCount} replies`;
+        if (message.unreadReplyCount) {
+            desc += ` (${message.unreadReplyCount} new)`;
+        }
+        return desc;
+    }
+
+    formatSize(size: number) {
+        if (size < 1024) {
+            return `${size} B`;
+        } else if (size < 1024 * 1024) {
+            return `${Math.round(size / 1024)} KB`;
+        }
+        return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
     formatTimestamp(timestamp: string) {
         return moment(timestamp).format('M/D LTS');
     }
 
+    getMentionCount(group: Group) {
+        let mentions = this.$store.state.uiState.messaging.mentions.find(m => m.group === group.name);
+        return mentions ? mentions.unreadCount : 0;
+    }
+
     getMessageClass(message: MessageViewModel) {
         if (message.username === this.$store.state.userState.username) {
             return { 'blue--text': true };
@@ -155,6 +221,43 @@ export default class AppComponent extends Vue {
         }
     }
 
+    getMessageContent(message: MessageViewModel) {
+        if (!this.$store.state.uiState.messaging.groupChat) {
+            return message.content;
+        }
+        return highlightMentions(message.content, this.chatMembers, this.$store.state.userState.username);
+    }
+
+    getReaders(message: MessageViewModel) {
+        let sent = new Date(message.timestamp).getTime();
+        return this.$store.state.uiState.messaging.receipts
+            .filter(r => r.username !== message.username && r.lastRead && new Date(r.lastRead).getTime() >= sent)
+            .map(r => r.username);
+    }
+
+    getReceiptStatus(message: MessageViewModel) {
+        let chat = this.$store.state.uiState.messaging;
+        if (!chat.groupChat
+            || !chat.receipts.length
+            || message.isSystemMessage
+            || message.isDeleted
+            || message.username !== this.$store.state.userState.username) {
+            return '';
+        }
+        let sent = new Date(message.timestamp).getTime();
+        let others = chat.receipts.filter(r => r.username !== message.username);
+        let read = this.getReaders(message).length;
+        let delivered = others.filter(r => r.lastDelivered && new Date(r.lastDelivered).getTime() >= sent).length;
+        if (others.length && read === others.length) {
+            return 'Seen by everyone';
+        } else if (read) {
+            return `Seen by ${read} of ${others.length}`;
+        } else if (delivered) {
+            return `Delivered to ${delivered} of ${others.length}`;
+        }
+        return 'Sent';
+    }
+
     async onAdminChatProxy(interlocutor: string) {
         this.$store.commit(Store.startChatAdminReview, { proxySender: this.foundUser.username, interlocutor });
         await this.$store.dispatch(Store.refreshChat, this.$route.fullPath);
@@ -162,6 +265,51 @@ export default class AppComponent extends Vue {
         chat.scrollTop = chat.scrollHeight;
     }
 
+    onAttachClick() {
+        document.getElementById('chat-attachment-input').click();
+    }
+
+    onAttachFiles(event: Event) {
+        this.chatErrorMessage = '';
+        let input = event.target as HTMLInputElement;
+        for (var i = 0; i < input.files.length; i++) {
+            let file = input.files[i];
+            let problem = checkAttachment(file);
+            if (!problem && this.attachmentFiles.length >= attachmentPolicy.maxAttachments) {
+                problem = `You may attach no more than ${attachmentPolicy.maxAttachments} files to a message.`;
+            }
+            if (problem) {
+                this.chatErrorMessage = problem;
+            } else {
+                this.attachmentFiles.push(file);
+            }
+        }
+        // Allows the same file to be chosen again after it has been removed.
+        input.value = '';
+    }
+
+    onCancelEdit() {
+        this.editingMessage = null;
+        this.messageText = '';
+    }
+
+    async onChatScroll() {
+        let chat = document.getElementById('chat-row');
+        if (chat.scrollTop > 50
+            || this.loadingOlderMessages
+            || !this.$store.state.uiState.messaging.hasOlderMessages) {
+            return;
+        }
+        this.loadingOlderMessages = true;
+        await this.$store.dispatch(Store.loadOlderMessages, this.$route.fullPath);
+        this.loadingOlderMessages = false;
+    }
+
+    onCloseThread() {
+        this.replyText = '';
+        this.$store.commit(Store.hideThread);
+    }
+
     async onDeleteChat(interlocutor: string) {
         try {
             await messaging.markConversationDeleted(this.$route.fullPath, interlocutor);
@@ -171,6 +319,28 @@ export default class AppComponent extends Vue {
         }
     }
 
+    async onDeleteMessage(message: MessageViewModel) {
+        this.chatErrorMessage = '';
+        try {
+            await messaging.deleteMessage(this.$route.fullPath, message.id);
+            if (this.editingMessage === message) {
+                this.onCancelEdit();
+            }
+            await this.$store.dispatch(Store.refreshMessage, message.id);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                this.chatErrorMessage = error.message;
+            } else {
+                ErrorMsg.logError('app.onDeleteMessage', error);
+            }
+        }
+    }
+
+    onEditMessage(message: MessageViewModel) {
+        this.editingMessage = message;
+        this.messageText = message.content;
+    }
+
     async onGroupChat(group: Group) {
         this.$store.commit(Store.startChatWithGroup, group.name);
         await this.$store.dispatch(Store.refreshChat, this.$route.fullPath);
@@ -179,6 +349,8 @@ export default class AppComponent extends Vue {
     }
 
     onHideChat() {
+        this.onCancelEdit();
+        this.attachmentFiles = [];
         this.$store.commit(Store.hideChat);
     }
 
@@ -202,12 +374,98 @@ export default class AppComponent extends Vue {
         }
     }
 
+    onMentionSelect(member: string) {
+        this.messageText = this.messageText.replace(/@[\w.@+-]*$/, `@${member} `);
+    }
+
+    @Watch('$store.state.uiState.messaging.messages')
+    onMessagesChange(val: MessageViewModel[], oldVal: MessageViewModel[]) {
+        let chat = document.getElementById('chat-row');
+        if (!chat) {
+            return;
+        }
+        // A message being focused is scrolled into view once it is shown. Otherwise, a reader at the
+        // bottom of the chat follows new messages, and their place in the conversation is kept when
+        // older messages are added above it.
+        let focusedId = this.$store.state.uiState.messaging.focusedMessageId;
+        let focusing = focusedId && !oldVal.some(m => m.id === focusedId) && val.some(m => m.id === focusedId);
+        let atBottom = chat.scrollHeight - chat.scrollTop - chat.clientHeight < 20;
+        let fromBottom = chat.scrollHeight - chat.scrollTop;
+        let prepended = oldVal.length && val.length && val[0].id !== oldVal[0].id;
+        this.$nextTick(() => {
+            if (focusing) {
+                document.getElementById(`message-${focusedId}`).scrollIntoView();
+            } else if (atBottom) {
+                chat.scrollTop = chat.scrollHeight;
+            } else if (prepended) {
+                chat.scrollTop = chat.scrollHeight - fromBottom;
+            }
+        });
+    }
+
+    async onOpenThread(message: MessageViewModel) {
+        if (!this.$store.state.uiState.messaging.thread
+            || this.$store.state.uiState.messaging.thread.id !== message.id) {
+            this.replyText = '';
+            this.$store.commit(Store.showThread, message);
+        }
+        this.threadCollapsed = false;
+        await this.$store.dispatch(Store.refreshThread, this.$route.fullPath);
+    }
+
+    async onOpenAttachment(attachment: AttachmentViewModel) {
+        this.chatErrorMessage = '';
+        try {
+            let file = await messaging.getAttachment(this.$route.fullPath, attachment.id);
+            let url = URL.createObjectURL(file);
+            let link = document.createElement('a');
+            link.href = url;
+            link.download = attachment.fileName;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                this.chatErrorMessage = error.message;
+            } else {
+                ErrorMsg.logError('app.onOpenAttachment', error);
+            }
+        }
+    }
+
+    onMessageTextInput(val: string) {
+        let group = this.$store.state.uiState.messaging.groupChat;
+        // Other members are told periodically while the user types, rather than on every key.
+        if (!group || !val || this.editingMessage
+            || Date.now() - this.lastTypingNotice < typingPolicy.notifyInterval) {
+            return;
+        }
+        this.lastTypingNotice = Date.now();
+        messaging.notifyTyping(this.$route.fullPath, group)
+            .catch(error => ErrorMsg.logError('app.onMessageTextInput', error));
+    }
+
     onMessageTextKeypress(event: KeyboardEvent) {
         if (event.key === "Enter") {
             this.sendMessage();
         }
     }
 
+    onRemoveAttachment(index: number) {
+        this.attachmentFiles.splice(index, 1);
+    }
+
+    onReplyTextKeypress(event: KeyboardEvent) {
+        if (event.key === "Enter") {
+            this.sendReply();
+        }
+    }
+
+    onReviewChatLogs() {
+        this.$router.push({ path: '/admin/chat-log', query: { username: this.foundUser.username } });
+    }
+
     onSearchUsernameChange(val: string, oldVal: string) {
         if (this.searchUsernameTimeout === 0) {
             this.searchUsernameTimeout = setTimeout(this.suggestSearchUsername, 500);
@@ -227,6 +485,39 @@ export default class AppComponent extends Vue {
         chat.scrollTop = chat.scrollHeight;
     }
 
+    async onToggleMute() {
+        this.chatErrorMessage = '';
+        let chat = this.$store.state.uiState.messaging;
+        try {
+            await messaging.setChatMuted(this.$route.fullPath, !this.chatMuted, chat.interlocutor, chat.groupChat);
+            await this.$store.dispatch(Store.refreshNotificationSettings, this.$route.fullPath);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                this.chatErrorMessage = error.message;
+            } else {
+                ErrorMsg.logError('app.onToggleMute', error);
+            }
+        }
+    }
+
+    onToggleThread() {
+        this.threadCollapsed = !this.threadCollapsed;
+    }
+
+    async onToggleReaction(message: MessageViewModel, emoji: string) {
+        this.chatErrorMessage = '';
+        try {
+            await messaging.toggleReaction(this.$route.fullPath, message.id, emoji);
+            await this.$store.dispatch(Store.refreshMessage, message.id);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                this.chatErrorMessage = error.message;
+            } else {
+                ErrorMsg.logError('app.onToggleReaction', error);
+            }
+        }
+    }
+
     async onUnlockAccount() {
         try {
             let response = await Api.postAuth(`Manage/UnlockAccount/${this.foundUser.username}`, this.$route.fullPath);
@@ -279,74 +570,81 @@ export default class AppComponent extends Vue {
         }
     }
 
-    async refreshChat() {
-        this.chatRefreshTimeout = 0;
-        if (this.$store.state.uiState.messaging.messagingShown
-            && this.$store.state.uiState.messaging.chatShown) {
-            try {
-                await this.$store.dispatch(Store.refreshChat, this.$route.fullPath);
-            } catch (error) { }
-        }
-        this.chatRefreshTimeout = setTimeout(this.refreshChat, 10000);
+    refreshChat() {
+        return this.$store.dispatch(Store.refreshChat, this.$route.fullPath);
     }
 
-    async refreshConversations() {
-        this.conversationRefreshTimeout = 0;
-        if (this.$store.state.userState.user) {
-            try {
-                await this.$store.dispatch(Store.refreshConversations, this.$route.fullPath);
-            } catch (error) { }
-        }
-        this.conversationRefreshTimeout = setTimeout(this.refreshConversations, 10000);
-    }
-
-    async refreshGroups() {
-        this.groupRefreshTimeout = 0;
-        if (this.$store.state.userState.user) {
-            try {
-                await this.$store.dispatch(Store.refreshGroups, this.$route.fullPath);
-            } catch (error) { }
-        }
-        this.groupRefreshTimeout = setTimeout(this.refreshGroups, 10000);
-    }
-
-    async refreshSystemMessages() {
-        this.systemMessageRefreshTimeout = 0;
-        if (this.$store.state.userState.user) {
-            try {
-                await this.$store.dispatch(Store.refreshSystemMessages, this.$route.fullPath);
-            } catch (error) { }
-        }
-        this.systemMessageRefreshTimeout = setTimeout(this.refreshSystemMessages, 10000);
+    refreshConversations() {
+        return this.$store.dispatch(Store.refreshConversations, this.$route.fullPath);
     }
 
     async sendMessage() {
+        if (this.uploading) {
+            return;
+        }
         this.chatErrorMessage = '';
+        let onProgress = (loaded: number, total: number) => {
+            this.uploadProgress = total ? Math.round(loaded * 100 / total) : 0;
+        };
+        this.uploading = this.attachmentFiles.length > 0;
+        this.uploadProgress = 0;
         try {
-            if (this.$store.state.uiState.messaging.groupChat) {
+            if (this.editingMessage) {
+                await messaging.editMessage(this.$route.fullPath, this.editingMessage.id, this.messageText);
+                let id = this.editingMessage.id;
+                this.onCancelEdit();
+                await this.$store.dispatch(Store.refreshMessage, id);
+            } else if (this.$store.state.uiState.messaging.groupChat) {
                 await messaging.sendMessageToGroup(this.$route.fullPath,
                     this.$store.state.uiState.messaging.groupChat,
-                    this.messageText);
+                    this.messageText,
+                    this.attachmentFiles,
+                    onProgress);
                 this.messageText = '';
+                this.attachmentFiles = [];
                 await this.refreshChat();
                 let chat = document.getElementById('chat-row');
                 chat.scrollTop = chat.scrollHeight;
             } else {
                 await messaging.sendMessageToUser(this.$route.fullPath,
                     this.$store.state.uiState.messaging.interlocutor,
-                    this.messageText);
+                    this.messageText,
+                    this.attachmentFiles,
+                    onProgress);
                 this.messageText = '';
+                this.attachmentFiles = [];
                 await this.refreshChat();
                 let chat = document.getElementById('chat-row');
                 chat.scrollTop = chat.scrollHeight;
             }
         } catch (error) {
-            if (error && error.message && error.message.startsWith('CODE')) {
-                this.chatErrorMessage = error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.chatErrorMessage = error.message;
             } else {
                 ErrorMsg.logError('app.sendMessage', error);
             }
         }
+        this.uploading = false;
+    }
+
+    async sendReply() {
+        let chat = this.$store.state.uiState.messaging;
+        if (!chat.thread || !this.replyText) {
+            return;
+        }
+        this.chatErrorMessage = '';
+        try {
+            await messaging.sendReply(this.$route.fullPath, chat.groupChat, chat.thread.id, this.replyText);
+            this.replyText = '';
+            await this.$store.dispatch(Store.refreshThread, this.$route.fullPath);
+            await this.$store.dispatch(Store.refreshMessage, chat.thread.id);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                this.chatErrorMessage = error.message;
+            } else {
+                ErrorMsg.logError('app.sendReply', error);
+            }
+        }
     }
 
     async suggestSearchUsername() {
@@ -354,15 +652,18 @@ export default class AppComponent extends Vue {
         if (!this.searchUsername) {
             return;
         }
+        let request = this.searchUsernameRequest.next();
         try {
-            let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.searchUsername}`, this.$route.fullPath);
+            let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.searchUsername}`, this.$route.fullPath, undefined, { signal: request.signal });
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
-            } else {
+                throw await fromResponse(response);
+            } else if (request.isCurrent()) {
                 this.searchUsernameSuggestion = response.statusText;
             }
         } catch (error) {
-            ErrorMsg.logError('app.suggestSearchUsername', error);
+            if (request.isCurrent()) {
+                ErrorMsg.logError('app.suggestSearchUsername', error);
+            }
         }
     }
 }
@@ -1,8 +1,10 @@
 ﻿import Vue from 'vue';
 import VueRouter, { Route } from 'vue-router';
 import { Component, Prop, Watch } from 'vue-property-decorator';
+import { ApiError } from '../../../api-error';
 import * as ErrorMsg from '../../../error-msg';
 import { Repository } from '../../../store/repository';
+import { City, getRepository } from '../../../store/models';
 
 @Component
 export default class DynamicFormComponent extends Vue {
@@ -29,37 +31,43 @@ export default class DynamicFormComponent extends Vue {
     otherCapitol = true;
     errorMessage = '';
     isCapitol = false;
-    repository: Repository = null;
+    repository: Repository<City> = null;
     updateTimeout = 0;
 
     @Watch('isCapitol')
     async onIsCapitolChanged(newVal: boolean, oldVal: boolean) {
         this.errorMessage = '';
+        let data: City;
         try {
-            let data = await this.repository.find(this.$route.fullPath, this.id);
-            if (data['isCapitol'] !== this.isCapitol) {
-                data['isCapitol'] = this.isCapitol;
-                this.repository.update(this.$route.fullPath, data);
-            }
+            data = await this.repository.find(this.$route.fullPath, this.id);
         } catch (error) {
             ErrorMsg.logError("city.onSetCapitol", error);
             this.errorMessage = "A problem has occurred.";
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
+            }
+            return;
+        }
+        // Booleans are represented by the API as strings.
+        if ((data.isCapitol === 'True') !== this.isCapitol) {
+            data.isCapitol = this.isCapitol ? 'True' : 'False';
+            try {
+                await this.repository.update(this.$route.fullPath, data);
+            } catch (error) {
+                this.isCapitol = oldVal;
             }
         }
     }
 
     @Watch('$route')
     onRouteChange(val: Route, oldVal: Route) {
-        this.repository = this.$store.getters.getRepository(val.name);
         if (this.updateTimeout === 0) {
             this.updateTimeout = setTimeout(this.updateForm, 125);
         }
     }
 
     mounted() {
-        this.repository = this.$store.getters.getRepository(this.$route.name);
+        this.repository = getRepository('City');
         if (this.updateTimeout === 0) {
             this.updateTimeout = setTimeout(this.updateForm, 125);
         }
@@ -70,15 +78,15 @@ export default class DynamicFormComponent extends Vue {
         this.updateTimeout = 0;
         try {
             let data = await this.repository.getAll(this.$route.fullPath);
-            let capitol = data.find(v => v['isCapitol']);
+            let capitol = data.find(v => v.isCapitol === 'True');
             this.isCapitol = capitol && capitol[capitol.primaryKeyProperty] === this.id;
             this.otherCapitol = capitol !== undefined && !this.isCapitol;
         } catch (error) {
             ErrorMsg.logError("city.updateForm", error);
             this.otherCapitol = true; // Without reliable information, prevent setting a new capitol.
             this.errorMessage = "A problem has occurred.";
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
     }
@@ -2,7 +2,9 @@
 import VueRouter, { Route } from 'vue-router';
 import { Component, Prop, Watch } from 'vue-property-decorator';
 import * as Api from '../../api';
+import { ApiError, fromResponse } from '../../api-error';
 import * as ErrorMsg from '../../error-msg';
+import * as Store from '../../store/store';
 import { permissionIncludesTarget, permissions, ShareData } from '../../store/userStore';
 
 @Component
@@ -34,8 +36,10 @@ export default class DashboardComponent extends Vue {
     shareSuccessMessage = '';
     shareGroups: string[] = [];
     shareGroup = '';
+    shareGroupRequest = new Api.LatestRequest();
     shareGroupSuggestion = '';
     shareGroupTimeout = 0;
+    shareUsernameRequest = new Api.LatestRequest();
     shareUsernameSuggestion = '';
     shareUsernameTimeout = 0;
     shares: ShareData[] = [];
@@ -58,6 +62,13 @@ export default class DashboardComponent extends Vue {
         this.getRouteData();
     }
 
+    destroyed() {
+        clearTimeout(this.shareGroupTimeout);
+        clearTimeout(this.shareUsernameTimeout);
+        this.shareGroupRequest.cancel();
+        this.shareUsernameRequest.cancel();
+    }
+
     getRouteData() {
         this.routeName = this.$route.name.endsWith('DataTable')
             ? this.$route.name.substr(0, this.$route.name.length - 9) // remove 'DataTable'
@@ -80,16 +91,17 @@ export default class DashboardComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Share/${action}/${this.routeName}?operation=${encodeURIComponent(share.level)}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
+                this.$store.commit(Store.invalidatePermissions, { dataType: this.routeName });
                 this.updateShares();
                 this.shareSuccessMessage = 'Success';
             }
         } catch (error) {
             ErrorMsg.logError('dynamic-table.onHide', error);
             this.shareErrorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith('CODE:')) {
-                this.shareErrorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.shareErrorMessage += error.message;
             }
         }
         this.shareActivity = false;
@@ -144,16 +156,17 @@ export default class DashboardComponent extends Vue {
         try {
             let response = await Api.postApi(url, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
+                this.$store.commit(Store.invalidatePermissions, { dataType: this.routeName });
                 this.updateShares();
                 this.shareSuccessMessage = 'Success';
             }
         } catch (error) {
             ErrorMsg.logError('dynamic-table.share', error);
             this.shareErrorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith('CODE:')) {
-                this.shareErrorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.shareErrorMessage += error.message;
             }
         }
         this.shareActivity = false;
@@ -164,19 +177,24 @@ export default class DashboardComponent extends Vue {
         if (!this.shareGroup) {
             return;
         }
+        let request = this.shareGroupRequest.next();
         try {
-            let response = await Api.getApi(`api/Share/GetShareableGroupCompletion/${this.shareGroup}`, this.$route.fullPath);
+            let response = await Api.getApi(`api/Share/GetShareableGroupCompletion/${this.shareGroup}`, this.$route.fullPath, undefined, { signal: request.signal });
             if (!response.ok) {
                 if (response.status === 404) {
-                    this.shareGroupSuggestion = '';
+                    if (request.isCurrent()) {
+                        this.shareGroupSuggestion = '';
+                    }
                 } else {
-                    throw new Error(`CODE:${response.statusText}`);
+                    throw await fromResponse(response);
                 }
-            } else {
+            } else if (request.isCurrent()) {
                 this.shareGroupSuggestion = response.statusText;
             }
         } catch (error) {
-            ErrorMsg.logError('dynamic-table.suggestShareGroup', error);
+            if (request.isCurrent()) {
+                ErrorMsg.logError('dynamic-table.suggestShareGroup', error);
+            }
         }
     }
 
@@ -185,19 +203,24 @@ export default class DashboardComponent extends Vue {
         if (!this.shareUsername) {
             return;
         }
+        let request = this.shareUsernameRequest.next();
         try {
-            let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.shareUsername}`, this.$route.fullPath);
+            let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.shareUsername}`, this.$route.fullPath, undefined, { signal: request.signal });
             if (!response.ok) {
                 if (response.status === 404) {
-                    this.shareUsernameSuggestion = '';
+                    if (request.isCurrent()) {
+                        this.shareUsernameSuggestion = '';
+                    }
                 } else {
-                    throw new Error(`CODE:${response.statusText}`);
+                    throw await fromResponse(response);
                 }
-            } else {
+            } else if (request.isCurrent()) {
                 this.shareUsernameSuggestion = response.statusText;
             }
         } catch (error) {
-            ErrorMsg.logError('dynamic-table.suggestShareUsername', error);
+            if (request.isCurrent()) {
+                ErrorMsg.logError('dynamic-table.suggestShareUsername', error);
+            }
         }
     }
 
@@ -206,7 +229,7 @@ export default class DashboardComponent extends Vue {
         try {
             let response = await Api.getApi(`api/Share/GetCurrentShares/${this.routeName}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             }
             let data = await response.json() as ShareData[];
             for (var i = 0; i < data.length; i++) {
@@ -221,7 +244,7 @@ export default class DashboardComponent extends Vue {
         try {
             let response = await Api.getApi(`api/Share/GetShareableGroupMembers`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             }
             this.groupMembers = await response.json() as string[];
         } catch (error) {
@@ -232,7 +255,7 @@ export default class DashboardComponent extends Vue {
         try {
             let response = await Api.getApi(`api/Share/GetShareableGroupSubset`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             }
             this.shareGroups = await response.json() as string[];
         } catch (error) {
@@ -0,0 +1,8 @@
+﻿import Vue from 'vue';
+import { Component, Prop } from 'vue-property-decorator';
+
+@Component
+export default class ConfigErrorComponent extends Vue {
+    @Prop()
+    problems: string[];
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 ﻿import Vue from 'vue';
 import { Component, Prop, Watch } from 'vue-property-decorator';
 import * as Api from '../../api';
+import { ApiError, fromResponse, NotFoundError } from '../../api-error';
 import * as Store from '../../store/store';
 import * as ErrorMsg from '../../error-msg';
 
@@ -27,15 +28,24 @@ export default class ManageGroupComponent extends Vue {
     newGroupName = '';
     newManager = '';
     searchGroup = '';
+    searchGroupRequest = new Api.LatestRequest();
     searchGroupSuggestion = '';
     searchGroupTimeout = 0;
     searchUsername = '';
+    searchUsernameRequest = new Api.LatestRequest();
     searchUsernameSuggestion = '';
     searchUsernameTimeout = 0;
     successMessage = '';
     xferGroup: Group = null;
     xferGroupDialog = false;
 
+    destroyed() {
+        clearTimeout(this.searchGroupTimeout);
+        clearTimeout(this.searchUsernameTimeout);
+        this.searchGroupRequest.cancel();
+        this.searchUsernameRequest.cancel();
+    }
+
     describeMembers(group: Group) {
         let memberNames = [] as string[];
         for (var i = 0; i < group.members.length; i++) {
@@ -80,7 +90,7 @@ export default class ManageGroupComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Group/StartNewGroup/${this.newGroupName}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
                 this.refreshGroups();
             }
@@ -88,8 +98,8 @@ export default class ManageGroupComponent extends Vue {
         } catch (error) {
             ErrorMsg.logError('group/manage.onCreateGroup', error);
             this.createErrorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.activity = false;
@@ -103,15 +113,15 @@ export default class ManageGroupComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Group/RemoveGroup/${this.deleteGroup.name}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
                 this.refreshGroups();
             }
         } catch (error) {
             ErrorMsg.logError('group/manage.onDeleteGroup', error);
             this.errorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.activity = false;
@@ -134,21 +144,17 @@ export default class ManageGroupComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Group/GetGroup/${this.searchGroup}`, this.$route.fullPath);
             if (!response.ok) {
-                if (response.status === 404) {
-                    throw new Error('404');
-                } else {
-                    throw new Error(`CODE:${response.statusText}`);
-                }
+                throw await fromResponse(response);
             }
             this.foundGroup = await response.json() as Group;
         } catch (error) {
             ErrorMsg.logError('group/manage.onGroupSearch', error);
-            if (error && error.message && error.message === '404') {
+            if (error instanceof NotFoundError) {
                 this.errorMessage = 'No results.';
             } else {
                 this.errorMessage = 'A problem occurred. ';
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    this.errorMessage += error.message.replace('CODE:', '');
+                if (error instanceof ApiError) {
+                    this.errorMessage += error.message;
                 }
             }
         }
@@ -160,15 +166,15 @@ export default class ManageGroupComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Group/InviteUserToGroup/${this.searchUsername}/${this.inviteGroup.name}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
                 this.successMessage = 'Invitation sent!';
             }
         } catch (error) {
             ErrorMsg.logError('group/manage.onInvite', error);
             this.errorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.activity = false;
@@ -187,15 +193,15 @@ export default class ManageGroupComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Group/LeaveGroup/${this.leaveGroup.name}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
                 this.refreshGroups();
             }
         } catch (error) {
             ErrorMsg.logError('group/manage.onLeaveGroup', error);
             this.errorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.activity = false;
@@ -213,15 +219,15 @@ export default class ManageGroupComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Group/RemoveUserFromGroup/${member}/${group.name}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
                 this.refreshGroups();
             }
         } catch (error) {
             ErrorMsg.logError('group/manage.onRemoveGroupMember', error);
             this.errorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.activity = false;
@@ -254,22 +260,22 @@ export default class ManageGroupComponent extends Vue {
             if (this.xferGroup.name === 'Admin') {
                 let response = await Api.postApi(`api/Group/TransferSiteAdminToUser/${this.newManager}`, this.$route.fullPath);
                 if (!response.ok) {
-                    throw new Error(`CODE:${response.statusText}`);
+                    throw await fromResponse(response);
                 } else {
                     this.$store.state.userState.isSiteAdmin = false;
                 }
             } else {
                 let response = await Api.postApi(`api/Group/TransferManagerToUser/${this.newManager}/${this.xferGroup.name}`, this.$route.fullPath);
                 if (!response.ok) {
-                    throw new Error(`CODE:${response.statusText}`);
+                    throw await fromResponse(response);
                 }
             }
             this.refreshGroups();
         } catch (error) {
             ErrorMsg.logError('group/manage.onXferGroup', error);
             this.errorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.activity = false;
@@ -281,21 +287,26 @@ export default class ManageGroupComponent extends Vue {
     }
 
     refreshGroups() {
+        // Group changes may change the current user's permissions.
+        this.$store.commit(Store.invalidatePermissions);
         this.$store.dispatch(Store.refreshGroups, this.$route.fullPath);
     }
 
     async suggestSearchGroup() {
         this.searchGroupTimeout = 0;
         if (this.searchGroup) {
+            let request = this.searchGroupRequest.next();
             try {
-                let response = await Api.getApi(`api/Share/GetShareableGroupCompletion/${this.searchGroup}`, this.$route.fullPath);
+                let response = await Api.getApi(`api/Share/GetShareableGroupCompletion/${this.searchGroup}`, this.$route.fullPath, undefined, { signal: request.signal });
                 if (!response.ok) {
-                    throw new Error(`CODE:${response.statusText}`);
-                } else {
+                    throw await fromResponse(response);
+                } else if (request.isCurrent()) {
                     this.searchGroupSuggestion = response.statusText;
                 }
             } catch (error) {
-                ErrorMsg.logError('group/manage.suggestSearchGroup', error);
+                if (request.isCurrent()) {
+                    ErrorMsg.logError('group/manage.suggestSearchGroup', error);
+                }
             }
         }
     }
@@ -303,15 +314,18 @@ export default class ManageGroupComponent extends Vue {
     async suggestSearchUsername() {
         this.searchUsernameTimeout = 0;
         if (this.searchUsername) {
+            let request = this.searchUsernameRequest.next();
             try {
-                let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.searchUsername}`, this.$route.fullPath);
+                let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.searchUsername}`, this.$route.fullPath, undefined, { signal: request.signal });
                 if (!response.ok) {
-                    throw new Error(`CODE:${response.statusText}`);
-                } else {
+                    throw await fromResponse(response);
+                } else if (request.isCurrent()) {
                     this.searchUsernameSuggestion = response.statusText;
                 }
             } catch (error) {
-                ErrorMsg.logError('group/manage.suggestSearchUsername', error);
+                if (request.isCurrent()) {
+                    ErrorMsg.logError('group/manage.suggestSearchUsername', error);
+                }
             }
             this.activity = false;
         }
@@ -0,0 +1,141 @@
+﻿import Vue from 'vue';
+import { Component } from 'vue-property-decorator';
+import * as Api from '../../api';
+import { ApiError } from '../../api-error';
+import * as Store from '../../store/store';
+import { MessageSearchResultViewModel, messaging } from '../../store/messaging';
+import { Group } from '../group/manage';
+import * as ErrorMsg from '../../error-msg';
+import * as moment from 'moment';
+
+/**
+ * A part of a search result's content, which either does or does not match the search.
+ */
+interface ContentPart {
+    match: boolean;
+    text: string;
+}
+
+@Component
+export default class MessageSearchComponent extends Vue {
+    errorMessage = '';
+    filtersShown = false;
+    from = '';
+    group = '';
+    query = '';
+    results: MessageSearchResultViewModel[] = null;
+    searching = false;
+    searchRequest = new Api.LatestRequest();
+    searchedQuery = '';
+    sender = '';
+    to = '';
+
+    get groupItems() {
+        let groups: Group[] = this.$store.state.userState.managedGroups.concat(this.$store.state.userState.joinedGroups);
+        return [{ text: 'All groups', value: '' }]
+            .concat(groups.map(g => ({ text: g.name, value: g.name })));
+    }
+
+    describeConversation(result: MessageSearchResultViewModel) {
+        if (result.group) {
+            return result.group;
+        } else if (result.interlocutor) {
+            return result.interlocutor;
+        }
+        return 'System Messages';
+    }
+
+    formatTimestamp(timestamp: string) {
+        return moment(timestamp).format('M/D LTS');
+    }
+
+    getContentParts(result: MessageSearchResultViewModel): ContentPart[] {
+        let content = result.content || '';
+        let query = this.searchedQuery.toLowerCase();
+        let lower = content.toLowerCase();
+        let parts: ContentPart[] = [];
+        let start = 0;
+        let index = lower.indexOf(query, start);
+        while (query && index !== -1) {
+            if (index > start) {
+                parts.push({ match: false, text: content.substring(start, index) });
+            }
+            parts.push({ match: true, text: content.substr(index, query.length) });
+            start = index + query.length;
+            index = lower.indexOf(query, start);
+        }
+        if (start < content.length) {
+            parts.push({ match: false, text: content.substring(start) });
+        }
+        return parts;
+    }
+
+    onClear() {
+        this.searchRequest.cancel();
+        this.errorMessage = '';
+        this.query = '';
+        this.results = null;
+        this.searching = false;
+    }
+
+    onQueryKeypress(event: KeyboardEvent) {
+        if (event.key === "Enter") {
+            this.onSearch();
+        }
+    }
+
+    async onSearch() {
+        this.errorMessage = '';
+        if (!this.query.trim()) {
+            this.results = null;
+            return;
+        }
+        let request = this.searchRequest.next();
+        this.searching = true;
+        let query = this.query.trim();
+        try {
+            let results = await messaging.searchMessages(this.$route.fullPath, {
+                query,
+                sender: this.sender,
+                group: this.group,
+                from: this.from ? moment(this.from).toDate() : undefined,
+                // The end date is included in the search.
+                to: this.to ? moment(this.to).add(1, 'day').toDate() : undefined
+            }, request.signal);
+            if (request.isCurrent()) {
+                this.searchedQuery = query;
+                this.results = results;
+                this.searching = false;
+            }
+        } catch (error) {
+            if (request.isCurrent()) {
+                this.searching = false;
+                if (error instanceof ApiError) {
+                    this.errorMessage = error.message;
+                } else {
+                    ErrorMsg.logError('message-search.onSearch', error);
+                }
+            }
+        }
+    }
+
+    async onShowResult(result: MessageSearchResultViewModel) {
+        if (result.group) {
+            this.$store.commit(Store.startChatWithGroup, result.group);
+        } else if (result.interlocutor) {
+            this.$store.commit(Store.startChatWithUser, result.interlocutor);
+        } else {
+            this.$store.commit(Store.startChatWithSystem);
+        }
+        // A reply is shown in its thread, beside the message which started it.
+        await this.$store.dispatch(Store.showMessageInContext, { returnPath: this.$route.fullPath, id: result.threadId || result.id });
+        if (result.threadId) {
+            let thread = this.$store.state.uiState.messaging.messages.find(m => m.id === result.threadId);
+            if (thread) {
+                this.$store.commit(Store.showThread, thread);
+                this.$store.commit(Store.setFocusedMessage, result.id);
+                await this.$store.dispatch(Store.refreshThread, this.$route.fullPath);
+            }
+        }
+    }
+}
\ No newline at end of file
@@ -2,8 +2,10 @@
 import VueRouter, { Route } from 'vue-router';
 import { Component, Prop, Watch } from 'vue-property-decorator';
 import * as Store from '../../store/store';
+import { mutationQueue } from '../../store/mutation-queue';
 import { authenticate, authMgr, logout } from '../../authorization';
 import * as moment from 'moment';
+import Oidc from 'oidc-client';
 
 @Component
 export default class TopbarComponent extends Vue {
@@ -15,16 +17,39 @@ export default class TopbarComponent extends Vue {
         return this.$store.state.uiState.messaging.conversations
             .map(c => c.unreadCount)
             .reduce((a, b) => { return a + b; }, 0)
+            + this.$store.state.uiState.messaging.mentions
+                .map(m => m.unreadCount)
+                .reduce((a, b) => { return a + b; }, 0)
             + this.$store.state.uiState.messaging.systemMessages
                 .filter(m => !m.received).length;
     }
 
+    get pendingChanges(): number {
+        return this.$store.state.uiState.pendingChanges;
+    }
+
+    get syncStatus() {
+        let changes = this.pendingChanges === 1 ? '1 change' : `${this.pendingChanges} changes`;
+        if (this.$store.state.uiState.offline) {
+            return this.pendingChanges
+                ? `offline: ${changes} will be saved when the connection returns`
+                : 'offline';
+        }
+        return `saving ${changes}`;
+    }
+
     mounted() {
         if (this.updateTimeout === 0) {
             this.updateTimeout = setTimeout(this.updateAuth, 500);
         }
     }
 
+    // The user may sign in or out in another tab.
+    @Watch('$store.state.userState.user')
+    onUserChange(val: Oidc.User) {
+        this.signedIn = !!val;
+    }
+
     @Watch('$route')
     onRouteChange(val: Route, oldVal: Route) {
         if (this.updateTimeout === 0) {
@@ -50,10 +75,16 @@ export default class TopbarComponent extends Vue {
         this.$router.push('/');
     }
 
+    onSync() {
+        mutationQueue.sync();
+    }
+
     onToggleChat() {
         if (!this.$store.state.uiState.messaging.messagingShown) {
             this.$store.dispatch(Store.refreshGroups, this.$route.fullPath);
             this.$store.dispatch(Store.refreshConversations, this.$route.fullPath);
+            this.$store.dispatch(Store.refreshMentions, this.$route.fullPath);
+            this.$store.dispatch(Store.refreshNotificationSettings, this.$route.fullPath);
             this.$store.dispatch(Store.refreshChat, this.$route.fullPath);
         }
         this.$store.commit(Store.toggleMessaging);
@@ -1,12 +1,15 @@
 ﻿import Vue from 'vue';
 import { Component, Prop, Watch } from 'vue-property-decorator';
 import * as Api from '../../api';
+import { ApiError } from '../../api-error';
 import * as Store from '../../store/store';
 import { authenticate } from '../../authorization';
 import { checkResponse } from '../../router';
 import { defaultCulture, setCulture } from '../../globalization/globalization';
 import VueFormGenerator from 'vue-form-generator';
 import { Schema, VFGOptions } from '../../vfg/vfg';
+import { messaging } from '../../store/messaging';
+import { getNotificationPermission, requestNotificationPermission } from '../../store/notifications';
 import * as VFG_Custom from '../../vfg/vfg-custom-validators';
 import * as ErrorMsg from '../../error-msg';
 
@@ -77,12 +80,15 @@ export default class ManageUserComponent extends Vue {
     changingUsername = false;
     cultures: string[] = ["<default>"];
     deleteAccountDialog = false;
+    doNotDisturbEnd = '';
+    doNotDisturbStart = '';
     errors: string[] = [];
     formOptions: VFGOptions = {
         validateAfterChanged: true
     };
     hasPassword = false;
     isValid = false;
+    notificationPermission = getNotificationPermission();
     model: ManageUserViewModel = {
         username: '',
         email: '',
@@ -216,6 +222,7 @@ export default class ManageUserComponent extends Vue {
         } catch (error) {
             ErrorMsg.logError("user/manage.mounted", error);
         }
+        this.loadNotificationSettings();
     }
 
     cancelChange() {
@@ -250,6 +257,22 @@ export default class ManageUserComponent extends Vue {
         this.schema.fields[0].visible = true;
     }
 
+    handleError(error: any, method: string) {
+        if (error instanceof ApiError) {
+            this.errors.push(error.message);
+        } else {
+            this.errors.push("A problem occurred.");
+            ErrorMsg.logError(`user/manage.${method}`, error);
+        }
+    }
+
+    async loadNotificationSettings() {
+        await this.$store.dispatch(Store.refreshNotificationSettings, this.$route.fullPath);
+        let settings = this.$store.state.userState.notificationSettings;
+        this.doNotDisturbStart = settings.doNotDisturbStart || '';
+        this.doNotDisturbEnd = settings.doNotDisturbEnd || '';
+    }
+
     async loadXferUsernames() {
         this.xferLoading = true;
         try {
@@ -265,6 +288,12 @@ export default class ManageUserComponent extends Vue {
         this.xferLoading = false;
     }
 
+    async onClearDoNotDisturb() {
+        this.doNotDisturbStart = '';
+        this.doNotDisturbEnd = '';
+        await this.onSetDoNotDisturb();
+    }
+
     async onCultureChange(value: string) {
         this.submitting = true;
         this.success = false;
@@ -288,6 +317,7 @@ export default class ManageUserComponent extends Vue {
                 throw new Error("CODE");
             }
             await setCulture(value);
+            this.$store.commit(Store.setCulture, value);
             this.successMessage = "Your preferred culture has been updated.";
             this.success = true;
         } catch (error) {
@@ -329,6 +359,25 @@ export default class ManageUserComponent extends Vue {
         this.submitting = false;
     }
 
+    async onEnableNotifications() {
+        this.notificationPermission = await requestNotificationPermission();
+    }
+
+    async onSetDoNotDisturb() {
+        this.success = false;
+        this.errors = [];
+        try {
+            await messaging.setDoNotDisturb(this.$route.fullPath, this.doNotDisturbStart, this.doNotDisturbEnd);
+            await this.loadNotificationSettings();
+            this.successMessage = this.doNotDisturbStart
+                ? "Your do-not-disturb period has been updated."
+                : "Your do-not-disturb period has been cleared.";
+            this.success = true;
+        } catch (error) {
+            this.handleError(error, 'onSetDoNotDisturb');
+        }
+    }
+
     async onSignInProviderAdd(provider: string) {
         this.submitting = true;
         this.success = false;
@@ -420,6 +469,17 @@ export default class ManageUserComponent extends Vue {
         this.submitting = false;
     }
 
+    async onUnmute(username: string, group?: string) {
+        this.success = false;
+        this.errors = [];
+        try {
+            await messaging.setChatMuted(this.$route.fullPath, false, username, group);
+            await this.$store.dispatch(Store.refreshNotificationSettings, this.$route.fullPath);
+        } catch (error) {
+            this.handleError(error, 'onUnmute');
+        }
+    }
+
     onValidated(isValid: boolean, errors: Array<any>) {
         this.isValid = isValid;
     }
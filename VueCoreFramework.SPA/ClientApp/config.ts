@@ -0,0 +1,183 @@
+﻿import { urls } from './api';
+import * as Store from './store/store';
+
+/**
+ * The settings which the SPA needs in order to connect to the other hosts. These are provided at
+ * startup, either rendered into the page by the SPA host, or in a config.json document served
+ * alongside the SPA.
+ */
+export interface ClientConfig {
+    /**
+     * The base URL of the API host.
+     */
+    apiUrl: string;
+
+    /**
+     * The version of the API requested by the client.
+     */
+    apiVersion: string;
+
+    /**
+     * The base URL of the authentication host.
+     */
+    authUrl: string;
+
+    /**
+     * The client id with which the SPA identifies itself to the authentication host.
+     */
+    clientId: string;
+
+    /**
+     * The space-separated list of scopes requested from the authentication host.
+     */
+    scopes: string;
+
+    /**
+     * The base URL of the SPA itself.
+     */
+    spaUrl: string;
+}
+
+/**
+ * Indicates that the client configuration could not be loaded, or was invalid.
+ */
+export class ConfigError extends Error {
+    /**
+     * Descriptions of each of the problems found, suitable for display.
+     */
+    problems: string[];
+
+    /**
+     * Initializes a new instance of ConfigError.
+     * @param {string[]} problems Descriptions of each of the problems found.
+     */
+    constructor(problems: string[]) {
+        super(`The client configuration is invalid. ${problems.join(' ')}`);
+        // Restore the prototype chain, which is lost when extending Error with an ES5 target.
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.problems = problems;
+    }
+}
+
+/**
+ * The client configuration currently in use.
+ */
+export const clientConfig: ClientConfig = {
+    apiUrl: '',
+    apiVersion: '',
+    authUrl: '',
+    clientId: '',
+    scopes: '',
+    spaUrl: ''
+};
+
+const configElementId = 'client-config';
+const configDocumentUrl = '/config.json';
+
+function validateUrl(config: any, property: string, problems: string[]) {
+    let value = config[property];
+    if (!value || typeof value !== 'string') {
+        problems.push(`The setting '${property}' is missing.`);
+    } else if (!/^https?:\/\/[^\/]+/i.test(value)) {
+        problems.push(`The setting '${property}' must be an absolute http or https URL, but was '${value}'.`);
+    }
+}
+
+/**
+ * Checks a client configuration for missing or malformed settings.
+ * @param config The configuration to check.
+ * @returns {string[]} Descriptions of each of the problems found, or an empty array if the
+ * configuration is valid.
+ */
+export function validateConfig(config: any): string[] {
+    let problems: string[] = [];
+    if (!config || typeof config !== 'object') {
+        problems.push('The client configuration is empty.');
+        return problems;
+    }
+    validateUrl(config, 'apiUrl', problems);
+    validateUrl(config, 'authUrl', problems);
+    validateUrl(config, 'spaUrl', problems);
+    if (!config.apiVersion || typeof config.apiVersion !== 'string') {
+        problems.push("The setting 'apiVersion' is missing.");
+    } else if (!/^\d+(\.\d+)*$/.test(config.apiVersion)) {
+        problems.push(`The setting 'apiVersion' must be a version number such as '1.0', but was '${config.apiVersion}'.`);
+    }
+    if (!config.clientId || typeof config.clientId !== 'string') {
+        problems.push("The setting 'clientId' is missing.");
+    }
+    if (!config.scopes || typeof config.scopes !== 'string') {
+        problems.push("The setting 'scopes' is missing.");
+    } else if (config.scopes.trim().split(/\s+/).indexOf('openid') === -1) {
+        problems.push("The setting 'scopes' must include 'openid'.");
+    }
+    return problems;
+}
+
+async function readConfig(): Promise<any> {
+    // The SPA host renders the configuration into the page.
+    let element = document.getElementById(configElementId);
+    let rendered = element ? element.getAttribute('data-client-config') : null;
+    if (rendered) {
+        try {
+            return JSON.parse(rendered);
+        } catch (error) {
+            throw new ConfigError(['The configuration rendered into the page is not valid JSON.']);
+        }
+    }
+
+    // Otherwise (e.g. when the SPA is served as static files), look for a config document.
+    let response: Response;
+    try {
+        response = await fetch(configDocumentUrl, { credentials: 'same-origin' });
+    } catch (error) {
+        throw new ConfigError([`The configuration document ${configDocumentUrl} could not be retrieved.`]);
+    }
+    if (!response.ok) {
+        throw new ConfigError([`The configuration document ${configDocumentUrl} could not be retrieved (${response.status} ${response.statusText}).`]);
+    }
+    try {
+        return await response.json();
+    } catch (error) {
+        throw new ConfigError([`The configuration document ${configDocumentUrl} is not valid JSON.`]);
+    }
+}
+
+function withTrailingSlash(url: string): string {
+    return url.endsWith('/') ? url : url + '/';
+}
+
+/**
+ * Loads and validates the client configuration.
+ * @returns {ClientConfig} The client configuration.
+ * @throws {ConfigError} The configuration could not be found, or was invalid.
+ */
+export async function loadConfig(): Promise<ClientConfig> {
+    let config = await readConfig();
+    let problems = validateConfig(config);
+    if (problems.length) {
+        throw new ConfigError(problems);
+    }
+    return {
+        apiUrl: withTrailingSlash(config.apiUrl),
+        apiVersion: config.apiVersion,
+        authUrl: withTrailingSlash(config.authUrl),
+        clientId: config.clientId,
+        scopes: config.scopes.trim(),
+        spaUrl: withTrailingSlash(config.spaUrl)
+    };
+}
+
+/**
+ * Puts a client configuration into use. Must be called before any calls to the other hosts are
+ * made, and before OIDC is configured.
+ * @param {ClientConfig} config The client configuration.
+ */
+export function applyConfig(config: ClientConfig) {
+    Object.assign(clientConfig, config);
+    urls.apiUrl = config.apiUrl;
+    urls.authUrl = config.authUrl;
+    urls.spaUrl = config.spaUrl;
+    Store.store.commit(Store.setApiVersion, config.apiVersion);
+}
@@ -2,12 +2,53 @@
 import VueRouter, { Route } from 'vue-router';
 import { Component, Prop, Watch } from 'vue-property-decorator';
 import * as Api from '../../api';
+import { ApiError, ConflictError, fromResponse, ValidationError } from '../../api-error';
 import * as ErrorMsg from '../../error-msg';
 import { FieldDefinition, Schema, VFGOptions } from '../../vfg/vfg';
 import VueFormGenerator from 'vue-form-generator';
 import { DataItem, Repository } from '../../store/repository';
+import * as Store from '../../store/store';
 import { permissionIncludesTarget, permissions, ShareData } from '../../store/userStore';
 
+/**
+ * Describes a field which was changed both by the user and by someone else.
+ */
+interface FieldConflict {
+    /**
+     * The name of the model property.
+     */
+    field: string;
+
+    /**
+     * The label of the field.
+     */
+    label: string;
+
+    /**
+     * The user's value.
+     */
+    mine: any;
+
+    /**
+     * The value when the user began editing.
+     */
+    original: any;
+
+    /**
+     * Which of the values will be kept.
+     */
+    resolution: 'mine' | 'theirs' | 'original';
+
+    /**
+     * The stored value, as changed by someone else.
+     */
+    theirs: any;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
 @Component
 export default class DynamicFormComponent extends Vue {
     @Prop()
@@ -39,7 +80,11 @@ export default class DynamicFormComponent extends Vue {
     canShare = false;
     canShareAll = false;
     canShareGroup = false;
+    conflictDialogShown = false;
+    conflicts: FieldConflict[] = [];
     errorMessage = '';
+    fieldErrors: { [field: string]: string[] } = {};
+    formRequest = new Api.LatestRequest();
     formOptions: VFGOptions = {
         validateAfterLoad: true,
         validateAfterChanged: true
@@ -47,6 +92,7 @@ export default class DynamicFormComponent extends Vue {
     groupMembers: string[] = [];
     isValid = false;
     model: any = {};
+    original: DataItem = null;
     parentRepository: Repository = null;
     permissionOptions = [];
     repository: Repository = null;
@@ -59,9 +105,11 @@ export default class DynamicFormComponent extends Vue {
     shareErrorMessage = '';
     shareGroups: string[] = [];
     shareGroup = '';
+    shareGroupRequest = new Api.LatestRequest();
     shareGroupSuggestion = '';
     shareGroupTimeout = 0;
     shareSuccessMessage = '';
+    shareUsernameRequest = new Api.LatestRequest();
     shareUsernameSuggestion = '';
     shareUsernameTimeout = 0;
     shares: ShareData[] = [];
@@ -78,6 +126,14 @@ export default class DynamicFormComponent extends Vue {
         }
     }
 
+    @Watch('$store.state.dataVersion')
+    onDataVersionChange() {
+        // Show changes to the cached item, unless the user may be editing it.
+        if (this.operation === 'view' && this.updateTimeout === 0) {
+            this.updateTimeout = setTimeout(this.updateForm, 125);
+        }
+    }
+
     @Watch('shareDialog')
     onShareDialogChange(val: boolean, oldVal: boolean) {
         if (val) {
@@ -92,6 +148,12 @@ export default class DynamicFormComponent extends Vue {
         }
     }
 
+    destroyed() {
+        this.formRequest.cancel();
+        this.shareGroupRequest.cancel();
+        this.shareUsernameRequest.cancel();
+    }
+
     onValidated(isValid: boolean, errors: Array<any>) {
         if (errors.find(e => e.error && e.error === "navigation success")) {
             this.updateForm();
@@ -125,11 +187,6 @@ export default class DynamicFormComponent extends Vue {
                 this.activity = false;
                 this.$router.go(-1);
             } catch (error) {
-                ErrorMsg.logError("dynamic-form.onCancel", error);
-                this.errorMessage = "A problem occurred. The item could not be removed. ";
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    this.errorMessage += error.message.replace('CODE:', '');
-                }
                 this.activity = false;
             }
         } else {
@@ -157,8 +214,9 @@ export default class DynamicFormComponent extends Vue {
         try {
             let response = await Api.postApi(`api/Share/${action}/${this.$route.name}?operation=${share.level}&id=${this.id}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
+                this.$store.commit(Store.invalidatePermissions, { dataType: this.$route.name, id: this.id });
                 this.updateShares();
                 this.shareSuccessMessage = 'Success';
             }
@@ -166,15 +224,82 @@ export default class DynamicFormComponent extends Vue {
         } catch (error) {
             ErrorMsg.logError('dynamic-form.onHide', error);
             this.shareErrorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
     }
 
+    formatConflictValue(value: any): string {
+        if (value === undefined || value === null) {
+            return '[None]';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    getFieldLabel(model: string) {
+        let field = this.vmDefinition && this.vmDefinition.find(f => f.model === model);
+        return field ? field.label || field.placeholder || model : model;
+    }
+
+    /**
+     * Merges changes made by someone else into the form, after a save is rejected because the
+     * item was changed since the form was loaded. Fields changed only by someone else take their
+     * value; the user chooses which value to keep for fields changed by both.
+     * @param {DataItem} theirs The stored item.
+     */
+    mergeConflict(theirs: DataItem) {
+        this.conflicts = [];
+        let model = Object.assign({}, this.model);
+        this.vmDefinition.forEach(field => {
+            let mine = model[field.model];
+            let original = this.original[field.model];
+            let stored = theirs[field.model];
+            if (valuesEqual(stored, original) || valuesEqual(stored, mine)) {
+                return;
+            }
+            if (valuesEqual(mine, original)) {
+                model[field.model] = stored;
+                if (`${field.model}Formatted` in theirs) {
+                    model[`${field.model}Formatted`] = theirs[`${field.model}Formatted`];
+                }
+            } else {
+                this.conflicts.push({
+                    field: field.model,
+                    label: this.getFieldLabel(field.model),
+                    mine,
+                    original,
+                    resolution: 'mine',
+                    theirs: stored
+                });
+            }
+        });
+        // Later saves are based on the stored version.
+        this.original = Object.assign({}, theirs);
+        model.versionToken = theirs.versionToken;
+        // Replacing the model makes the merged values visible in the form.
+        this.model = model;
+        if (this.conflicts.length) {
+            this.conflictDialogShown = true;
+        } else {
+            this.errorMessage = "This item was changed by someone else while you were editing it. Their changes have been added to the form. Please review them before saving again.";
+        }
+    }
+
+    onResolveConflicts() {
+        let model = Object.assign({}, this.model);
+        this.conflicts.forEach(c => {
+            model[c.field] = c[c.resolution];
+        });
+        this.model = model;
+        this.conflictDialogShown = false;
+        this.onSave();
+    }
+
     async onSave() {
         this.activity = true;
         this.errorMessage = '';
+        this.fieldErrors = {};
         let d = Object.assign({}, this.model);
         d[this.model.primaryKeyProperty] = this.id;
         // Remove unsupported or null properties from the ViewModel before sending for update,
@@ -190,10 +315,11 @@ export default class DynamicFormComponent extends Vue {
             await this.repository.update(this.$route.fullPath, d);
             this.$router.go(-1);
         } catch (error) {
-            ErrorMsg.logError("dynamic-form.onSave", error);
-            this.errorMessage = "A problem occurred. The item could not be updated.";
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            // Problems with individual fields are shown beside them.
+            if (error instanceof ConflictError && error.payload && error.payload.item) {
+                this.mergeConflict(error.payload.item);
+            } else if (error instanceof ValidationError && Object.keys(error.fieldErrors).length) {
+                this.fieldErrors = error.fieldErrors;
             }
         }
         this.activity = false;
@@ -245,16 +371,17 @@ export default class DynamicFormComponent extends Vue {
         try {
             let response = await Api.postApi(url, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             } else {
+                this.$store.commit(Store.invalidatePermissions, { dataType: this.$route.name, id: this.id });
                 this.updateShares();
                 this.shareSuccessMessage = 'Success';
             }
         } catch (error) {
             ErrorMsg.logError('dynamic-form.share', error);
             this.shareErrorMessage = 'A problem occurred.';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
         }
         this.shareActivity = false;
@@ -263,15 +390,18 @@ export default class DynamicFormComponent extends Vue {
     async suggestShareGroup() {
         this.shareGroupTimeout = 0;
         if (this.shareGroup) {
+            let request = this.shareGroupRequest.next();
             try {
-                let response = await Api.getApi(`api/Share/GetShareableGroupCompletion/${this.shareGroup}`, this.$route.fullPath);
+                let response = await Api.getApi(`api/Share/GetShareableGroupCompletion/${this.shareGroup}`, this.$route.fullPath, undefined, { signal: request.signal });
                 if (!response.ok) {
-                    throw new Error(`CODE:${response.statusText}`);
-                } else {
+                    throw await fromResponse(response);
+                } else if (request.isCurrent()) {
                     this.shareGroupSuggestion = response.statusText;
                 }
             } catch (error) {
-                ErrorMsg.logError('dynamic-form.suggestShareGroup', error);
+                if (request.isCurrent()) {
+                    ErrorMsg.logError('dynamic-form.suggestShareGroup', error);
+                }
             }
         }
     }
@@ -279,15 +409,18 @@ export default class DynamicFormComponent extends Vue {
     async suggestShareUsername() {
         this.shareUsernameTimeout = 0;
         if (this.shareUsername) {
+            let request = this.shareUsernameRequest.next();
             try {
-                let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.shareUsername}`, this.$route.fullPath);
+                let response = await Api.getApi(`api/Share/GetShareableUsernameCompletion/${this.shareUsername}`, this.$route.fullPath, undefined, { signal: request.signal });
                 if (!response.ok) {
-                    throw new Error(`CODE:${response.statusText}`);
-                } else {
+                    throw await fromResponse(response);
+                } else if (request.isCurrent()) {
                     this.shareUsernameSuggestion = response.statusText;
                 }
             } catch (error) {
-                ErrorMsg.logError('dynamic-form.suggestShareUsername', error);
+                if (request.isCurrent()) {
+                    ErrorMsg.logError('dynamic-form.suggestShareUsername', error);
+                }
             }
         }
     }
@@ -296,7 +429,9 @@ export default class DynamicFormComponent extends Vue {
         this.activity = true;
         this.updateTimeout = 0;
         this.errorMessage = '';
+        this.fieldErrors = {};
 
+        await this.$store.dispatch(Store.loadPermissions, { dataType: this.$route.name, ids: this.id ? [this.id] : [] });
         this.canShare = this.$store.getters.getSharePermission(this.$route.name, this.id);
         this.canShareAll = this.$store.state.userState.isAdmin;
         this.canShareGroup = this.$store.state.userState.isAdmin || this.$store.state.userState.managedGroups.length > 0;
@@ -314,11 +449,17 @@ export default class DynamicFormComponent extends Vue {
                 break;
         }
 
+        let request = this.formRequest.next();
         try {
-            let data = await this.repository.find(this.$route.fullPath, this.id);
+            let data = await this.repository.find(this.$route.fullPath, this.id, request.signal);
+            let vmDefinition = await this.repository.getFieldDefinitions(this.$route.fullPath, request.signal);
+            // The form has since been reloaded for another item or operation; discard this one.
+            if (!request.isCurrent()) {
+                return;
+            }
             this.model = { dataType: this.$route.name };
             this.schema = { fields: [] };
-            this.vmDefinition = await this.repository.getFieldDefinitions(this.$route.fullPath);
+            this.vmDefinition = vmDefinition;
             let groups = this.vmDefinition.filter(v => v.groupName !== undefined && v.groupName !== null).map(v => v.groupName);
             if (groups.length) {
                 this.schema.groups = [];
@@ -335,6 +476,8 @@ export default class DynamicFormComponent extends Vue {
             for (var prop in data) {
                 this.model[prop] = data[prop];
             }
+            // Kept in order to merge changes made by someone else while the form is being edited.
+            this.original = Object.assign({}, data);
             this.vmDefinition.forEach(field => {
                 this.addFieldToSchema(field);
             });
@@ -343,10 +486,13 @@ export default class DynamicFormComponent extends Vue {
             }
             this.activity = false;
         } catch (error) {
+            if (!request.isCurrent()) {
+                return;
+            }
             ErrorMsg.logError("dynamic-form.updateForm", error);
             this.errorMessage = "A problem occurred while updating the data. ";
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                this.errorMessage += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                this.errorMessage += error.message;
             }
             this.activity = false;
         }
@@ -356,7 +502,7 @@ export default class DynamicFormComponent extends Vue {
         try {
             let response = await Api.getApi(`api/Share/GetCurrentShares/${this.$route.name}?id=${this.id}`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             }
             let data = await response.json() as ShareData[];
             this.shares = [];
@@ -366,12 +512,12 @@ export default class DynamicFormComponent extends Vue {
             }
             response = await Api.getApi(`api/Share/GetShareableGroupMembers`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             }
             this.groupMembers = await response.json() as string[];
             response = await Api.getApi(`api/Share/GetShareableGroupSubset`, this.$route.fullPath);
             if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
+                throw await fromResponse(response);
             }
             this.shareGroups = await response.json() as string[];
         } catch (error) {
@@ -1,5 +1,4 @@
 ﻿import { abstractField } from 'vue-form-generator';
-import * as ErrorMsg from '../../error-msg';
 
 export default {
     mixins: [abstractField],
@@ -24,35 +23,28 @@ export default {
                     this.schema.model,
                     this.selected.map(c => c[c.primaryKeyProperty]));
                 this.selected.splice(0);
+                this.activity = false;
                 this.refresh();
             } catch (error) {
-                ErrorMsg.logError("fieldCollection.onAddSelect", error);
-                this.editErrorMessage = "A problem occurred. The item could not be removed.";
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    this.editErrorMessage += error.message.replace('CODE:', '');
-                }
+                this.activity = false;
             }
-            this.activity = false;
         },
 
         async onRemoveSelect() {
-            this.activity = true;
             this.editErrorMessage = '';
+            let childIds = this.selectedChildren.map(c => c[c.primaryKeyProperty]);
+            // The children are hidden from the table as soon as the removal is queued.
+            this.selectedChildren.splice(0);
             try {
                 await this.repository.removeChildrenFromCollection(this.$route.fullPath,
                     this.model[this.model.primaryKeyProperty],
                     this.schema.model,
-                    this.selectedChildren.map(c => c[c.primaryKeyProperty]));
-                this.selectedChildren.splice(0);
+                    childIds);
                 this.refresh();
             } catch (error) {
-                ErrorMsg.logError("fieldCollection.onRemoveSelect", error);
-                this.editErrorMessage = "A problem occurred. The item could not be removed.";
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    this.editErrorMessage += error.message.replace('CODE:', '');
-                }
+                // The children are shown again in the table.
+                this.refresh();
             }
-            this.activity = false;
         },
 
         onEditError(error: string) {
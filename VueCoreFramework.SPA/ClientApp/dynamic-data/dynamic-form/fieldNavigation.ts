@@ -1,4 +1,5 @@
 ﻿import { abstractField } from 'vue-form-generator';
+import { ApiError } from '../../api-error';
 import { DataItem, Repository } from '../../store/repository';
 import * as ErrorMsg from '../../error-msg';
 
@@ -31,12 +32,6 @@ export default {
                 this.activity = false;
                 this.$emit("validated", this.errors.length === 0, this.errors, this);
             } catch (error) {
-                ErrorMsg.logError("fieldNavigation.onDelete", error);
-                let msg = 'A problem occurred. The item could not be removed. ';
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    msg += error.message.replace('CODE:', '');
-                }
-                this.errors.push(msg);
                 this.activity = false;
                 this.$emit("validated", this.errors.length === 0, this.errors, this);
             }
@@ -49,14 +44,11 @@ export default {
                 try {
                     let data = await this.childRepository.add(this.$route.fullPath, this.schema.inverseType, this.model[this.model.primaryKeyProperty]);
                     this.activity = false;
-                    this.$router.push({ name: this.schema.inputType, params: { operation: 'add', id: data[data.primaryKeyProperty] } });
-                } catch (error) {
-                    ErrorMsg.logError("fieldNavigation.onNew", error);
-                    let msg = 'A problem occurred. The new item could not be added. ';
-                    if (error && error.message && error.message.startsWith("CODE:")) {
-                        msg += error.message.replace('CODE:', '');
+                    // While offline, the item is added once the connection returns, and can't be edited yet.
+                    if (data) {
+                        this.$router.push({ name: this.schema.inputType, params: { operation: 'add', id: data[data.primaryKeyProperty] } });
                     }
-                    this.errors.push(msg);
+                } catch (error) {
                     this.activity = false;
                     this.$emit("validated", this.errors.length === 0, this.errors, this);
                 }
@@ -75,8 +67,8 @@ export default {
             } catch (error) {
                 ErrorMsg.logError("fieldNavigation.onReplace", error);
                 let msg = 'A problem occurred. The item could not be added. ';
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    msg += error.message.replace('CODE:', '');
+                if (error instanceof ApiError) {
+                    msg += error.message;
                 }
                 this.errors.push(msg);
                 this.activity = false;
@@ -103,11 +95,6 @@ export default {
                     this.selectDialogShown = false;
                     this.selectActivity = false;
                 } catch (error) {
-                    ErrorMsg.logError("fieldNavigation.onSelect", error);
-                    this.selectErrorMessage = "A problem occurred. The item could not be updated. ";
-                    if (error && error.message && error.message.startsWith("CODE:")) {
-                        this.selectErrorMessage += error.message.replace('CODE:', '');
-                    }
                     this.selectActivity = false;
                 }
             } else {
@@ -130,8 +117,8 @@ export default {
             } catch (error) {
                 ErrorMsg.logError("fieldNavigation.onView", error);
                 let msg = 'A problem occurred. The item could not be accessed. ';
-                if (error && error.message && error.message.startsWith("CODE:")) {
-                    msg += error.message.replace('CODE:', '');
+                if (error instanceof ApiError) {
+                    msg += error.message;
                 }
                 this.errors.push(msg);
                 this.activity = false;
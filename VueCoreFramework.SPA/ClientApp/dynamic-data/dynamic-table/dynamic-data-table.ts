@@ -1,8 +1,12 @@
 ﻿import Vue from 'vue';
 import VueRouter, { Route } from 'vue-router';
 import { Component, Prop, Watch } from 'vue-property-decorator';
+import { LatestRequest, RequestToken } from '../../api';
+import { ApiError } from '../../api-error';
 import * as ErrorMsg from '../../error-msg';
+import { QueryBuilder } from '../../store/query';
 import { DataItem, PageData, Repository } from '../../store/repository';
+import * as Store from '../../store/store';
 import { permissionIncludesTarget, permissions } from '../../store/userStore';
 
 /**
@@ -80,6 +84,13 @@ export default class DynamicDataTable extends Vue {
     @Prop()
     parentType: string;
 
+    /**
+     * An optional structured query which filters the table's items, and sorts them after the
+     * selected column.
+     */
+    @Prop()
+    query: QueryBuilder;
+
     @Prop()
     search: string;
 
@@ -88,9 +99,9 @@ export default class DynamicDataTable extends Vue {
 
     canAdd = false;
     canDelete = false;
+    dataRequest = new LatestRequest();
     deleteDialogShown = false;
     deleteAskingItems = [];
-    deletePendingItems = [];
     deletePermissions: any = {};
     headers: Array<TableHeader> = [];
     items: Array<DataItem> = [];
@@ -100,6 +111,7 @@ export default class DynamicDataTable extends Vue {
     pagination: Pagination;
     paginationInitialization = 0;
     parentRepository: Repository = null;
+    removedItems: string[] = [];
     repository: Repository = null;
     routePagination: Pagination = null;
     searchDebounce = 0;
@@ -107,6 +119,11 @@ export default class DynamicDataTable extends Vue {
     totalItems = 0;
     updateTimeout = 0;
 
+    @Watch('$store.state.dataVersion')
+    onDataVersionChange() {
+        this.refresh();
+    }
+
     @Watch('dataType')
     onDataTypeChange(val: string) {
         if (val) {
@@ -154,6 +171,11 @@ export default class DynamicDataTable extends Vue {
         }
     }
 
+    @Watch('query', { deep: true })
+    onQueryChange() {
+        this.refresh();
+    }
+
     @Watch('selected')
     onSelectedChanged(val: Array<DataItem>) {
         this.$emit('update:selected', val);
@@ -197,6 +219,10 @@ export default class DynamicDataTable extends Vue {
         this.refresh();
     }
 
+    destroyed() {
+        this.dataRequest.cancel();
+    }
+
     cancelDelete(id: string) {
         let index = this.deleteAskingItems.indexOf(id);
         if (index !== -1) {
@@ -216,28 +242,37 @@ export default class DynamicDataTable extends Vue {
         return v;
     }
 
-    async getData(): Promise<PageData<DataItem>> {
+    /**
+     * Retrieves the current page of data. Any earlier call which is still loading is cancelled.
+     * @param {RequestToken} request The token of this call, if the caller has already begun it.
+     * @returns {PageData<DataItem>} The page of data, or null if this call was superseded by a newer one.
+     */
+    async getData(request: RequestToken = this.dataRequest.next()): Promise<PageData<DataItem>> {
         this.loading = true;
         const { sortBy, descending, page, rowsPerPage } = this.internalPagination;
         try {
             let data: PageData<DataItem>;
             if (this.parentRepository) {
                 if (this.tableType === "multiselect") {
-                    let childIds = await this.parentRepository.getAllChildIds(this.$route.fullPath, this.parentId, this.parentProp);
-                    data = await this.repository.getPage(this.$route.fullPath, this.internalSearch, sortBy, descending, page, rowsPerPage, childIds);
+                    let childIds = await this.parentRepository.getAllChildIds(this.$route.fullPath, this.parentId, this.parentProp, request.signal);
+                    data = await this.repository.getPage(this.$route.fullPath, this.internalSearch, sortBy, descending, page, rowsPerPage, childIds, this.query, undefined, request.signal);
                 } else {
-                    data = await this.parentRepository.getChildPage(this.$route.fullPath, this.parentId, this.parentProp, this.internalSearch, sortBy, descending, page, rowsPerPage);
+                    data = await this.parentRepository.getChildPage(this.$route.fullPath, this.parentId, this.parentProp, this.internalSearch, sortBy, descending, page, rowsPerPage, this.query, undefined, request.signal);
                 }
             } else {
-                data = await this.repository.getPage(this.$route.fullPath, this.internalSearch, sortBy, descending, page, rowsPerPage);
+                data = await this.repository.getPage(this.$route.fullPath, this.internalSearch, sortBy, descending, page, rowsPerPage, undefined, this.query, undefined, request.signal);
+            }
+            // A newer call is responsible for the table now; this result is stale.
+            if (!request.isCurrent()) {
+                return null;
             }
             this.loading = false;
             return data;
         } catch (error) {
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                error.message = error.message.replace('CODE:', '');
+            if (!request.isCurrent()) {
+                return null;
             }
-            ErrorMsg.logError("dynamic-data-table.getData", new Error(error));
+            ErrorMsg.logError("dynamic-data-table.getData", error);
             this.loading = false;
             throw error;
         }
@@ -276,56 +311,48 @@ export default class DynamicDataTable extends Vue {
         }
     }
 
+    /**
+     * Removes items from the table immediately, while their removal is sent to the API. They stay
+     * hidden, even if a cached page which still includes them is displayed in the meantime.
+     * @param {string[]} ids The primary keys of the items.
+     */
+    hideItems(ids: string[]) {
+        for (var i = 0; i < ids.length; i++) {
+            this.removedItems.push(ids[i]);
+            let index = this.items.findIndex(d => d[d.primaryKeyProperty] == ids[i]);
+            if (index !== -1) {
+                this.items.splice(index, 1);
+                this.totalItems--;
+            }
+        }
+    }
+
     async onDelete() {
-        this.loading = true;
+        let ids: string[] = this.selected.map(i => i[i.primaryKeyProperty]);
+        this.selected = [];
+        this.hideItems(ids);
         try {
             if (this.tableType === 'collection') {
-                await this.repository.removeRangeFromParent(this.$route.fullPath, this.childProp, this.selected.map(i => i[i.primaryKeyProperty]));
+                await this.repository.removeRangeFromParent(this.$route.fullPath, this.childProp, ids);
             } else {
-                await this.repository.removeRange(this.$route.fullPath, this.selected.map(i => i[i.primaryKeyProperty]));
+                await this.repository.removeRange(this.$route.fullPath, ids);
             }
-            for (var i = 0; i < this.selected.length; i++) {
-                this.items.splice(this.items.findIndex(d =>
-                    d[d.primaryKeyProperty] == this.selected[i][this.selected[i].primaryKeyProperty]),
-                    1);
-            }
-            this.selected = [];
-            this.loading = false;
         } catch (error) {
-            ErrorMsg.logError("dynamic-data-table.onDelete", error);
-            let msg = 'A problem occurred. The item(s) could not be removed. ';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                msg += error.message.replace('CODE:', '');
-            }
-            this.loading = false;
-            this.$emit("onError", msg);
+            this.restoreItems(ids);
         }
     }
 
     async onDeleteItem(id: string) {
-        this.loading = true;
-        this.deletePendingItems.push(id);
         this.cancelDelete(id); // removes from asking
+        this.hideItems([id]);
         try {
             if (this.tableType === 'collection') {
                 await this.repository.removeFromParent(this.$route.fullPath, id, this.childProp);
             } else {
                 await this.repository.remove(this.$route.fullPath, id);
             }
-            this.items.splice(this.items.findIndex(d => d[d.primaryKeyProperty] == id), 1);
-            let index = this.deletePendingItems.indexOf(id);
-            if (index !== -1) {
-                this.deletePendingItems.splice(index, 1);
-            }
-            this.loading = false;
         } catch (error) {
-            ErrorMsg.logError("dynamic-data-table.onDeleteItem", error);
-            let msg = 'A problem occurred. The item could not be removed. ';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                msg += error.message.replace('CODE:', '');
-            }
-            this.loading = false;
-            this.$emit("onError", msg);
+            this.restoreItems([id]);
         }
     }
 
@@ -338,8 +365,8 @@ export default class DynamicDataTable extends Vue {
         } catch (error) {
             ErrorMsg.logError("dynamic-data-table.onDuplicate", error);
             let msg = 'A problem occurred. The new item could not be copied. ';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                msg += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                msg += error.message;
             }
             this.loading = false;
             this.$emit("onError", msg);
@@ -354,15 +381,12 @@ export default class DynamicDataTable extends Vue {
                 this.tableType === 'collection' ? this.childProp : undefined,
                 this.tableType === 'collection' ? this.parentId : undefined);
             this.loading = false;
-            this.$router.push({ name: this.dataType, params: { operation: 'add', id: data[data.primaryKeyProperty] } });
-        } catch (error) {
-            ErrorMsg.logError("dynamic-data-table.onNew", error);
-            let msg = 'A problem occurred. The new item could not be added. ';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                msg += error.message.replace('CODE:', '');
+            // While offline, the item is added once the connection returns, and can't be edited yet.
+            if (data) {
+                this.$router.push({ name: this.dataType, params: { operation: 'add', id: data[data.primaryKeyProperty] } });
             }
+        } catch (error) {
             this.loading = false;
-            this.$emit("onError", msg);
         }
     }
 
@@ -382,32 +406,58 @@ export default class DynamicDataTable extends Vue {
         }
     }
 
+    /**
+     * Returns items hidden by hideItems to the table, after their removal fails.
+     * @param {string[]} ids The primary keys of the items.
+     */
+    restoreItems(ids: string[]) {
+        this.removedItems = this.removedItems.filter(id => ids.indexOf(id) === -1);
+        this.refresh();
+    }
+
     async updateData() {
         if (this.repository && (this.tableType !== 'child' || this.parentRepository)) {
             try {
-                let data = await this.getData();
-                this.items = data.pageItems;
-                this.totalItems = data.totalItems;
+                let request = this.dataRequest.next();
+                let data = await this.getData(request);
+                if (!data) {
+                    return;
+                }
+                let items = data.pageItems.filter(i => this.removedItems.indexOf(i[i.primaryKeyProperty]) === -1);
 
-                this.deletePermissions = {};
+                let deletePermissions = {};
                 if (this.allowEdit) {
                     let deleteAny = this.$store.state.userState.isAdmin; // Admins can delete anything.
                     if (!deleteAny) {
+                        // Permissions for the whole page are retrieved together, before the rows are shown.
+                        await this.$store.dispatch(Store.loadPermissions, {
+                            dataType: this.dataType,
+                            ids: items.map(i => i[i.primaryKeyProperty])
+                        });
+                        // A newer call may have taken over the table while permissions were retrieved.
+                        if (!request.isCurrent()) {
+                            return;
+                        }
                         let permission = this.$store.getters.getPermission(this.dataType);
                         if (permission === permissions.permissionDataAll) {
                             deleteAny = true;
                         }
+                        // Items may also have been removed in the meantime.
+                        items = items.filter(i => this.removedItems.indexOf(i[i.primaryKeyProperty]) === -1);
                     }
-                    for (var i = 0; i < this.items.length; i++) {
+                    for (var i = 0; i < items.length; i++) {
                         if (deleteAny) {
-                            this.deletePermissions[this.items[i][this.items[i].primaryKeyProperty]] = true;
+                            deletePermissions[items[i][items[i].primaryKeyProperty]] = true;
                         } else {
-                            let permission = this.$store.getters.getPermission(this.dataType, this.items[i][this.items[i].primaryKeyProperty]);
-                            this.deletePermissions[this.items[i][this.items[i].primaryKeyProperty]] =
+                            let permission = this.$store.getters.getPermission(this.dataType, items[i][items[i].primaryKeyProperty]);
+                            deletePermissions[items[i][items[i].primaryKeyProperty]] =
                                 permission === permissions.permissionDataAll;
                         }
                     }
                 }
+                this.items = items;
+                this.totalItems = data.totalItems - (data.pageItems.length - items.length);
+                this.deletePermissions = deletePermissions;
                 this.canDelete = Object.keys(this.deletePermissions).length > 0;
             } catch (error) {
                 ErrorMsg.logError("dynamic-data-table.updateData", error);
@@ -464,8 +514,8 @@ export default class DynamicDataTable extends Vue {
         } catch (error) {
             ErrorMsg.logError("dynamic-data-table.updateTable", error);
             let msg = 'A problem occurred while updating the data. ';
-            if (error && error.message && error.message.startsWith("CODE:")) {
-                msg += error.message.replace('CODE:', '');
+            if (error instanceof ApiError) {
+                msg += error.message;
             }
             this.loading = false;
             this.$emit("onError", msg);
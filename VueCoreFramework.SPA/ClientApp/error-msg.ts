@@ -28,4 +28,13 @@ export function showErrorMsg(message: string) {
 export function showErrorMsgAndLog(origin: string, message: string, error: Error) {
     logError(origin, error);
     showErrorMsg(message);
+}
+
+/**
+ * Displays a brief message to the user as a toast, which does not interrupt what they are doing.
+ * @param {string} message The message to display.
+ */
+export function showToast(message: string) {
+    store.state.toast.message = message;
+    store.state.toast.shown = true;
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+﻿// Server-Sent Events are not yet described by the DOM library of the TypeScript version used by
+// this project. These declarations can be removed once they are.
+
+/**
+ * A connection to a stream of Server-Sent Events.
+ */
+interface EventSource extends EventTarget {
+    /**
+     * The state of the connection: 0 while connecting, 1 while open, and 2 once closed.
+     */
+    readonly readyState: number;
+
+    /**
+     * The URL of the event stream.
+     */
+    readonly url: string;
+
+    onerror: ((this: EventSource, ev: Event) => any) | null;
+
+    onmessage: ((this: EventSource, ev: MessageEvent) => any) | null;
+
+    onopen: ((this: EventSource, ev: Event) => any) | null;
+
+    /**
+     * Closes the connection. The browser does not reconnect after it is closed.
+     */
+    close(): void;
+}
+
+declare var EventSource: {
+    prototype: EventSource;
+    new(url: string, eventSourceInitDict?: { withCredentials?: boolean }): EventSource;
+};
\ No newline at end of file
@@ -0,0 +1,24 @@
+﻿// The DOM library of the TypeScript version used by this project describes the Notification
+// constructor without its permission property. The window's Notification property is declared with
+// the full constructor instead. These declarations can be removed once the library is corrected.
+
+/**
+ * Creates notifications, and reports whether the user has allowed them to be shown.
+ */
+interface NotificationConstructor {
+    prototype: Notification;
+
+    /**
+     * Whether the user has allowed notifications to be shown: 'granted', 'denied', or 'default' if
+     * they have not yet been asked.
+     */
+    readonly permission: NotificationPermission;
+
+    new(title: string, options?: NotificationOptions): Notification;
+
+    requestPermission(callback?: NotificationPermissionCallback): Promise<NotificationPermission>;
+}
+
+interface Window {
+    Notification: NotificationConstructor;
+}
@@ -0,0 +1,229 @@
+﻿import * as Store from './store/store';
+import { CancelledError, NetworkError, ServiceUnavailableError } from './api-error';
+import * as ErrorMsg from './error-msg';
+import { fetchWithProgress, ProgressCallback } from './xhr-fetch';
+
+/**
+ * Controls how failed calls are retried.
+ */
+export interface RetryPolicy {
+    /**
+     * The maximum number of times a failed call is retried.
+     */
+    retries: number;
+
+    /**
+     * The delay before the first retry, in milliseconds. Doubles with each further retry.
+     */
+    baseDelay: number;
+
+    /**
+     * The maximum delay between retries, in milliseconds.
+     */
+    maxDelay: number;
+
+    /**
+     * The response status codes which indicate a transient failure worth retrying.
+     */
+    retryStatuses: number[];
+}
+
+/**
+ * Controls when a host's circuit breaker opens and how long it stays open.
+ */
+export interface CircuitBreakerPolicy {
+    /**
+     * The number of consecutive failures after which calls to the host stop being attempted.
+     */
+    failureThreshold: number;
+
+    /**
+     * How long the circuit stays open before a single trial call is allowed through, in milliseconds.
+     */
+    resetTimeout: number;
+}
+
+/**
+ * The retry policy used for all calls. May be modified at startup to suit the deployment.
+ */
+export const retryPolicy: RetryPolicy = {
+    retries: 3,
+    baseDelay: 500,
+    maxDelay: 8000,
+    retryStatuses: [408, 429, 502, 503, 504]
+};
+
+/**
+ * The circuit breaker policy used for every host. May be modified at startup to suit the deployment.
+ */
+export const circuitBreakerPolicy: CircuitBreakerPolicy = {
+    failureThreshold: 5,
+    resetTimeout: 30000
+};
+
+/**
+ * Tracks consecutive failures of calls to a single host, and stops calls from being attempted
+ * while the host appears to be down.
+ */
+export class CircuitBreaker {
+    failures = 0;
+
+    host = '';
+
+    openedAt = 0;
+
+    state: 'closed' | 'open' | 'half-open' = 'closed';
+
+    /**
+     * Initializes a new instance of CircuitBreaker.
+     * @param {string} host The origin of the host tracked by this CircuitBreaker.
+     */
+    constructor(host: string) { this.host = host; }
+
+    /**
+     * Determines whether a call to the host should be attempted. Once the reset timeout has
+     * elapsed, a single trial call is allowed through an open circuit.
+     */
+    canRequest(): boolean {
+        if (this.state === 'closed') {
+            return true;
+        }
+        if (this.state === 'open' && Date.now() - this.openedAt >= circuitBreakerPolicy.resetTimeout) {
+            this.state = 'half-open';
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Records a call to the host which was aborted before it completed. An aborted trial call says
+     * nothing about the host, so the circuit returns to open (with its original opening time) and
+     * the next call is allowed through as a new trial.
+     */
+    onCancelled() {
+        if (this.state === 'half-open') {
+            this.state = 'open';
+        }
+    }
+
+    /**
+     * Records a failed call to the host, opening the circuit if the failure threshold is reached.
+     */
+    onFailure() {
+        this.failures++;
+        if (this.state === 'half-open' || this.failures >= circuitBreakerPolicy.failureThreshold) {
+            if (this.state !== 'open') {
+                ErrorMsg.logError('resilience.CircuitBreaker', new Error(`The circuit for ${this.host} has opened.`));
+            }
+            this.state = 'open';
+            this.openedAt = Date.now();
+            Store.store.commit(Store.setServiceAvailability, { host: this.host, available: false });
+        }
+    }
+
+    /**
+     * Records a successful call to the host, closing the circuit.
+     */
+    onSuccess() {
+        this.failures = 0;
+        if (this.state !== 'closed') {
+            this.state = 'closed';
+            Store.store.commit(Store.setServiceAvailability, { host: this.host, available: true });
+        }
+    }
+}
+
+const circuitBreakers: { [host: string]: CircuitBreaker } = {};
+
+function getHost(url: string): string {
+    let match = /^[a-z]+:\/\/[^\/]+/i.exec(url);
+    return match ? match[0] : '';
+}
+
+/**
+ * Retrieves the circuit breaker for the host of the given URL, creating it if necessary.
+ * @param {string} url Any URL on the host.
+ */
+export function getCircuitBreaker(url: string): CircuitBreaker {
+    let host = getHost(url);
+    if (!circuitBreakers[host]) {
+        circuitBreakers[host] = new CircuitBreaker(host);
+    }
+    return circuitBreakers[host];
+}
+
+function getRetryDelay(attempt: number): number {
+    // Full jitter: a random delay up to the exponential backoff ceiling.
+    let ceiling = Math.min(retryPolicy.maxDelay, retryPolicy.baseDelay * Math.pow(2, attempt));
+    return Math.floor(Math.random() * ceiling);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>(resolve => {
+        let onAbort = () => {
+            clearTimeout(timeout);
+            resolve();
+        };
+        let timeout = setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+            resolve();
+        }, ms);
+        // Stop waiting as soon as the call is aborted; the caller then reports the cancellation.
+        if (signal) {
+            signal.addEventListener('abort', onAbort);
+        }
+    });
+}
+
+/**
+ * Calls fetch through the circuit breaker for the URL's host, retrying transient failures
+ * according to the retry policy. Calls aborted through init.signal are rejected with a
+ * CancelledError, and are not counted as failures of the host.
+ * @param {string} url The URL to fetch.
+ * @param {RequestInit} init The options passed to fetch.
+ * @param {boolean} retry Whether the call may be retried. Should only be true for idempotent calls.
+ * @param {ProgressCallback} onUploadProgress If given, called as the request body is sent. Restarts
+ * from zero if the call is retried.
+ * @returns {Response} The response of the final attempt.
+ */
+export async function resilientFetch(url: string, init: RequestInit, retry: boolean, onUploadProgress?: ProgressCallback): Promise<Response> {
+    let breaker = getCircuitBreaker(url);
+    let attempt = 0;
+    while (true) {
+        if (init.signal && init.signal.aborted) {
+            throw new CancelledError({ method: init.method, url });
+        }
+        if (!breaker.canRequest()) {
+            throw new ServiceUnavailableError({ method: init.method, url });
+        }
+        let response: Response;
+        try {
+            response = onUploadProgress
+                ? await fetchWithProgress(url, init, onUploadProgress)
+                : await fetch(url, init);
+        } catch (error) {
+            if (init.signal && init.signal.aborted) {
+                breaker.onCancelled();
+                throw new CancelledError({ method: init.method, url });
+            }
+            breaker.onFailure();
+            if (retry && attempt < retryPolicy.retries) {
+                await delay(getRetryDelay(attempt++), init.signal);
+                continue;
+            }
+            throw new NetworkError({ method: init.method, url }, error);
+        }
+        if (response.status >= 500) {
+            breaker.onFailure();
+        } else {
+            breaker.onSuccess();
+        }
+        if (retry && attempt < retryPolicy.retries && retryPolicy.retryStatuses.indexOf(response.status) !== -1) {
+            await delay(getRetryDelay(attempt++), init.signal);
+            continue;
+        }
+        return response;
+    }
+}
\ No newline at end of file
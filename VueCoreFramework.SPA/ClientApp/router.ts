@@ -1,4 +1,5 @@
 ﻿import VueRouter, { Route, RouteConfig } from 'vue-router';
+import { addInterceptor, ApiRequest } from './api';
 import { authenticate, AuthorizationViewModel, checkAuthorization } from './authorization';
 import * as ErrorMsg from './error-msg';
 
@@ -38,6 +39,12 @@ const routes: Array<RouteConfig> = [
         meta: { requiresAuthenticate: true },
         component: require('./components/group/manage.vue').default
     },
+    {
+        path: '/admin/chat-log',
+        meta: { requiresAuthenticate: true },
+        component: require('./components/admin/chat-log.vue').default,
+        props: (route) => ({ username: route.query.username })
+    },
     { path: '/error/notfound', component: resolve => require(['./components/error/notfound.vue'], resolve) },
     { path: '/error/:code', component: resolve => require(['./components/error/error.vue'], resolve), props: true }
 ];
@@ -119,4 +126,14 @@ export function checkResponse(response: Response, returnPath: string) {
         router.push({ path: '/login', query: { returnUrl: returnPath } });
     }
     return response;
-}
\ No newline at end of file
+}
+
+// Calls made with a returnPath redirect to the login page when the response is a 401.
+addInterceptor({
+    response(response: Response, request: ApiRequest) {
+        if (request.returnPath) {
+            return checkResponse(response, request.returnPath);
+        }
+        return response;
+    }
+});
\ No newline at end of file
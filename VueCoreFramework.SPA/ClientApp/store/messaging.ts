@@ -1,11 +1,224 @@
 ﻿import * as Api from '../api';
+import { ensureSuccess } from '../api-error';
+import { ProgressCallback } from '../xhr-fetch';
+
+/**
+ * A file sent with a message.
+ */
+export interface AttachmentViewModel {
+    /**
+     * The id of the attachment.
+     */
+    id: string;
+
+    /**
+     * The MIME type of the file.
+     */
+    contentType: string;
+
+    /**
+     * The name of the file.
+     */
+    fileName: string;
+
+    /**
+     * The size of the file, in bytes.
+     */
+    size: number;
+
+    /**
+     * A small preview of the file as a data URL, if the file is an image.
+     */
+    thumbnail?: string;
+}
+
+/**
+ * Limits on the files attached to messages, checked before they are sent.
+ */
+export interface AttachmentPolicy {
+    /**
+     * The MIME types of the files which may be attached. A type ending in '/*' allows any subtype.
+     */
+    allowedTypes: string[];
+
+    /**
+     * The greatest number of files which may be attached to a single message.
+     */
+    maxAttachments: number;
+
+    /**
+     * The greatest size of an attached file, in bytes.
+     */
+    maxSize: number;
+
+    /**
+     * The width and height within which image previews are drawn, in pixels.
+     */
+    thumbnailSize: number;
+}
+
+/**
+ * The attachment policy. Should match the AttachmentOptions of the API, which enforces the same
+ * limits; may be modified at startup to suit the deployment.
+ */
+export const attachmentPolicy: AttachmentPolicy = {
+    allowedTypes: ['image/*', 'text/plain', 'application/pdf', 'application/zip'],
+    maxAttachments: 5,
+    maxSize: 5 * 1024 * 1024,
+    thumbnailSize: 160
+};
+
+/**
+ * Checks a file against the attachment policy.
+ * @param {File} file The file to check.
+ * @returns {string} A message describing why the file can't be attached, or an empty string if it can.
+ */
+export function checkAttachment(file: File): string {
+    if (!file.size) {
+        return `'${file.name}' is empty.`;
+    }
+    if (file.size > attachmentPolicy.maxSize) {
+        return `'${file.name}' is too large. Attached files may be no larger than ${Math.floor(attachmentPolicy.maxSize / 1024)} KB.`;
+    }
+    let type = (file.type || '').toLowerCase();
+    if (!attachmentPolicy.allowedTypes.some(t => t.slice(-2) === '/*'
+        ? type.indexOf(t.slice(0, -1)) === 0
+        : type === t)) {
+        return `Files of type '${file.type || 'unknown'}' may not be attached.`;
+    }
+    return '';
+}
+
+/**
+ * Draws a small preview of an image file.
+ * @param {File} file The file.
+ * @returns {string} The preview as a data URL, or an empty string if the file is not an image
+ * which the browser can display.
+ */
+export function createThumbnail(file: File): Promise<string> {
+    if (file.type.indexOf('image/') !== 0) {
+        return Promise.resolve('');
+    }
+    return new Promise<string>(resolve => {
+        let url = URL.createObjectURL(file);
+        let image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            let scale = Math.min(1, attachmentPolicy.thumbnailSize / Math.max(image.width, image.height));
+            let canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.width * scale));
+            canvas.height = Math.max(1, Math.round(image.height * scale));
+            canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            resolve('');
+        };
+        image.src = url;
+    });
+}
+
+async function getMessageForm(message: string, attachments: File[] = []): Promise<FormData> {
+    let form = new FormData();
+    form.append('message', message || '');
+    for (var i = 0; i < attachments.length; i++) {
+        form.append('attachments', attachments[i], attachments[i].name);
+        form.append('thumbnails', await createThumbnail(attachments[i]));
+    }
+    return form;
+}
+
+/**
+ * An earlier version of an edited message.
+ */
+export interface MessageEditViewModel {
+    /**
+     * The content of the message before the edit.
+     */
+    content: string;
+
+    /**
+     * The date and time when the edit was made.
+     */
+    timestamp: string;
+}
+
+/**
+ * The flag set on a message by an admin reviewing chat logs.
+ */
+export interface MessageFlagViewModel {
+    /**
+     * The admin's note explaining why the message was flagged, if any.
+     */
+    note?: string;
+
+    /**
+     * The date and time when the message was flagged.
+     */
+    timestamp: string;
+
+    /**
+     * The name of the admin who flagged the message.
+     */
+    username: string;
+}
+
+/**
+ * The reactions to a message with a single emoji.
+ */
+export interface ReactionViewModel {
+    /**
+     * The number of users who reacted with the emoji.
+     */
+    count: number;
+
+    /**
+     * The emoji.
+     */
+    emoji: string;
+
+    /**
+     * Indicates that the current user is one of those who reacted with the emoji.
+     */
+    reacted: boolean;
+}
 
 export interface MessageViewModel {
     /**
-     * The content of the message. May have markdown-formatted text.
+     * The files sent with the message. Omitted for deleted messages, except for admins reviewing
+     * chat logs.
+     */
+    attachments?: AttachmentViewModel[];
+
+    /**
+     * The content of the message. May have markdown-formatted text. Omitted for deleted messages,
+     * except for admins reviewing chat logs. May be empty if the message has attachments.
      */
     content: string;
 
+    /**
+     * The earlier versions of the message, if it has been edited. Only provided to admins
+     * reviewing chat logs.
+     */
+    edits?: MessageEditViewModel[];
+
+    /**
+     * The flag set on the message by an admin, if any. Only provided to admins reviewing chat
+     * logs.
+     */
+    flag?: MessageFlagViewModel;
+
+    /**
+     * The id of the message.
+     */
+    id: string;
+
+    /**
+     * Indicates that the sender has deleted the message.
+     */
+    isDeleted?: boolean;
+
     /**
      * Indicates that the message is from the system, rather than from a user.
      */
@@ -26,11 +239,44 @@ export interface MessageViewModel {
      */
     isUserSiteAdmin?: boolean;
 
+    /**
+     * The date and time when the message was last edited, if it has been.
+     */
+    lastEdited?: string;
+
+    /**
+     * The date and time when the latest reply in the thread started by the message was sent, if it
+     * has any replies.
+     */
+    lastReply?: string;
+
+    /**
+     * The emoji reactions to the message, with their counts.
+     */
+    reactions?: ReactionViewModel[];
+
     /**
      * Indicates that the single recipient has read the message.
      */
     received?: boolean;
 
+    /**
+     * The number of replies in the thread started by the message.
+     */
+    replyCount?: number;
+
+    /**
+     * If the message is a reply in a thread of a group chat, the id of the message which started
+     * the thread.
+     */
+    threadId?: string;
+
+    /**
+     * The number of replies in the thread started by the message which the current user has not
+     * read.
+     */
+    unreadReplyCount?: number;
+
     /**
      * The name of the user who sent the message.
      */
@@ -42,6 +288,164 @@ export interface MessageViewModel {
     timestamp: string;
 }
 
+/**
+ * A message found by a search, and the conversation to which it belongs.
+ */
+export interface MessageSearchResultViewModel {
+    /**
+     * The id of the message.
+     */
+    id: string;
+
+    /**
+     * The content of the message. May have markdown-formatted text.
+     */
+    content: string;
+
+    /**
+     * The name of the group to which the message was sent, if it is a group message.
+     */
+    group?: string;
+
+    /**
+     * The name of the other participant in the current user's conversation, if it is an
+     * individual message.
+     */
+    interlocutor?: string;
+
+    /**
+     * Indicates that the message is from the system, rather than from a user.
+     */
+    isSystemMessage?: boolean;
+
+    /**
+     * If the message is a reply in a thread of a group chat, the id of the message which started
+     * the thread.
+     */
+    threadId?: string;
+
+    /**
+     * The date and time when the message was sent.
+     */
+    timestamp: string;
+
+    /**
+     * The name of the user who sent the message.
+     */
+    username?: string;
+}
+
+/**
+ * Describes a search of the messages the current user can see.
+ */
+export interface MessageSearchRequest {
+    /**
+     * The text to find in the content of the messages.
+     */
+    query: string;
+
+    /**
+     * If given, only messages sent at or after this time are found.
+     */
+    from?: Date;
+
+    /**
+     * If given, only messages sent to the group with this name are found.
+     */
+    group?: string;
+
+    /**
+     * If given, only messages sent by the user with this name are found.
+     */
+    sender?: string;
+
+    /**
+     * If given, only messages sent before this time are found.
+     */
+    to?: Date;
+}
+
+/**
+ * Describes how far a member of a group has received and read the group's chat.
+ */
+export interface GroupReceiptViewModel {
+    /**
+     * The timestamp of the latest message delivered to the member, or null if none has been.
+     */
+    lastDelivered: string;
+
+    /**
+     * The timestamp of the latest message the member has read, or null if none has been.
+     */
+    lastRead: string;
+
+    /**
+     * The name of the member.
+     */
+    username: string;
+}
+
+/**
+ * Controls how often typing is reported in group chats, and how long it is shown.
+ */
+export interface TypingPolicy {
+    /**
+     * The shortest time between notices that the current user is typing, in milliseconds.
+     */
+    notifyInterval: number;
+
+    /**
+     * How long another user is shown as typing after their latest notice, in milliseconds.
+     */
+    displayTimeout: number;
+}
+
+/**
+ * The typing policy used by group chats. May be modified at startup to suit the deployment.
+ */
+export const typingPolicy: TypingPolicy = {
+    notifyInterval: 3000,
+    displayTimeout: 5000
+};
+
+/**
+ * Describes the mentions of the current user in a group's chat.
+ */
+export interface GroupMentionsViewModel {
+    /**
+     * The name of the group.
+     */
+    group: string;
+
+    /**
+     * The number of messages mentioning the current user which they have not read in the group's
+     * chat.
+     */
+    unreadCount: number;
+}
+
+function getMentionPattern(username: string): RegExp {
+    let escaped = username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // A mention may be followed by punctuation, but not by more of a longer name.
+    return new RegExp(`(^|\\s)@(${escaped})(?![\\w@+-]|\\.\\w)`, 'gi');
+}
+
+/**
+ * Wraps the mentions of members of a group in a message's markdown content, so that they are
+ * highlighted when it is rendered.
+ * @param {string} content The content of the message.
+ * @param {string[]} members The names of the members of the group.
+ * @param {string} username The name of the current user, whose own mentions are highlighted more strongly.
+ * @returns {string} The content, with the mentions wrapped in spans.
+ */
+export function highlightMentions(content: string, members: string[], username: string): string {
+    return members.reduce((highlighted, member) => highlighted.replace(getMentionPattern(member),
+        (match: string, space: string, name: string) => {
+            let mentionClass = member === username ? 'chat-mention chat-mention-self' : 'chat-mention';
+            return `${space}<span class="${mentionClass}">@${name}</span>`;
+        }), content || '');
+}
+
 export interface ConversationViewModel {
     /**
      * The username of the other party in the conversation.
@@ -54,7 +458,170 @@ export interface ConversationViewModel {
     unreadCount: number;
 }
 
+/**
+ * The current user's notification settings.
+ */
+export interface NotificationSettingsViewModel {
+    /**
+     * The time of day at which the user's do-not-disturb period ends, as hh:mm, if they have one.
+     */
+    doNotDisturbEnd?: string;
+
+    /**
+     * The time of day at which the user's do-not-disturb period starts, as hh:mm, if they have one.
+     */
+    doNotDisturbStart?: string;
+
+    /**
+     * The names of the groups whose chats the user has muted.
+     */
+    mutedGroups: string[];
+
+    /**
+     * The names of the users whose conversations with the current user they have muted.
+     */
+    mutedUsers: string[];
+}
+
+/**
+ * Restricts the messages of chat logs under review to those sent within a period.
+ */
+export interface MessageDateRange {
+    /**
+     * If given, only messages sent at or after this time are included.
+     */
+    from?: Date;
+
+    /**
+     * If given, only messages sent before this time are included.
+     */
+    to?: Date;
+}
+
+/**
+ * The formats in which an admin may export a chat log.
+ */
+export type ChatLogFormat = 'json' | 'csv' | 'txt';
+
+/**
+ * Selects the part of a conversation to retrieve. By default, the latest messages are retrieved.
+ */
+export interface MessagePageRequest {
+    /**
+     * If given, all the messages sent after the message with this id are retrieved, and before and
+     * count are ignored.
+     */
+    after?: string;
+
+    /**
+     * If given, only messages sent before the message with this id are retrieved.
+     */
+    before?: string;
+
+    /**
+     * The greatest number of messages to retrieve. Defaults to messagePageSize.
+     */
+    count?: number;
+}
+
+/**
+ * The number of messages retrieved at a time when a conversation is opened, or scrolled back.
+ */
+export const messagePageSize = 50;
+
+function getPageQuery(page: MessagePageRequest = {}): string {
+    if (page.after) {
+        return `?after=${encodeURIComponent(page.after)}`;
+    }
+    let query = `?count=${page.count || messagePageSize}`;
+    if (page.before) {
+        query += `&before=${encodeURIComponent(page.before)}`;
+    }
+    return query;
+}
+
+function getRangeQuery(range: MessageDateRange = {}, separator = '&'): string {
+    let query = '';
+    if (range.from) {
+        query += `${separator}from=${encodeURIComponent(range.from.toISOString())}`;
+        separator = '&';
+    }
+    if (range.to) {
+        query += `${separator}to=${encodeURIComponent(range.to.toISOString())}`;
+    }
+    return query;
+}
+
 export const messaging = {
+    /**
+     * Called to delete a message sent by the current user.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message to delete.
+     */
+    async deleteMessage(returnPath: string, id: string) {
+        let response = await Api.postApi(`api/Message/DeleteMessage/${id}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to change the content of a message sent by the current user.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message to edit.
+     * @param {string} message The new content of the message.
+     */
+    async editMessage(returnPath: string, id: string, message: string) {
+        let response = await Api.postApi(`api/Message/EditMessage/${id}?message=${encodeURIComponent(message)}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to export the messages between a proxy user and another user, or the messages of a
+     * group's chat, as a transcript file. For use by admins to review chat logs.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} proxy The name of the user whose chat logs are being reviewed.
+     * @param {string} username The name of the user whose conversation with the proxy user will be exported, if no group is given.
+     * @param {string} group The name of the group whose chat will be exported, if given.
+     * @param {ChatLogFormat} format The format of the transcript.
+     * @param {MessageDateRange} range Restricts the transcript to the messages sent within a period.
+     * @returns {Blob} The transcript.
+     */
+    async exportProxyMessages(returnPath: string, proxy: string, username: string, group: string, format: ChatLogFormat, range?: MessageDateRange): Promise<Blob> {
+        let query = `?format=${format}`;
+        if (group) {
+            query += `&group=${encodeURIComponent(group)}`;
+        } else {
+            query += `&username=${encodeURIComponent(username)}`;
+        }
+        let response = await Api.getApi(`api/Message/ExportProxyMessages/${proxy}${query}${getRangeQuery(range)}`, returnPath);
+        await ensureSuccess(response);
+        return response.blob();
+    },
+
+    /**
+     * Called to flag a message for attention, or to replace the note of a flagged message. For
+     * use by admins to review chat logs.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message.
+     * @param {string} note An optional note explaining why the message was flagged.
+     */
+    async flagMessage(returnPath: string, id: string, note?: string) {
+        let query = note ? `?note=${encodeURIComponent(note)}` : '';
+        let response = await Api.postApi(`api/Message/FlagMessage/${id}${query}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to get the content of a file attached to a message.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the attachment.
+     * @returns {Blob} The file.
+     */
+    async getAttachment(returnPath: string, id: string): Promise<Blob> {
+        let response = await Api.getApi(`api/Message/GetAttachment/${id}`, returnPath);
+        await ensureSuccess(response);
+        return response.blob();
+    },
+
     /**
      * Called to get a list of users involved in individual conversations in which the current user
      * is a sender or recipient, with an unread message count.
@@ -63,9 +630,7 @@ export const messaging = {
      */
     async getConversations(returnPath: string): Promise<ConversationViewModel[]> {
         let response = await Api.getApi(`api/Message/GetConversations`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+        await ensureSuccess(response);
         return response.json() as Promise<ConversationViewModel[]>;
     },
 
@@ -73,43 +638,117 @@ export const messaging = {
      * Called to get the messages exchanged within the given group.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} group The name of the group whose conversation will be retrieved.
+     * @param {MessagePageRequest} page Selects the part of the conversation to retrieve.
      * @returns {MessageViewModel[]} The ordered list of messages.
      */
-    async getGroupMessages(returnPath: string, group: string): Promise<MessageViewModel[]> {
-        let response = await Api.getApi(`api/Message/GetGroupMessages/${group}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async getGroupMessages(returnPath: string, group: string, page?: MessagePageRequest): Promise<MessageViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetGroupMessages/${group}${getPageQuery(page)}`, returnPath);
+        await ensureSuccess(response);
         return response.json() as Promise<MessageViewModel[]>;
     },
 
+    /**
+     * Called to get how far each member of the given group has received and read the group's chat.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} group The name of the group.
+     * @returns {GroupReceiptViewModel[]} The receipts of every member of the group.
+     */
+    async getGroupReceipts(returnPath: string, group: string): Promise<GroupReceiptViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetGroupReceipts/${group}`, returnPath);
+        await ensureSuccess(response);
+        return response.json() as Promise<GroupReceiptViewModel[]>;
+    },
+
+    /**
+     * Called to get the number of unread messages mentioning the current user in each of their
+     * groups' chats.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @returns {GroupMentionsViewModel[]} The groups whose chats have unread mentions.
+     */
+    async getMentions(returnPath: string): Promise<GroupMentionsViewModel[]> {
+        let response = await Api.getApi('api/Message/GetMentions', returnPath);
+        await ensureSuccess(response);
+        return response.json() as Promise<GroupMentionsViewModel[]>;
+    },
+
+    /**
+     * Called to get a single message, after it has changed.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message.
+     * @returns {MessageViewModel} The message.
+     */
+    async getMessage(returnPath: string, id: string): Promise<MessageViewModel> {
+        let response = await Api.getApi(`api/Message/GetMessage/${id}`, returnPath);
+        await ensureSuccess(response);
+        return response.json() as Promise<MessageViewModel>;
+    },
+
+    /**
+     * Called to get the current user's notification settings.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @returns {NotificationSettingsViewModel} The settings.
+     */
+    async getNotificationSettings(returnPath: string): Promise<NotificationSettingsViewModel> {
+        let response = await Api.getApi('api/Message/GetNotificationSettings', returnPath);
+        await ensureSuccess(response);
+        return response.json() as Promise<NotificationSettingsViewModel>;
+    },
+
     /**
      * Called to get a list of users involved in individual conversations in which the given user
      * is a sender or recipient. For use by admins to review chat logs.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} proxy The name of the user whose conversation will be retrieved.
+     * @param {MessageDateRange} range If given, only conversations with messages sent within this period are retrieved.
      * @returns {ConversationViewModel[]} The list of conversations.
      */
-    async getProxyConversations(returnPath: string, proxy: string): Promise<ConversationViewModel[]> {
-        let response = await Api.getApi(`api/Message/GetProxyConversations/${proxy}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async getProxyConversations(returnPath: string, proxy: string, range?: MessageDateRange): Promise<ConversationViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetProxyConversations/${proxy}${getRangeQuery(range, '?')}`, returnPath);
+        await ensureSuccess(response);
         return response.json() as Promise<ConversationViewModel[]>;
     },
 
+    /**
+     * Called to get the messages of a group's chat, including replies in threads. For use by
+     * admins to review chat logs.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} group The name of the group whose chat will be retrieved.
+     * @param {MessagePageRequest} page Selects the part of the chat to retrieve.
+     * @param {MessageDateRange} range Restricts the messages to those sent within a period.
+     * @returns {MessageViewModel[]} The ordered list of messages.
+     */
+    async getProxyGroupMessages(returnPath: string, group: string, page?: MessagePageRequest, range?: MessageDateRange): Promise<MessageViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetProxyGroupMessages/${group}${getPageQuery(page)}${getRangeQuery(range)}`, returnPath);
+        await ensureSuccess(response);
+        return response.json() as Promise<MessageViewModel[]>;
+    },
+
+    /**
+     * Called to get the names of the groups in whose chats the given user may have taken part.
+     * For use by admins to review chat logs.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} proxy The name of the user whose group chats will be retrieved.
+     * @param {MessageDateRange} range If given, only groups with messages sent within this period are retrieved.
+     * @returns {string[]} The names of the groups.
+     */
+    async getProxyGroups(returnPath: string, proxy: string, range?: MessageDateRange): Promise<string[]> {
+        let response = await Api.getApi(`api/Message/GetProxyGroups/${proxy}${getRangeQuery(range, '?')}`, returnPath);
+        await ensureSuccess(response);
+        return response.json() as Promise<string[]>;
+    },
+
     /**
      * Called to get the messages between a proxy user and the given user. For use by admins to review chat logs.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} proxy The name of the user whose conversation with the other user will be retrieved.
      * @param {string} username The name of the user whose conversation with the proxy user will be retrieved.
+     * @param {MessagePageRequest} page Selects the part of the conversation to retrieve.
+     * @param {MessageDateRange} range Restricts the messages to those sent within a period.
      * @returns {MessageViewModel[]} The ordered list of messages.
      */
-    async getProxyUserMessages(returnPath: string, proxy: string, username: string): Promise<MessageViewModel[]> {
-        let response = await Api.getApi(`api/Message/GetProxyUserMessages/${proxy}/${username}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async getProxyUserMessages(returnPath: string, proxy: string, username: string, page?: MessagePageRequest, range?: MessageDateRange): Promise<MessageViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetProxyUserMessages/${proxy}/${username}${getPageQuery(page)}${getRangeQuery(range)}`, returnPath);
+        await ensureSuccess(response);
         return response.json() as Promise<MessageViewModel[]>;
     },
 
@@ -121,9 +760,20 @@ export const messaging = {
      */
     async getSystemMessages(returnPath: string): Promise<MessageViewModel[]> {
         let response = await Api.getApi('api/Message/GetSystemMessages', returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+        await ensureSuccess(response);
+        return response.json() as Promise<MessageViewModel[]>;
+    },
+
+    /**
+     * Called to get the replies in the thread started by the given message of a group chat.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message which started the thread.
+     * @param {MessagePageRequest} page Selects the part of the thread to retrieve.
+     * @returns {MessageViewModel[]} The ordered list of replies.
+     */
+    async getThreadMessages(returnPath: string, id: string, page?: MessagePageRequest): Promise<MessageViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetThreadMessages/${id}${getPageQuery(page)}`, returnPath);
+        await ensureSuccess(response);
         return response.json() as Promise<MessageViewModel[]>;
     },
 
@@ -132,13 +782,12 @@ export const messaging = {
      * marked deleted by the current user.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} username The name of the user whose conversation with the current user will be retrieved.
+     * @param {MessagePageRequest} page Selects the part of the conversation to retrieve.
      * @returns {MessageViewModel[]} The ordered list of messages.
      */
-    async getUserMessages(returnPath: string, username: string): Promise<MessageViewModel[]> {
-        let response = await Api.getApi(`api/Message/GetUserMessages/${username}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async getUserMessages(returnPath: string, username: string, page?: MessagePageRequest): Promise<MessageViewModel[]> {
+        let response = await Api.getApi(`api/Message/GetUserMessages/${username}${getPageQuery(page)}`, returnPath);
+        await ensureSuccess(response);
         return response.json() as Promise<MessageViewModel[]>;
     },
 
@@ -150,9 +799,7 @@ export const messaging = {
      */
     async markConversationDeleted(returnPath: string, username: string) {
         let response = await Api.postApi(`api/Message/MarkConversationDeleted/${username}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+        await ensureSuccess(response);
     },
 
     /**
@@ -163,9 +810,17 @@ export const messaging = {
      */
     async markConversationRead(returnPath: string, username: string) {
         let response = await Api.postApi(`api/Message/MarkConversationRead/${username}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to mark the chat of the given group read, from the perspective of the current user.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} group The name of the group whose chat will be marked read.
+     */
+    async markGroupRead(returnPath: string, group: string) {
+        let response = await Api.postApi(`api/Message/MarkGroupRead/${group}`, returnPath);
+        await ensureSuccess(response);
     },
 
     /**
@@ -175,36 +830,149 @@ export const messaging = {
      */
     async markSystemMessagesRead(returnPath: string) {
         let response = await Api.postApi('api/Message/MarkSystemMessagesRead', returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to mark the replies in the thread started by the given message read, from the
+     * perspective of the current user.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message which started the thread.
+     */
+    async markThreadRead(returnPath: string, id: string) {
+        let response = await Api.postApi(`api/Message/MarkThreadRead/${id}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to tell the other members of the given group that the current user is typing in the
+     * group's chat.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} group The name of the group.
+     */
+    async notifyTyping(returnPath: string, group: string) {
+        let response = await Api.postApi(`api/Message/NotifyTyping/${group}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to search the messages the current user can see, in their individual conversations,
+     * the chats of their groups, and their system messages.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {MessageSearchRequest} search The text to find, and the filters to apply.
+     * @param {AbortSignal} signal A signal which aborts the search, if given.
+     * @returns {MessageSearchResultViewModel[]} The messages found, the latest first.
+     */
+    async searchMessages(returnPath: string, search: MessageSearchRequest, signal?: AbortSignal): Promise<MessageSearchResultViewModel[]> {
+        let query = `?query=${encodeURIComponent(search.query)}`;
+        if (search.sender) {
+            query += `&sender=${encodeURIComponent(search.sender)}`;
+        }
+        if (search.group) {
+            query += `&group=${encodeURIComponent(search.group)}`;
         }
+        if (search.from) {
+            query += `&from=${encodeURIComponent(search.from.toISOString())}`;
+        }
+        if (search.to) {
+            query += `&to=${encodeURIComponent(search.to.toISOString())}`;
+        }
+        let response = await Api.getApi(`api/Message/SearchMessages${query}`, returnPath, undefined, { signal });
+        await ensureSuccess(response);
+        return response.json() as Promise<MessageSearchResultViewModel[]>;
     },
 
     /**
      * Called to send a message to the given group.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} group The name of the group to which the message will be sent.
-     * @param {string} message The message to send.
+     * @param {string} message The message to send. May be empty if files are attached.
+     * @param {File[]} attachments The files to attach to the message, if any.
+     * @param {ProgressCallback} onProgress Called as the message is sent, if given.
      * @returns {Response} A response object containing any error which occurred.
      */
-    async sendMessageToGroup(returnPath: string, group: string, message: string) {
-        let response = await Api.postApi(`api/Message/SendMessageToGroup/${group}?message=${encodeURIComponent(message)}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async sendMessageToGroup(returnPath: string, group: string, message: string, attachments?: File[], onProgress?: ProgressCallback) {
+        let form = await getMessageForm(message, attachments);
+        let response = await Api.postApi(`api/Message/SendMessageToGroup/${group}`, returnPath, form, { onUploadProgress: onProgress });
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to send a reply in a thread of the given group's chat.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} group The name of the group to which the reply will be sent.
+     * @param {string} threadId The id of the message which started the thread.
+     * @param {string} message The reply to send. May be empty if files are attached.
+     * @param {File[]} attachments The files to attach to the reply, if any.
+     * @param {ProgressCallback} onProgress Called as the reply is sent, if given.
+     */
+    async sendReply(returnPath: string, group: string, threadId: string, message: string, attachments?: File[], onProgress?: ProgressCallback) {
+        let form = await getMessageForm(message, attachments);
+        let response = await Api.postApi(`api/Message/SendMessageToGroup/${group}?threadId=${encodeURIComponent(threadId)}`, returnPath, form, { onUploadProgress: onProgress });
+        await ensureSuccess(response);
     },
 
     /**
      * Called to send a message to the given user.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} username The name of the user to whom the message will be sent.
-     * @param {string} message The message to send.
+     * @param {string} message The message to send. May be empty if files are attached.
+     * @param {File[]} attachments The files to attach to the message, if any.
+     * @param {ProgressCallback} onProgress Called as the message is sent, if given.
      * @returns {Response} A response object containing any error which occurred.
      */
-    async sendMessageToUser(returnPath: string, username: string, message: string) {
-        let response = await Api.postApi(`api/Message/SendMessageToUser/${username}?message=${encodeURIComponent(message)}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async sendMessageToUser(returnPath: string, username: string, message: string, attachments?: File[], onProgress?: ProgressCallback) {
+        let form = await getMessageForm(message, attachments);
+        let response = await Api.postApi(`api/Message/SendMessageToUser/${username}`, returnPath, form, { onUploadProgress: onProgress });
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to mute or unmute the current user's conversation with the given user, or the chat of
+     * the given group. Muted chats do not raise notifications of new messages.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {boolean} muted Whether the chat should be muted.
+     * @param {string} username The name of the other participant in the conversation.
+     * @param {string} group The name of the group, instead of a conversation.
+     */
+    async setChatMuted(returnPath: string, muted: boolean, username: string, group?: string) {
+        let query = group ? `group=${encodeURIComponent(group)}` : `username=${encodeURIComponent(username)}`;
+        let response = await Api.postApi(`api/Message/SetChatMuted?muted=${muted}&${query}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to set the current user's daily do-not-disturb period, or to clear it if no times are
+     * given. The period may span midnight.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} start The time of day at which the period starts, as hh:mm.
+     * @param {string} end The time of day at which the period ends, as hh:mm.
+     */
+    async setDoNotDisturb(returnPath: string, start?: string, end?: string) {
+        let query = start && end ? `?start=${encodeURIComponent(start)}&end=${encodeURIComponent(end)}` : '';
+        let response = await Api.postApi(`api/Message/SetDoNotDisturb${query}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to add the current user's reaction to a message with the given emoji, or to remove
+     * it if they have already reacted with that emoji.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the message.
+     * @param {string} emoji The emoji with which to react.
+     */
+    async toggleReaction(returnPath: string, id: string, emoji: string) {
+        let response = await Api.postApi(`api/Message/ToggleReaction/${id}?emoji=${encodeURIComponent(emoji)}`, returnPath);
+        await ensureSuccess(response);
+    },
+
+    /**
+     * Called to remove the flag from a message. For use by admins to review chat logs.
+     * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {string} id The id of the flagged message.
+     */
+    async unflagMessage(returnPath: string, id: string) {
+        let response = await Api.postApi(`api/Message/UnflagMessage/${id}`, returnPath);
+        await ensureSuccess(response);
     }
 };
\ No newline at end of file
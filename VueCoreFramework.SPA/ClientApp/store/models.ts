@@ -0,0 +1,80 @@
+﻿// This file is generated by generate-models.js from the data types exposed by the API.
+// Do not edit it directly; run 'npm run generate-models' after changing the data model.
+import { DataItem, Repository } from './repository';
+import { store } from './store';
+
+/**
+ * A ViewModel representing an item of the Airline data type.
+ */
+export interface Airline extends DataItem {
+    countries: string;
+    id: string;
+    international: string;
+    name: string;
+}
+
+/**
+ * A ViewModel representing an item of the City data type.
+ */
+export interface City extends DataItem {
+    country: string;
+    countryId: string;
+    id: string;
+    isCapitol: string;
+    localTimeAtGMTMidnight: string;
+    localTimeAtGMTMidnightFormatted: string;
+    name: string;
+    population: string;
+    transit: number;
+    transitFormatted: string;
+}
+
+/**
+ * A ViewModel representing an item of the Country data type.
+ */
+export interface Country extends DataItem {
+    airlines: string;
+    capitol: string;
+    cities: string;
+    epiIndex: string;
+    flagPrimaryColor: string;
+    id: string;
+    leader: string;
+    name: string;
+}
+
+/**
+ * A ViewModel representing an item of the Leader data type.
+ */
+export interface Leader extends DataItem {
+    age: string;
+    birthdate: string;
+    birthdateFormatted: string;
+    country: string;
+    countryId: string;
+    id: string;
+    maritalStatus: number;
+    maritalStatusFormatted: string;
+    name: string;
+    timeInOfficeTicks: string | number;
+    timeInOfficeTicksFormatted: string;
+}
+
+/**
+ * Maps the name of each data type to the interface of its ViewModels.
+ */
+export interface DataTypes {
+    Airline: Airline;
+    City: City;
+    Country: Country;
+    Leader: Leader;
+}
+
+/**
+ * Retrieves the Repository for the given data type, typed to its ViewModels.
+ * @param {string} dataType The name of the data type.
+ * @returns {Repository} The Repository for the data type.
+ */
+export function getRepository<K extends keyof DataTypes>(dataType: K): Repository<DataTypes[K]> {
+    return store.getters.getRepository(dataType) as Repository<DataTypes[K]>;
+}
\ No newline at end of file
@@ -0,0 +1,296 @@
+﻿import * as Api from '../api';
+import { ApiError, ConflictError, ensureSuccess, isConnectionError } from '../api-error';
+import * as ErrorMsg from '../error-msg';
+import { circuitBreakerPolicy } from '../resilience';
+import { offlineStore } from './offline-store';
+import { queryCache } from './query-cache';
+import * as Store from './store';
+
+/**
+ * An API call which makes a change to data. Kept serializable, so that it can be saved while the
+ * connection is lost, and sent later.
+ */
+export interface MutationRequest {
+    /**
+     * The URL of the call, relative to the API host. Always called with POST.
+     */
+    relUrl: string;
+
+    /**
+     * The body of the call, if any.
+     */
+    body?: string;
+
+    /**
+     * Additional headers sent with the call, if any.
+     */
+    headers?: { [name: string]: string };
+}
+
+/**
+ * Describes a change to data which is sent to the API through the MutationQueue.
+ */
+export interface Mutation<T> {
+    /**
+     * Optionally applies the expected result of the change locally, before it is sent, so that
+     * views reflect it immediately. Returns a function which releases the local change once the
+     * mutation has completed or failed.
+     */
+    apply?: () => () => void;
+
+    /**
+     * The data type changed by the mutation.
+     */
+    dataType: string;
+
+    /**
+     * A sentence describing what could not be done, shown to the user if the mutation fails.
+     */
+    failureMessage: string;
+
+    /**
+     * Indicates that the mutation may be saved while the API can't be reached, and sent once the
+     * connection returns.
+     */
+    queueOffline?: boolean;
+
+    /**
+     * The result given to the caller when the mutation is saved to be sent later.
+     */
+    queuedResult?: T;
+
+    /**
+     * Optionally updates any cached data with the successful response, and returns the result.
+     * Not called for mutations which were saved and sent later.
+     */
+    receive?: (response: Response) => T | Promise<T>;
+
+    /**
+     * The API call which makes the change.
+     */
+    request: MutationRequest;
+
+    /**
+     * The URL to return to if a login redirect occurs during the operation.
+     */
+    returnPath?: string;
+}
+
+interface SavedMutation {
+    dataType: string;
+    failureMessage: string;
+    request: MutationRequest;
+    username: string;
+}
+
+interface SavedEntry {
+    /**
+     * The key of the mutation in the OfflineStore, or undefined if it could not be stored.
+     */
+    key: number;
+
+    /**
+     * Releases the mutation's local changes, if they were made during this session.
+     */
+    release?: () => void;
+
+    value: SavedMutation;
+}
+
+async function sendRequest(request: MutationRequest, returnPath?: string): Promise<Response> {
+    let response = await Api.postApi(request.relUrl, returnPath, request.body, { headers: request.headers });
+    return ensureSuccess(response);
+}
+
+/**
+ * Sends changes to the API one at a time, in the order they were made. Changes may be applied
+ * locally as soon as they are queued; if a change fails, its local changes are rolled back, and
+ * the user is told why with a toast.
+ *
+ * While the API can't be reached, changes which allow it are saved in the OfflineStore instead,
+ * and are sent in order when the connection returns. Saved changes belong to the user who made
+ * them, and are only sent while that user is signed in. Each open tab may send them, but each saved
+ * change is claimed by a single tab before it is sent, so none is sent twice.
+ */
+export class MutationQueue {
+    private offline = false;
+
+    private saved: SavedEntry[] = [];
+
+    private syncTimeout = 0;
+
+    private tail: Promise<any> = Promise.resolve();
+
+    /**
+     * Adds a mutation to the queue.
+     * @param {Mutation<T>} mutation The mutation.
+     * @returns {T} The result of the mutation once it has been sent, or its queuedResult if it was
+     * saved to be sent later. Rejected with the error if the mutation fails, after the failure has
+     * been logged, the user has been told of it, and the mutation's local changes have been rolled
+     * back. Callers need not report the failure themselves; they only need to restore any state of
+     * their own.
+     */
+    enqueue<T>(mutation: Mutation<T>): Promise<T> {
+        let release = mutation.apply ? mutation.apply() : undefined;
+        let result = this.tail.then(() => this.run(mutation, release));
+        // A failed mutation doesn't prevent later ones from being sent.
+        this.tail = result.catch(() => undefined);
+        return result.catch(error => {
+            if (release) {
+                release();
+            }
+            ErrorMsg.logError('mutation-queue.enqueue', error);
+            this.reportFailure(mutation.dataType, `A problem occurred. ${mutation.failureMessage}`, error);
+            throw error;
+        });
+    }
+
+    /**
+     * Restores the mutations saved in the OfflineStore, and begins sending them. Saved mutations
+     * are also sent whenever the browser reports that the connection has returned.
+     */
+    async start() {
+        window.addEventListener('online', () => this.sync());
+        window.addEventListener('offline', () => this.setOffline(true));
+        let records = await offlineStore.getAll<SavedMutation>('mutations');
+        this.saved = records.map(r => <SavedEntry>{ key: r.key, value: r.value }).concat(this.saved);
+        this.sync();
+    }
+
+    /**
+     * Sends the current user's saved mutations, in order. If the API still can't be reached,
+     * sending is tried again later.
+     */
+    sync(): Promise<void> {
+        let result = this.tail.then(() => this.sendSaved());
+        this.tail = result.catch(() => undefined);
+        return result;
+    }
+
+    private getPending(): SavedEntry[] {
+        let username = Store.store.state.userState.username;
+        return this.saved.filter(e => e.value.username === username);
+    }
+
+    private remove(entry: SavedEntry) {
+        let index = this.saved.indexOf(entry);
+        if (index !== -1) {
+            this.saved.splice(index, 1);
+        }
+        // The saved copy has already been taken from the OfflineStore when the mutation was claimed.
+        if (entry.release) {
+            entry.release();
+        }
+        this.updatePending();
+    }
+
+    private reportFailure(dataType: string, message: string, error: any) {
+        if (error instanceof ConflictError && error.payload && error.payload.item) {
+            // The conflicting item is the latest known version.
+            queryCache.setItem(dataType, error.payload.item);
+        }
+        if (error instanceof ApiError) {
+            message += ` ${error.message}`;
+        }
+        ErrorMsg.showToast(message);
+    }
+
+    private async run<T>(mutation: Mutation<T>, release: () => void): Promise<T> {
+        // Changes are sent in order, so once one is waiting for the connection, later ones wait too.
+        if (mutation.queueOffline && (this.offline || this.getPending().length)) {
+            return this.save(mutation, release);
+        }
+        let response: Response;
+        try {
+            response = await sendRequest(mutation.request, mutation.returnPath);
+        } catch (error) {
+            if (mutation.queueOffline && isConnectionError(error)) {
+                this.setOffline(true);
+                return this.save(mutation, release);
+            }
+            throw error;
+        }
+        let result = mutation.receive ? await mutation.receive(response) : undefined;
+        if (release) {
+            release();
+        }
+        return result;
+    }
+
+    private async save<T>(mutation: Mutation<T>, release: () => void): Promise<T> {
+        let value: SavedMutation = {
+            dataType: mutation.dataType,
+            failureMessage: mutation.failureMessage,
+            request: mutation.request,
+            username: Store.store.state.userState.username
+        };
+        // If the mutation can't be stored, it is still sent later during this session.
+        let key = await offlineStore.put('mutations', value);
+        this.saved.push({ key, release, value });
+        this.updatePending();
+        this.scheduleSync();
+        return mutation.queuedResult;
+    }
+
+    private scheduleSync() {
+        if (this.syncTimeout === 0) {
+            this.syncTimeout = setTimeout(() => {
+                this.syncTimeout = 0;
+                this.sync();
+            }, circuitBreakerPolicy.resetTimeout);
+        }
+    }
+
+    private async sendSaved() {
+        let pending = this.getPending();
+        while (pending.length) {
+            let entry = pending[0];
+            // Every open tab restores the saved mutations, so each is claimed before it is sent. A
+            // mutation another tab has already claimed is left to that tab.
+            let claimed = entry.key === undefined
+                || await offlineStore.take<SavedMutation>('mutations', entry.key) !== undefined;
+            if (claimed) {
+                try {
+                    await sendRequest(entry.value.request);
+                } catch (error) {
+                    if (isConnectionError(error)) {
+                        if (entry.key !== undefined) {
+                            // Returned under its original key, so that it keeps its place in the order.
+                            await offlineStore.put('mutations', entry.value, entry.key);
+                        }
+                        this.setOffline(true);
+                        this.scheduleSync();
+                        this.updatePending();
+                        return;
+                    }
+                    ErrorMsg.logError('mutation-queue.sync', error);
+                    let message = error instanceof ConflictError
+                        ? `A change you made while offline conflicts with a change made by someone else, and was not saved. ${entry.value.failureMessage}`
+                        : `A change you made while offline could not be saved. ${entry.value.failureMessage}`;
+                    this.reportFailure(entry.value.dataType, message, error);
+                }
+            }
+            this.remove(entry);
+            queryCache.markStale(entry.value.dataType);
+            pending = this.getPending();
+        }
+        this.setOffline(false);
+        this.updatePending();
+    }
+
+    private setOffline(offline: boolean) {
+        if (this.offline !== offline) {
+            this.offline = offline;
+            Store.store.commit(Store.setOffline, offline);
+        }
+    }
+
+    private updatePending() {
+        Store.store.commit(Store.setPendingChanges, this.getPending().length);
+    }
+}
+
+/**
+ * The MutationQueue shared by all Repositories.
+ */
+export const mutationQueue = new MutationQueue();
\ No newline at end of file
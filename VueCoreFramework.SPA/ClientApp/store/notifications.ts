@@ -0,0 +1,101 @@
+﻿import { NotificationSettingsViewModel } from './messaging';
+
+/**
+ * Controls how notifications of new messages are shown.
+ */
+export interface NotificationPolicy {
+    /**
+     * How long a notification is shown before it is closed, in milliseconds.
+     */
+    closeTimeout: number;
+}
+
+/**
+ * The notification policy used for all chats. May be modified at startup to suit the deployment.
+ */
+export const notificationPolicy: NotificationPolicy = {
+    closeTimeout: 10000
+};
+
+function getMinutes(time: string): number {
+    let parts = time.split(':');
+    return parseInt(parts[0], 10) * 60 + parseInt(parts[1], 10);
+}
+
+/**
+ * Gets whether the user has allowed notifications to be shown: 'granted', 'denied', 'default' if
+ * they have not yet been asked, or 'unsupported' if the browser cannot show them.
+ */
+export function getNotificationPermission(): string {
+    return typeof Notification === 'undefined' ? 'unsupported' : window.Notification.permission;
+}
+
+/**
+ * Determines whether the given chat has been muted by the user.
+ * @param {NotificationSettingsViewModel} settings The user's notification settings.
+ * @param {string} username The name of the other participant in a conversation.
+ * @param {string} group The name of a group, instead of a conversation.
+ */
+export function isChatMuted(settings: NotificationSettingsViewModel, username: string, group?: string): boolean {
+    return group
+        ? settings.mutedGroups.indexOf(group) !== -1
+        : settings.mutedUsers.indexOf(username) !== -1;
+}
+
+/**
+ * Determines whether the given time falls within the user's do-not-disturb period.
+ * @param {NotificationSettingsViewModel} settings The user's notification settings.
+ * @param {Date} date The time to check, in the user's own time zone. Defaults to now.
+ */
+export function isDoNotDisturb(settings: NotificationSettingsViewModel, date = new Date()): boolean {
+    if (!settings.doNotDisturbStart || !settings.doNotDisturbEnd) {
+        return false;
+    }
+    let start = getMinutes(settings.doNotDisturbStart);
+    let end = getMinutes(settings.doNotDisturbEnd);
+    let now = date.getHours() * 60 + date.getMinutes();
+    if (start <= end) {
+        return now >= start && now < end;
+    }
+    // The period spans midnight.
+    return now >= start || now < end;
+}
+
+/**
+ * Asks the user to allow notifications to be shown, if they have not already been asked.
+ * @returns {string} The resulting permission (see getNotificationPermission).
+ */
+export function requestNotificationPermission(): Promise<string> {
+    if (typeof Notification === 'undefined') {
+        return Promise.resolve('unsupported');
+    }
+    return new Promise<string>(resolve => {
+        // Older browsers report the result only to a callback, and don't return a promise.
+        let result = Notification.requestPermission(resolve);
+        if (result) {
+            result.then(resolve);
+        }
+    });
+}
+
+/**
+ * Shows a notification, provided the user has allowed them and the page is in the background.
+ * @param {string} title The title of the notification.
+ * @param {string} body The text of the notification.
+ * @param {string} tag Identifies the chat concerned, so that a newer notification for the same
+ * chat replaces an older one.
+ * @param {Function} onClick Called when the user clicks the notification, after the page has been
+ * focused.
+ */
+export function showNotification(title: string, body: string, tag: string, onClick: () => void) {
+    if (getNotificationPermission() !== 'granted' || !document.hidden) {
+        return;
+    }
+    let notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+        window.focus();
+        notification.close();
+        onClick();
+    };
+    setTimeout(() => notification.close(), notificationPolicy.closeTimeout);
+}
\ No newline at end of file
@@ -0,0 +1,168 @@
+﻿import * as ErrorMsg from '../error-msg';
+
+/**
+ * The names of the object stores in the offline database.
+ */
+export type OfflineStoreName = 'entities' | 'mutations' | 'queries';
+
+const databaseName = 'VueCoreFramework';
+const databaseVersion = 1;
+
+function toPromise<T>(request: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Persists data in the browser's IndexedDB database, so that it remains available while the
+ * connection is lost, and after the page is reloaded.
+ *
+ * Every operation is best-effort: if IndexedDB is unavailable (e.g. in private browsing), reads
+ * find nothing and writes are discarded, and the application continues without offline support.
+ */
+export class OfflineStore {
+    private database: Promise<IDBDatabase> = null;
+
+    /**
+     * Removes all records from an object store.
+     * @param {OfflineStoreName} storeName The name of the object store.
+     */
+    clear(storeName: OfflineStoreName): Promise<void> {
+        return this.run(storeName, 'readwrite', store => store.clear(), undefined);
+    }
+
+    /**
+     * Removes a record from an object store.
+     * @param {OfflineStoreName} storeName The name of the object store.
+     * @param key The key of the record.
+     */
+    delete(storeName: OfflineStoreName, key: string | number): Promise<void> {
+        return this.run(storeName, 'readwrite', store => store.delete(key), undefined);
+    }
+
+    /**
+     * Retrieves a record from an object store.
+     * @param {OfflineStoreName} storeName The name of the object store.
+     * @param key The key of the record.
+     * @returns {T} The record, or undefined if there is none.
+     */
+    get<T>(storeName: OfflineStoreName, key: string | number): Promise<T> {
+        return this.run<T>(storeName, 'readonly', store => store.get(key), undefined);
+    }
+
+    /**
+     * Retrieves all the records in an object store, in the order of their keys.
+     * @param {OfflineStoreName} storeName The name of the object store.
+     * @returns {Array} The keys and values of the records.
+     */
+    async getAll<T>(storeName: OfflineStoreName): Promise<{ key: any, value: T }[]> {
+        let db = await this.open();
+        if (!db) {
+            return [];
+        }
+        return new Promise<{ key: any, value: T }[]>((resolve, reject) => {
+            let records: { key: any, value: T }[] = [];
+            let request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+            request.onsuccess = () => {
+                let cursor: IDBCursorWithValue = request.result;
+                if (cursor) {
+                    records.push({ key: cursor.key, value: cursor.value });
+                    cursor.continue();
+                } else {
+                    resolve(records);
+                }
+            };
+            request.onerror = () => reject(request.error);
+        }).catch(error => {
+            ErrorMsg.logError('offline-store.getAll', error);
+            return [];
+        });
+    }
+
+    /**
+     * Adds or replaces a record in an object store.
+     * @param {OfflineStoreName} storeName The name of the object store.
+     * @param value The record.
+     * @param key The key of the record. Omitted for the mutations store, whose keys are generated
+     * in ascending order.
+     * @returns The key of the record.
+     */
+    put(storeName: OfflineStoreName, value: any, key?: string | number): Promise<any> {
+        return this.run(storeName, 'readwrite', store => key === undefined ? store.put(value) : store.put(value, key), undefined);
+    }
+
+    /**
+     * Removes a record from an object store, and returns it. The record is read and removed in a
+     * single transaction, so when several tabs take the same record only one of them receives it.
+     * @param {OfflineStoreName} storeName The name of the object store.
+     * @param key The key of the record.
+     * @returns {T} The record, or undefined if there is none (e.g. because another tab took it first).
+     */
+    async take<T>(storeName: OfflineStoreName, key: string | number): Promise<T> {
+        let db = await this.open();
+        if (!db) {
+            return undefined;
+        }
+        return new Promise<T>((resolve, reject) => {
+            let transaction = db.transaction(storeName, 'readwrite');
+            let store = transaction.objectStore(storeName);
+            let value: T;
+            let request = store.get(key);
+            request.onsuccess = () => {
+                value = request.result;
+                if (value !== undefined) {
+                    store.delete(key);
+                }
+            };
+            transaction.oncomplete = () => resolve(value);
+            transaction.onerror = () => reject(transaction.error);
+        }).catch(error => {
+            ErrorMsg.logError('offline-store.take', error);
+            return undefined;
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise<IDBDatabase>(resolve => {
+                if (typeof indexedDB === 'undefined') {
+                    resolve(null);
+                    return;
+                }
+                let request = indexedDB.open(databaseName, databaseVersion);
+                request.onupgradeneeded = () => {
+                    let db: IDBDatabase = request.result;
+                    db.createObjectStore('entities');
+                    db.createObjectStore('mutations', { autoIncrement: true });
+                    db.createObjectStore('queries');
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    ErrorMsg.logError('offline-store.open', request.error);
+                    resolve(null);
+                };
+            });
+        }
+        return this.database;
+    }
+
+    private async run<T>(storeName: OfflineStoreName, mode: 'readonly' | 'readwrite', operation: (store: IDBObjectStore) => IDBRequest, fallback: T): Promise<T> {
+        try {
+            let db = await this.open();
+            if (!db) {
+                return fallback;
+            }
+            return await toPromise<T>(operation(db.transaction(storeName, mode).objectStore(storeName)));
+        } catch (error) {
+            ErrorMsg.logError(`offline-store.${mode === 'readonly' ? 'read' : 'write'}`, error);
+            return fallback;
+        }
+    }
+}
+
+/**
+ * The OfflineStore shared by the QueryCache and MutationQueue.
+ */
+export const offlineStore = new OfflineStore();
\ No newline at end of file
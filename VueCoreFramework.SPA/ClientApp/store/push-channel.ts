@@ -0,0 +1,200 @@
+﻿import * as Api from '../api';
+import * as ErrorMsg from '../error-msg';
+import * as Store from './store';
+
+/**
+ * The types of event delivered by the API's event stream.
+ */
+export type PushEventType = 'conversations' | 'groups' | 'mentions' | 'messages' | 'notificationSettings' | 'permissions' | 'receipts' | 'systemMessages' | 'typing';
+
+/**
+ * An event delivered by the API's event stream.
+ */
+export interface PushEvent {
+    /**
+     * The type of the event.
+     */
+    type: PushEventType;
+
+    /**
+     * Set when the event was raised by the channel itself to catch up on changes it may have
+     * missed (after connecting, or while polling), rather than pushed by the API.
+     */
+    catchUp?: boolean;
+
+    /**
+     * For permissions events, the type of data whose sharing changed, if only one type is affected.
+     */
+    dataType?: string;
+
+    /**
+     * For messages events, the name of the group in whose chat a message was sent. For receipts
+     * and typing events, the name of the group whose chat the event concerns.
+     */
+    group?: string;
+
+    /**
+     * For permissions events, the primary key of the item whose sharing changed, if only one item
+     * is affected.
+     */
+    id?: string;
+
+    /**
+     * For messages events caused by a change to an existing message (rather than a new one), the
+     * id of the message.
+     */
+    messageId?: string;
+
+    /**
+     * For messages events, the name of the other participant in the conversation in which a
+     * message was sent. For typing events, the name of the user who is typing.
+     */
+    username?: string;
+}
+
+/**
+ * Controls how the PushChannel reconnects, and how it finds changes while it is disconnected.
+ */
+export interface PushPolicy {
+    /**
+     * The delay before the first attempt to reconnect, in milliseconds. Doubled after each
+     * consecutive failure.
+     */
+    reconnectDelay: number;
+
+    /**
+     * The longest delay between attempts to reconnect, in milliseconds.
+     */
+    maxReconnectDelay: number;
+
+    /**
+     * How often changes are polled for while the channel is disconnected, in milliseconds.
+     */
+    pollInterval: number;
+}
+
+/**
+ * The push policy used by the PushChannel. May be modified at startup to suit the deployment.
+ */
+export const pushPolicy: PushPolicy = {
+    reconnectDelay: 1000,
+    maxReconnectDelay: 60000,
+    pollInterval: 10000
+};
+
+const eventTypes: PushEventType[] = ['conversations', 'groups', 'mentions', 'messages', 'notificationSettings', 'permissions', 'receipts', 'systemMessages', 'typing'];
+
+/**
+ * Receives events from the API as they happen, and passes them to the store. While the browser
+ * doesn't support Server-Sent Events, or the connection is lost, changes are polled for instead.
+ */
+export class PushChannel {
+    private failures = 0;
+
+    private pollTimeout = 0;
+
+    private reconnectTimeout = 0;
+
+    private source: EventSource = null;
+
+    private username: string = null;
+
+    /**
+     * Opens the channel for the current user, unless it is already open for them.
+     */
+    start() {
+        let username = Store.store.state.userState.username;
+        if (this.username === username) {
+            return;
+        }
+        this.stop();
+        this.username = username;
+        this.connect();
+    }
+
+    /**
+     * Closes the channel, and stops polling.
+     */
+    stop() {
+        this.username = null;
+        this.failures = 0;
+        if (this.source) {
+            this.source.close();
+            this.source = null;
+        }
+        clearTimeout(this.pollTimeout);
+        this.pollTimeout = 0;
+        clearTimeout(this.reconnectTimeout);
+        this.reconnectTimeout = 0;
+    }
+
+    private connect() {
+        this.reconnectTimeout = 0;
+        let user = Store.store.state.userState.user;
+        if (!user) {
+            return;
+        }
+        if (typeof EventSource === 'undefined') {
+            this.poll();
+            return;
+        }
+        // The token is read on each attempt, since it is renewed while the user is signed in.
+        let source = new EventSource(`${Api.urls.apiUrl}api/Event/Subscribe?access_token=${encodeURIComponent(user.access_token)}`);
+        source.onopen = () => {
+            let reconnected = this.failures > 0;
+            this.failures = 0;
+            clearTimeout(this.pollTimeout);
+            this.pollTimeout = 0;
+            // Catch up on anything which happened while the channel was closed.
+            this.refreshAll(reconnected);
+        };
+        source.onerror = () => {
+            // The browser would reconnect with the original (possibly expired) token, so the
+            // channel reconnects by itself instead.
+            source.close();
+            if (this.source === source) {
+                this.source = null;
+                this.onDisconnected();
+            }
+        };
+        eventTypes.forEach(type => source.addEventListener(type, (e: MessageEvent) => this.receive(type, e.data)));
+        this.source = source;
+    }
+
+    private onDisconnected() {
+        if (this.pollTimeout === 0) {
+            this.pollTimeout = setTimeout(() => this.poll(), pushPolicy.pollInterval);
+        }
+        let delay = Math.min(pushPolicy.reconnectDelay * Math.pow(2, this.failures), pushPolicy.maxReconnectDelay);
+        this.failures++;
+        this.reconnectTimeout = setTimeout(() => this.connect(), delay);
+    }
+
+    private poll() {
+        this.refreshAll();
+        this.pollTimeout = setTimeout(() => this.poll(), pushPolicy.pollInterval);
+    }
+
+    private receive(type: PushEventType, data: string) {
+        try {
+            let event: PushEvent = data ? JSON.parse(data) : {};
+            event.type = type;
+            Store.store.dispatch(Store.receivePushEvent, event);
+        } catch (error) {
+            ErrorMsg.logError('push-channel.receive', error);
+        }
+    }
+
+    private refreshAll(reconnected = false) {
+        // Stored permissions expire by themselves, so they are only discarded to catch up on
+        // changes missed while the connection was lost, not on every connection or poll.
+        eventTypes
+            .filter(type => type !== 'permissions' || reconnected)
+            .forEach(type => Store.store.dispatch(Store.receivePushEvent, <PushEvent>{ type, catchUp: true }));
+    }
+}
+
+/**
+ * The PushChannel of the signed-in user.
+ */
+export const pushChannel = new PushChannel();
\ No newline at end of file
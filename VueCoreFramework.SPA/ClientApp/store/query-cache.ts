@@ -0,0 +1,429 @@
+﻿import * as Store from './store';
+import { CancelledError, isConnectionError, NotFoundError } from '../api-error';
+import { offlineStore } from './offline-store';
+import { DataItem, PageData } from './repository';
+import * as ErrorMsg from '../error-msg';
+
+/**
+ * Controls how long cached data is used.
+ */
+export interface CachePolicy {
+    /**
+     * How long cached data is used without being revalidated, in milliseconds.
+     */
+    freshFor: number;
+
+    /**
+     * How long cached data may be used at all, in milliseconds. Data older than freshFor, but
+     * younger than maxAge, is used while it is revalidated in the background.
+     */
+    maxAge: number;
+}
+
+/**
+ * The cache policy used for all data. May be modified at startup to suit the deployment.
+ */
+export const cachePolicy: CachePolicy = {
+    freshFor: 15000,
+    maxAge: 300000
+};
+
+interface CacheEntry {
+    /**
+     * The time at which the data was retrieved, as returned by Date.now().
+     */
+    fetchedAt: number;
+
+    /**
+     * Indicates that the data is known to be out of date, and should be revalidated before its
+     * freshFor period has elapsed.
+     */
+    stale: boolean;
+}
+
+interface EntityEntry extends CacheEntry {
+    item: DataItem;
+}
+
+/**
+ * The optimistic changes of a single pending mutation, keyed by data type and primary key. Removed
+ * items are null.
+ */
+interface PendingChanges {
+    [key: string]: DataItem;
+}
+
+interface SavedQuery {
+    continuationToken: string;
+    ids: string[];
+    totalItems: number;
+}
+
+interface QueryEntry extends CacheEntry, SavedQuery { }
+
+type Freshness = 'fresh' | 'stale' | 'expired';
+
+function getFreshness(entry: CacheEntry): Freshness {
+    if (!entry) {
+        return 'expired';
+    }
+    let age = Date.now() - entry.fetchedAt;
+    if (age >= cachePolicy.maxAge) {
+        return 'expired';
+    }
+    return entry.stale || age >= cachePolicy.freshFor ? 'stale' : 'fresh';
+}
+
+function getId(item: DataItem): string {
+    return String(item[item.primaryKeyProperty]);
+}
+
+// Saved copies are kept separately for each user and culture, since the data reflects both.
+function getSavedKey(key: string): string {
+    let userState = Store.store.state.userState;
+    return `${userState.username}/${userState.culture}/${key}`;
+}
+
+/**
+ * A normalized cache of the items retrieved by Repositories, keyed by data type and primary key.
+ * Pages of items are cached as lists of primary keys, so that every cached page reflects the
+ * latest known state of each of its items.
+ *
+ * Views displaying cached data should refresh whenever the store's dataVersion changes, which
+ * happens when the cache is invalidated, or when a background revalidation finds changes.
+ *
+ * Retrieved data is also saved in the OfflineStore, separately for each user and culture, so that it
+ * survives a reload. While the API can't be reached, the last saved copy of an item or page is used
+ * in place of data which has expired.
+ */
+export class QueryCache {
+    private entities: { [dataType: string]: { [id: string]: EntityEntry } } = {};
+
+    private pending: PendingChanges[] = [];
+
+    private queries: { [dataType: string]: { [key: string]: QueryEntry } } = {};
+
+    private revalidating: { [key: string]: boolean } = {};
+
+    /**
+     * Applies the expected result of a pending mutation to the cached data, so that views reflect
+     * it before the mutation completes. The changes take precedence over any cached data, even if
+     * it is revalidated in the meantime, until they are released.
+     * @param {string} dataType The data type under which the changed items are cached.
+     * @param {string[]} removedIds The primary keys of items which will be removed.
+     * @param {DataItem[]} updatedItems Items which will be updated. Each must have its primaryKeyProperty.
+     * @returns {Function} A function which releases the changes, once the mutation has either
+     * been applied to the cache or failed.
+     */
+    applyPending(dataType: string, removedIds: string[], updatedItems: DataItem[] = []): () => void {
+        let changes: PendingChanges = {};
+        for (var i = 0; i < removedIds.length; i++) {
+            changes[`${dataType}/${removedIds[i]}`] = null;
+        }
+        for (var i = 0; i < updatedItems.length; i++) {
+            // Updates may omit properties, which keep their cached values.
+            let key = `${dataType}/${getId(updatedItems[i])}`;
+            changes[key] = Object.assign({}, this.findItem(key), updatedItems[i]);
+        }
+        this.pending.push(changes);
+        this.notify();
+        return () => {
+            let index = this.pending.indexOf(changes);
+            if (index !== -1) {
+                this.pending.splice(index, 1);
+                this.notify();
+            }
+        };
+    }
+
+    /**
+     * Discards all cached data held in memory.
+     * @param {boolean} discardSaved Whether the copies saved in the OfflineStore are also discarded,
+     * for every user.
+     */
+    clear(discardSaved = false) {
+        this.entities = {};
+        this.queries = {};
+        if (discardSaved) {
+            offlineStore.clear('entities');
+            offlineStore.clear('queries');
+        }
+    }
+
+    /**
+     * Retrieves an item, from the cache if possible.
+     * @param {string} dataType The data type of the item.
+     * @param {string} id The primary key of the item.
+     * @param {Function} fetch A function which retrieves the item from the API.
+     * @param {AbortSignal} signal An optional signal which cancels the retrieval, if one is needed.
+     * @returns {T} The item, or null if it is being removed.
+     */
+    async getItem<T extends DataItem>(dataType: string, id: string, fetch: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        let pending = this.findPending(`${dataType}/${id}`);
+        if (pending === null) {
+            return null;
+        } else if (pending !== undefined) {
+            return Object.assign({}, pending) as T;
+        }
+        let entry = this.entities[dataType] && this.entities[dataType][id];
+        let freshness = getFreshness(entry);
+        if (freshness === 'expired') {
+            let item: T;
+            try {
+                item = await fetch(signal);
+            } catch (error) {
+                let saved = isConnectionError(error) ? await this.restoreItem(dataType, id) : null;
+                if (!saved) {
+                    throw error;
+                }
+                return Object.assign({}, saved) as T;
+            }
+            this.setItem(dataType, item);
+            return Object.assign({}, item);
+        }
+        if (freshness === 'stale') {
+            this.revalidate(`${dataType}/${id}`, async () => {
+                try {
+                    let item = await fetch();
+                    let changed = JSON.stringify(item) !== JSON.stringify(entry.item);
+                    this.setItem(dataType, item);
+                    return changed;
+                } catch (error) {
+                    if (error instanceof NotFoundError) {
+                        this.removeItems(dataType, [id]);
+                        return true;
+                    }
+                    throw error;
+                }
+            });
+        }
+        return Object.assign({}, entry.item) as T;
+    }
+
+    /**
+     * Retrieves a page of items, from the cache if possible.
+     * @param {string} dataType The data type which owns the query.
+     * @param {string} key A key which uniquely identifies the query's parameters.
+     * @param {string} itemType The data type under which the page's items are cached.
+     * @param {Function} fetch A function which retrieves the page from the API.
+     * @param {AbortSignal} signal An optional signal which cancels the retrieval, if one is needed.
+     * @returns {PageData<T>} The page of items.
+     */
+    async getPage<T extends DataItem>(
+        dataType: string,
+        key: string,
+        itemType: string,
+        fetch: (signal?: AbortSignal) => Promise<PageData<T>>,
+        signal?: AbortSignal): Promise<PageData<T>> {
+        let entry = this.queries[dataType] && this.queries[dataType][key];
+        let freshness = getFreshness(entry);
+        if (freshness === 'expired') {
+            let page: PageData<T>;
+            try {
+                page = await fetch(signal);
+            } catch (error) {
+                let saved = isConnectionError(error) ? await this.restorePage(dataType, key) : null;
+                if (!saved) {
+                    throw error;
+                }
+                return this.readPage(saved) as PageData<T>;
+            }
+            this.setPage(dataType, key, itemType, page);
+            return this.readPage(this.queries[dataType][key]) as PageData<T>;
+        }
+        let cached = this.readPage(entry) as PageData<T>;
+        if (freshness === 'stale') {
+            this.revalidate(`${dataType}?${key}`, async () => {
+                let page = await fetch();
+                let changed = JSON.stringify(page) !== JSON.stringify(this.readPage(entry));
+                this.setPage(dataType, key, itemType, page);
+                return changed;
+            });
+        }
+        return cached;
+    }
+
+    /**
+     * Marks cached data as out of date, so that it is revalidated the next time it is used. All
+     * cached pages are marked, since any of them may include or depend on the changed items.
+     * @param {string} dataType The data type of the changed items, if any.
+     * @param {string[]} ids The primary keys of the changed items, if any.
+     */
+    markStale(dataType?: string, ids: string[] = []) {
+        for (var type in this.queries) {
+            for (var key in this.queries[type]) {
+                this.queries[type][key].stale = true;
+            }
+        }
+        let entities = this.entities[dataType];
+        for (var i = 0; entities && i < ids.length; i++) {
+            if (entities[ids[i]]) {
+                entities[ids[i]].stale = true;
+            }
+        }
+        this.notify();
+    }
+
+    /**
+     * Removes items from the cache, including from any cached pages.
+     * @param {string} dataType The data type of the items.
+     * @param {string[]} ids The primary keys of the items.
+     */
+    removeItems(dataType: string, ids: string[]) {
+        for (var i = 0; i < ids.length; i++) {
+            if (this.entities[dataType]) {
+                delete this.entities[dataType][ids[i]];
+            }
+            offlineStore.delete('entities', getSavedKey(`${dataType}/${ids[i]}`));
+        }
+        this.markStale();
+    }
+
+    /**
+     * Adds an item to the cache, or replaces the cached copy with a newer one.
+     * @param {string} dataType The data type of the item.
+     * @param {DataItem} item The item.
+     */
+    setItem(dataType: string, item: DataItem) {
+        if (!item || !item.primaryKeyProperty) {
+            return;
+        }
+        if (!this.entities[dataType]) {
+            this.entities[dataType] = {};
+        }
+        this.entities[dataType][getId(item)] = {
+            fetchedAt: Date.now(),
+            item: Object.assign({}, item),
+            stale: false
+        };
+        offlineStore.put('entities', item, getSavedKey(`${dataType}/${getId(item)}`));
+    }
+
+    private notify() {
+        Store.store.commit(Store.notifyDataChanged);
+    }
+
+    private prune(dataType: string) {
+        let queries = this.queries[dataType];
+        for (var key in queries) {
+            if (getFreshness(queries[key]) === 'expired') {
+                delete queries[key];
+            }
+        }
+    }
+
+    private readPage(entry: QueryEntry): PageData<DataItem> {
+        // Items removed since the page was cached are left out.
+        let pageItems: DataItem[] = [];
+        for (var i = 0; i < entry.ids.length; i++) {
+            let item = this.findItem(entry.ids[i]);
+            if (item) {
+                pageItems.push(Object.assign({}, item));
+            }
+        }
+        return {
+            continuationToken: entry.continuationToken,
+            pageItems,
+            totalItems: entry.totalItems - (entry.ids.length - pageItems.length)
+        };
+    }
+
+    private findItem(key: string): DataItem {
+        let pending = this.findPending(key);
+        if (pending !== undefined) {
+            return pending;
+        }
+        let separator = key.indexOf('/');
+        let types = this.entities[key.substring(0, separator)];
+        let entry = types && types[key.substring(separator + 1)];
+        return entry ? entry.item : null;
+    }
+
+    private findPending(key: string): DataItem {
+        // The most recent mutation's changes take precedence.
+        for (var i = this.pending.length - 1; i >= 0; i--) {
+            if (key in this.pending[i]) {
+                return this.pending[i][key];
+            }
+        }
+        return undefined;
+    }
+
+    private async restoreItem(dataType: string, id: string): Promise<DataItem> {
+        // The saved copy is marked stale, so that it is replaced as soon as the API can be reached.
+        let item = await offlineStore.get<DataItem>('entities', getSavedKey(`${dataType}/${id}`));
+        if (!item) {
+            return null;
+        }
+        if (!this.entities[dataType]) {
+            this.entities[dataType] = {};
+        }
+        this.entities[dataType][id] = { fetchedAt: Date.now(), item, stale: true };
+        return item;
+    }
+
+    private async restorePage(dataType: string, key: string): Promise<QueryEntry> {
+        // The saved copy is marked stale, so that it is replaced as soon as the API can be reached.
+        let saved = await offlineStore.get<SavedQuery>('queries', getSavedKey(`${dataType}/${key}`));
+        if (!saved) {
+            return null;
+        }
+        for (var i = 0; i < saved.ids.length; i++) {
+            let separator = saved.ids[i].indexOf('/');
+            let itemType = saved.ids[i].substring(0, separator);
+            let id = saved.ids[i].substring(separator + 1);
+            if (!this.entities[itemType] || !this.entities[itemType][id]) {
+                await this.restoreItem(itemType, id);
+            }
+        }
+        if (!this.queries[dataType]) {
+            this.queries[dataType] = {};
+        }
+        let entry: QueryEntry = Object.assign({ fetchedAt: Date.now(), stale: true }, saved);
+        this.queries[dataType][key] = entry;
+        return entry;
+    }
+
+    private async revalidate(key: string, refresh: () => Promise<boolean>) {
+        // Only one revalidation of each entry runs at a time.
+        if (this.revalidating[key]) {
+            return;
+        }
+        this.revalidating[key] = true;
+        try {
+            if (await refresh()) {
+                this.notify();
+            }
+        } catch (error) {
+            // The cached data remains in use; it will be revalidated again on next use.
+            if (!(error instanceof CancelledError) && !isConnectionError(error)) {
+                ErrorMsg.logError('query-cache.revalidate', error);
+            }
+        }
+        delete this.revalidating[key];
+    }
+
+    private setPage(dataType: string, key: string, itemType: string, page: PageData<DataItem>) {
+        if (!this.queries[dataType]) {
+            this.queries[dataType] = {};
+        }
+        this.prune(dataType);
+        let ids: string[] = [];
+        for (var i = 0; i < page.pageItems.length; i++) {
+            this.setItem(itemType, page.pageItems[i]);
+            ids.push(`${itemType}/${getId(page.pageItems[i])}`);
+        }
+        let saved: SavedQuery = {
+            continuationToken: page.continuationToken,
+            ids,
+            totalItems: page.totalItems
+        };
+        this.queries[dataType][key] = Object.assign({ fetchedAt: Date.now(), stale: false }, saved);
+        offlineStore.put('queries', saved, getSavedKey(`${dataType}/${key}`));
+    }
+}
+
+/**
+ * The QueryCache shared by all Repositories.
+ */
+export const queryCache = new QueryCache();
@@ -0,0 +1,288 @@
+﻿/**
+ * The comparisons which a FieldFilter may perform.
+ */
+export type FilterOperator = 'contains' | 'eq' | 'gt' | 'gte' | 'in' | 'lt' | 'lte' | 'ne' | 'notNull' | 'null' | 'range';
+
+/**
+ * A comparison between a property of an item and one or more values.
+ */
+export interface FieldFilter {
+    /**
+     * The name of the property being compared.
+     */
+    field: string;
+
+    /**
+     * For the range operator, the inclusive lower bound. If omitted the range has no lower bound.
+     */
+    from?: any;
+
+    /**
+     * The comparison to perform.
+     */
+    operator: FilterOperator;
+
+    /**
+     * For the range operator, the inclusive upper bound. If omitted the range has no upper bound.
+     */
+    to?: any;
+
+    /**
+     * The value to which the property is compared, for all operators except range, in, null, and notNull.
+     */
+    value?: any;
+
+    /**
+     * For the in operator, the list of values, any of which the property may equal.
+     */
+    values?: any[];
+}
+
+/**
+ * A set of filters and nested groups, which are combined with a single logical operator.
+ */
+export interface FilterGroup {
+    /**
+     * The filters in the group.
+     */
+    filters: FieldFilter[];
+
+    /**
+     * Nested groups, which are combined with the filters of this group.
+     */
+    groups: FilterGroup[];
+
+    /**
+     * 'and' requires every filter and group to match; 'or' requires any one of them to match.
+     */
+    logic: 'and' | 'or';
+}
+
+/**
+ * A property used to sort items.
+ */
+export interface SortDescriptor {
+    /**
+     * Indicates whether the sort is descending; if false, the sort is ascending.
+     */
+    descending: boolean;
+
+    /**
+     * The name of the property used to sort the items.
+     */
+    field: string;
+}
+
+/**
+ * A structured query which filters and sorts items before a page is calculated.
+ *
+ * Sent to the API as JSON in the 'query' query string parameter of GetPage and GetChildPage, e.g.:
+ * {"filter":{"logic":"and","filters":[{"field":"population","operator":"range","from":1000}],
+ * "groups":[{"logic":"or","filters":[...],"groups":[]}]},"sort":[{"field":"name","descending":true}]}
+ *
+ * Field names are the ViewModel property names. Values are compared with the property's actual
+ * value rather than its string representation in the ViewModel, so numbers, booleans, enums (by
+ * integer value) and dates (as Date objects or ISO strings) may be given.
+ */
+export interface DataQuery {
+    /**
+     * The filters which items must match in order to be included.
+     */
+    filter?: FilterGroup;
+
+    /**
+     * The properties used to sort the items, in order of precedence. These apply after the table's
+     * own sort column, if any.
+     */
+    sort?: SortDescriptor[];
+}
+
+/**
+ * Builds a DataQuery for the given type of item. Each filter method adds a filter to the current
+ * group, and returns the builder so that calls may be chained.
+ */
+export class QueryBuilder<T = any> {
+    private group: FilterGroup;
+
+    private sorts: SortDescriptor[] = [];
+
+    /**
+     * Initializes a new instance of QueryBuilder.
+     * @param {string} logic The logical operator which combines the builder's top-level filters.
+     */
+    constructor(logic: 'and' | 'or' = 'and') {
+        this.group = { logic, filters: [], groups: [] };
+    }
+
+    /**
+     * Adds a nested group, whose filters must all match.
+     * @param {Function} build A function which adds filters to the nested group's builder.
+     */
+    and(build: (query: QueryBuilder<T>) => void): this {
+        return this.addGroup('and', build);
+    }
+
+    /**
+     * Adds a filter which requires the property to fall within an inclusive range. Either bound
+     * may be omitted (null or undefined) to leave the range open on that side.
+     * @param {string} field The name of the property.
+     * @param from The lower bound.
+     * @param to The upper bound.
+     */
+    between(field: keyof T, from: any, to: any): this {
+        return this.where(field, 'range', { from, to });
+    }
+
+    /**
+     * Builds the DataQuery represented by this builder.
+     * @returns {DataQuery} The query.
+     */
+    build(): DataQuery {
+        let query: DataQuery = {};
+        if (this.group.filters.length || this.group.groups.length) {
+            query.filter = this.group;
+        }
+        if (this.sorts.length) {
+            query.sort = this.sorts;
+        }
+        return query;
+    }
+
+    /**
+     * Adds a filter which requires the property's text to contain the given text, ignoring case.
+     * @param {string} field The name of the property.
+     * @param {string} text The text to find.
+     */
+    contains(field: keyof T, text: string): this {
+        return this.where(field, 'contains', { value: text });
+    }
+
+    /**
+     * Adds a filter which requires the property to equal the given value.
+     * @param {string} field The name of the property.
+     * @param value The value.
+     */
+    equals(field: keyof T, value: any): this {
+        return this.where(field, 'eq', { value });
+    }
+
+    /**
+     * Adds a filter which requires the property to be greater than the given value.
+     * @param {string} field The name of the property.
+     * @param value The value.
+     * @param {boolean} inclusive Whether the property may also equal the value.
+     */
+    greaterThan(field: keyof T, value: any, inclusive = false): this {
+        return this.where(field, inclusive ? 'gte' : 'gt', { value });
+    }
+
+    /**
+     * Adds a filter which requires the property to equal any of the given values.
+     * @param {string} field The name of the property.
+     * @param {Array} values The values.
+     */
+    in(field: keyof T, values: any[]): this {
+        return this.where(field, 'in', { values });
+    }
+
+    /**
+     * Determines whether the builder has any filters or sorts.
+     */
+    isEmpty(): boolean {
+        return !this.group.filters.length && !this.group.groups.length && !this.sorts.length;
+    }
+
+    /**
+     * Adds a filter which requires the property to have a value.
+     * @param {string} field The name of the property.
+     */
+    isNotNull(field: keyof T): this {
+        return this.where(field, 'notNull');
+    }
+
+    /**
+     * Adds a filter which requires the property to have no value.
+     * @param {string} field The name of the property.
+     */
+    isNull(field: keyof T): this {
+        return this.where(field, 'null');
+    }
+
+    /**
+     * Adds a filter which requires the property to be less than the given value.
+     * @param {string} field The name of the property.
+     * @param value The value.
+     * @param {boolean} inclusive Whether the property may also equal the value.
+     */
+    lessThan(field: keyof T, value: any, inclusive = false): this {
+        return this.where(field, inclusive ? 'lte' : 'lt', { value });
+    }
+
+    /**
+     * Adds a filter which requires the property not to equal the given value.
+     * @param {string} field The name of the property.
+     * @param value The value.
+     */
+    notEquals(field: keyof T, value: any): this {
+        return this.where(field, 'ne', { value });
+    }
+
+    /**
+     * Adds a nested group, any one of whose filters must match.
+     * @param {Function} build A function which adds filters to the nested group's builder.
+     */
+    or(build: (query: QueryBuilder<T>) => void): this {
+        return this.addGroup('or', build);
+    }
+
+    /**
+     * Adds a property to sort by. Sorts apply in the order they are added.
+     * @param {string} field The name of the property.
+     * @param {boolean} descending Whether the sort is descending.
+     */
+    orderBy(field: keyof T, descending = false): this {
+        this.sorts.push({ field, descending });
+        return this;
+    }
+
+    /**
+     * Serializes the query into the format expected by the API's 'query' parameter.
+     * @returns {string} The query as JSON, or an empty string if the builder is empty.
+     */
+    serialize(): string {
+        return this.isEmpty() ? '' : JSON.stringify(this.build());
+    }
+
+    /**
+     * Adds a filter with any operator.
+     * @param {string} field The name of the property.
+     * @param {FilterOperator} operator The comparison to perform.
+     * @param options The value(s) to which the property is compared, as required by the operator.
+     */
+    where(field: keyof T, operator: FilterOperator, options: { value?: any, from?: any, to?: any, values?: any[] } = {}): this {
+        let filter: FieldFilter = { field, operator };
+        if (options.value !== undefined) {
+            filter.value = options.value;
+        }
+        if (options.from !== undefined && options.from !== null) {
+            filter.from = options.from;
+        }
+        if (options.to !== undefined && options.to !== null) {
+            filter.to = options.to;
+        }
+        if (options.values !== undefined) {
+            filter.values = options.values;
+        }
+        this.group.filters.push(filter);
+        return this;
+    }
+
+    private addGroup(logic: 'and' | 'or', build: (query: QueryBuilder<T>) => void): this {
+        let builder = new QueryBuilder<T>(logic);
+        build(builder);
+        if (builder.group.filters.length || builder.group.groups.length) {
+            this.group.groups.push(builder.group);
+        }
+        return this;
+    }
+}
\ No newline at end of file
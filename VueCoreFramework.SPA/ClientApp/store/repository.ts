@@ -1,6 +1,10 @@
 ﻿import * as Api from '../api';
+import { ensureSuccess, NotFoundError } from '../api-error';
 import { checkResponse } from '../router';
 import { store } from './store';
+import { mutationQueue } from './mutation-queue';
+import { queryCache } from './query-cache';
+import { QueryBuilder } from './query';
 import { FieldDefinition } from '../vfg/vfg';
 import { validators } from '../vfg/vfg-custom-validators';
 import * as ErrorMsg from '../error-msg';
@@ -13,27 +17,81 @@ export interface DataItem {
      * The name of the property which contains this item's primary key.
      */
     primaryKeyProperty: string;
+
+    /**
+     * A token which identifies the stored version of the item. Updates based on an older version
+     * are rejected with a ConflictError.
+     */
+    versionToken?: string;
 }
 
 /**
  * A ViewModel used to receive a page of items from an API call.
  */
 export interface PageData<T> {
+    /**
+     * A token which may be used to request the page following this one, or null if this is the
+     * last page.
+     */
+    continuationToken?: string;
+
     /**
      * The array of items received from the API.
      */
     pageItems: T[];
 
     /**
-     * The total number of items in the type received from the API.
+     * The total number of items which matched the request, before paging.
      */
     totalItems: number;
 }
 
+function getPageQuery(
+    search: string,
+    dataQuery: QueryBuilder,
+    sortBy: string,
+    descending: boolean,
+    page: number,
+    rowsPerPage: number,
+    continuationToken: string): string[] {
+    let query: string[] = [];
+    if (search) {
+        query.push(`search=${encodeURIComponent(search)}`);
+    }
+    if (dataQuery && !dataQuery.isEmpty()) {
+        query.push(`query=${encodeURIComponent(dataQuery.serialize())}`);
+    }
+    if (sortBy) {
+        query.push(`sortBy=${encodeURIComponent(sortBy)}`);
+    }
+    if (descending) {
+        query.push(`descending=${descending}`);
+    }
+    if (page) {
+        query.push(`page=${page}`);
+    }
+    if (rowsPerPage) {
+        query.push(`rowsPerPage=${rowsPerPage}`);
+    }
+    if (continuationToken) {
+        query.push(`continuationToken=${encodeURIComponent(continuationToken)}`);
+    }
+    return query;
+}
+
 /**
- * Encapsulates data manipulation calls to the API for a particular data type.
+ * Encapsulates data manipulation calls to the API for a particular data type. Items and pages
+ * which are retrieved are cached in the shared QueryCache, and the cache is invalidated by each
+ * successful change.
+ *
+ * Changes to existing items are sent through the shared MutationQueue. Where the result can be
+ * predicted, it is reflected in the cache as soon as the change is made, and rolled back if the
+ * change fails.
+ *
+ * The type parameter is the interface of the data type's ViewModels. Interfaces for the
+ * application's data types are generated into models.ts, which also provides typed accessors.
  */
-export class Repository {
+export class Repository<T extends DataItem = DataItem> {
     dataType = '';
 
     fieldDefinitions: FieldDefinition[] = null;
@@ -49,18 +107,28 @@ export class Repository {
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} childProp An optional navigation property which will be set on the new object.
      * @param {string} parentId The primary key of the entity which will be set on the childProp property.
-     * @returns {DataItem} The newly added item.
+     * @returns {T} The newly added item, or null if the API can't be reached and the item will be
+     * added once the connection returns.
      */
-    async add(returnPath: string, childProp: string, parentId: string): Promise<DataItem> {
+    add(returnPath: string, childProp: string, parentId: string): Promise<T> {
         let url = `api/Data/${this.dataType}/Add`;
         if (childProp && parentId) {
             url += `/${childProp}/${parentId}`;
         }
-        let response = await Api.postApi(url, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        return response.json() as Promise<DataItem>;
+        return mutationQueue.enqueue<T>({
+            dataType: this.dataType,
+            failureMessage: 'The item could not be added.',
+            queueOffline: true,
+            queuedResult: null,
+            receive: async response => {
+                let item = await response.json() as T;
+                queryCache.setItem(this.dataType, item);
+                queryCache.markStale();
+                return item;
+            },
+            request: { relUrl: url },
+            returnPath
+        });
     }
 
     /**
@@ -72,63 +140,71 @@ export class Repository {
      * @param {string[]} ids The primary keys of the child entities which will be added.
      * @returns {Response} The response.
      */
-    async addChildrenToCollection(returnPath: string, id: string, childProp: string, ids: string[]) {
-        let response = await Api.postApi(`api/Data/${this.dataType}/AddChildrenToCollection/${id}/${childProp}`, returnPath, JSON.stringify(ids));
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    addChildrenToCollection(returnPath: string, id: string, childProp: string, ids: string[]): Promise<void> {
+        return mutationQueue.enqueue({
+            dataType: this.dataType,
+            failureMessage: 'The item(s) could not be added.',
+            queueOffline: true,
+            receive: () => queryCache.markStale(this.dataType, [id]),
+            request: {
+                relUrl: `api/Data/${this.dataType}/AddChildrenToCollection/${id}/${childProp}`,
+                body: JSON.stringify(ids)
+            },
+            returnPath
+        });
     }
 
     /**
      * Called to duplicate an entity in the database. Returns a ViewModel representing the new copy.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} id The primary key of the entity to be copied.
-     * @returns {DataItem} The new copy.
+     * @returns {T} The new copy.
      */
-    async duplicate(returnPath: string, id: string): Promise<DataItem> {
+    async duplicate(returnPath: string, id: string): Promise<T> {
         if (id === undefined || id === null || id === '') {
             throw new Error("The item id was missing from your request.");
         }
-        let response = await Api.getApi(`api/Data/${this.dataType}/Duplicate/${id}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        return response.json() as Promise<DataItem>;
+        // Duplicate is a GET, but is not safe to repeat.
+        let response = await Api.getApi(`api/Data/${this.dataType}/Duplicate/${id}`, returnPath, undefined, { retry: false });
+        await ensureSuccess(response);
+        let item = await response.json() as T;
+        queryCache.setItem(this.dataType, item);
+        queryCache.markStale();
+        return item;
     }
 
     /**
      * Called to find an entity with the given primary key value, or null.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} id The primary key of the entity to be found.
-     * @returns {DataItem} The item.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
+     * @returns {T} The item.
      */
-    async find(returnPath: string, id: string): Promise<DataItem> {
+    async find(returnPath: string, id: string, signal?: AbortSignal): Promise<T> {
         if (id === undefined || id === null || id === '') {
             throw new Error("The item id was missing from your request.");
         }
-        let response = await Api.getApi(`api/Data/${this.dataType}/Find/${id}`, returnPath);
-        if (!response.ok) {
+        return queryCache.getItem(this.dataType, id, async (signal?: AbortSignal) => {
+            let response = await Api.getApi(`api/Data/${this.dataType}/Find/${id}`, returnPath, undefined, { signal });
             if (response.status === 404) {
-                throw new Error('CODE:No item with this ID was found.');
-            } else {
-                throw new Error(`CODE:${response.statusText}`);
+                throw new NotFoundError('No item with this ID was found.', { url: response.url }, response.status, response.statusText);
             }
-        }
-        return response.json() as Promise<DataItem>;
+            await ensureSuccess(response);
+            return response.json() as Promise<T>;
+        }, signal);
     }
 
     /**
      * Called to retrieve ViewModels representing all the entities in the database of the
      * repository's type.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
-     * @returns {DataItem[]} All the items.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
+     * @returns {T[]} All the items.
      */
-    async getAll(returnPath: string): Promise<DataItem[]> {
-        let response = await Api.getApi(`api/Data/${this.dataType}/GetAll`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        return response.json() as Promise<DataItem[]>;
+    async getAll(returnPath: string, signal?: AbortSignal): Promise<T[]> {
+        let response = await Api.getApi(`api/Data/${this.dataType}/GetAll`, returnPath, undefined, { signal });
+        await ensureSuccess(response);
+        return response.json() as Promise<T[]>;
     }
 
     /**
@@ -136,13 +212,12 @@ export class Repository {
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} id The primary key of the parent entity.
      * @param {string} childProp The navigation property of the relationship on the parent entity.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
      * @returns {string[]} The primary keys of all the children.
      */
-    async getAllChildIds(returnPath: string, id: string, childProp: string): Promise<string[]> {
-        let response = await Api.getApi(`api/Data/${this.dataType}/GetAllChildIds/${id}/${childProp}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async getAllChildIds(returnPath: string, id: string, childProp: string, signal?: AbortSignal): Promise<string[]> {
+        let response = await Api.getApi(`api/Data/${this.dataType}/GetAllChildIds/${id}/${childProp}`, returnPath, undefined, { signal });
+        await ensureSuccess(response);
         return response.json() as Promise<string[]>;
     }
 
@@ -151,18 +226,18 @@ export class Repository {
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} id The primary key of the parent entity.
      * @param {string} childProp The navigation property of the relationship on the parent entity.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
      * @returns {string} The primary key of the child entity.
      */
-    async getChildId(returnPath: string, id: string, childProp: string): Promise<string> {
-        let response = await Api.getApi(`api/Data/${this.dataType}/GetChildId/${id}/${childProp}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    async getChildId(returnPath: string, id: string, childProp: string, signal?: AbortSignal): Promise<string> {
+        let response = await Api.getApi(`api/Data/${this.dataType}/GetChildId/${id}/${childProp}`, returnPath, undefined, { signal });
+        await ensureSuccess(response);
         return response.statusText;
     }
 
     /**
-     * Called to retrieve a page of child entities in a given relationship.
+     * Called to retrieve a page of child entities in a given relationship. The type parameter is
+     * the interface of the children's ViewModels, if known.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} id The primary key of the parent entity.
      * @param {string} childProp The navigation property of the relationship on the parent entity.
@@ -173,9 +248,14 @@ export class Repository {
      * @param {boolean} descending Indicates whether the sort is descending; if false, the sort is ascending.
      * @param {number} page The page number requested.
      * @param {number} rowsPerPage The number of items per page.
-     * @returns {PageData<DataItem>} The PageData for the page of children retrieved.
+     * @param {QueryBuilder} query An optional structured query which filters the children, and
+     * sorts them after sortBy.
+     * @param {string} continuationToken An optional token returned with a previous page, which
+     * requests the page following it. Takes the place of the page number when provided.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
+     * @returns {PageData<TChild>} The PageData for the page of children retrieved.
      */
-    async getChildPage(
+    async getChildPage<TChild extends DataItem = DataItem>(
         returnPath: string,
         id: string,
         childProp: string,
@@ -183,65 +263,34 @@ export class Repository {
         sortBy: string,
         descending: boolean,
         page: number,
-        rowsPerPage: number): Promise<PageData<DataItem>> {
-        var url = `api/Data/${this.dataType}/GetChildPage/${id}/${childProp}`;
-        if (search || sortBy || descending || page || rowsPerPage) {
-            url += '?';
-        }
-        if (search) {
-            url += `search=${encodeURIComponent(search)}`;
-        }
-        if (sortBy) {
-            if (search) {
-                url += '&';
-            }
-            url += `sortBy=${encodeURIComponent(sortBy)}`;
-        }
-        if (descending) {
-            if (search || sortBy) {
-                url += '&';
-            }
-            url += `descending=${descending}`;
-        }
-        if (page) {
-            if (search || sortBy || descending) {
-                url += '&';
-            }
-            url += `page=${page}`;
-        }
-        if (rowsPerPage) {
-            if (search || sortBy || descending || page) {
-                url += '&';
-            }
-            url += `rowsPerPage=${rowsPerPage}`;
-        }
-        let response = await Api.getApi(`api/Data/${this.dataType}/GetChildTotal/${id}/${childProp}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        let totalItems = Number(response.statusText);
-        response = await Api.getApi(url, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        let pageItems = await response.json() as DataItem[];
-        return {
-            pageItems,
-            totalItems
-        };
+        rowsPerPage: number,
+        query?: QueryBuilder<TChild>,
+        continuationToken?: string,
+        signal?: AbortSignal): Promise<PageData<TChild>> {
+        let url = `api/Data/${this.dataType}/GetChildPage/${id}/${childProp}`;
+        let queryParts = getPageQuery(search, query, sortBy, descending, page, rowsPerPage, continuationToken);
+        if (queryParts.length) {
+            url += `?${queryParts.join('&')}`;
+        }
+        // The type of the children isn't known here, so they are cached apart from other items.
+        let key = JSON.stringify([store.state.userState.culture, url]);
+        return queryCache.getPage(this.dataType, key, `${this.dataType}.${childProp}`, async (signal?: AbortSignal) => {
+            let response = await Api.getApi(url, returnPath, undefined, { signal });
+            await ensureSuccess(response);
+            return response.json() as Promise<PageData<TChild>>;
+        }, signal);
     }
 
     /**
      * Called to retrieve a list of FieldDefinitions for the repository's data type.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
      * @returns {FieldDefinition[]} The FieldDefinitions for the properties of the repository's data type.
      */
-    async getFieldDefinitions(returnPath: string): Promise<FieldDefinition[]> {
+    async getFieldDefinitions(returnPath: string, signal?: AbortSignal): Promise<FieldDefinition[]> {
         if (this.fieldDefinitions === null) {
-            let response = await Api.getApi(`api/Data/${this.dataType}/GetFieldDefinitions`, returnPath);
-            if (!response.ok) {
-                throw new Error(`CODE:${response.statusText}`);
-            }
+            let response = await Api.getApi(`api/Data/${this.dataType}/GetFieldDefinitions`, returnPath, undefined, { signal });
+            await ensureSuccess(response);
             let defs = await response.json() as FieldDefinition[];
             // Translate validator keys to default validator names or actual functions.
             for (var i = 0; i < defs.length; i++) {
@@ -265,8 +314,13 @@ export class Repository {
      * @param {number} page The page number requested.
      * @param {number} rowsPerPage The number of items per page.
      * @param {string[]} except The primary keys of items which should be excluded from the
-     * results before calculating the page contents.
-     * @returns {PageData<DataItem>} The PageData for the page of items retrieved.
+     * results before calculating the page contents. Excluded items are not counted in the total.
+     * @param {QueryBuilder} query An optional structured query which filters the items, and sorts
+     * them after sortBy.
+     * @param {string} continuationToken An optional token returned with a previous page, which
+     * requests the page following it. Takes the place of the page number when provided.
+     * @param {AbortSignal} signal An optional signal which cancels the operation.
+     * @returns {PageData<T>} The PageData for the page of items retrieved.
      */
     async getPage(
         returnPath: string,
@@ -275,56 +329,20 @@ export class Repository {
         descending: boolean,
         page: number,
         rowsPerPage: number,
-        except: string[] = []): Promise<PageData<DataItem>> {
-        var url = `api/Data/${this.dataType}/GetPage`;
-        if (search || sortBy || descending || page || rowsPerPage) {
-            url += '?';
-        }
-        if (search) {
-            url += `search=${encodeURIComponent(search)}`;
-        }
-        if (sortBy) {
-            if (search) {
-                url += '&';
-            }
-            url += `sortBy=${encodeURIComponent(sortBy)}`;
-        }
-        if (descending) {
-            if (search || sortBy) {
-                url += '&';
-            }
-            url += `descending=${descending}`;
-        }
-        if (page) {
-            if (search || sortBy || descending) {
-                url += '&';
-            }
-            url += `page=${page}`;
-        }
-        if (rowsPerPage) {
-            if (search || sortBy || descending || page) {
-                url += '&';
-            }
-            url += `rowsPerPage=${rowsPerPage}`;
-        }
-        if (search || sortBy || descending || page || rowsPerPage) {
-            url += '&';
-        }
-        url += `culture=${store.state.userState.culture}`;
-        let response = await Api.getApi(`api/Data/${this.dataType}/GetTotal`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        let totalItems = await Number(response.statusText);
-        response = await Api.postApi(url, returnPath, JSON.stringify(except));
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        let pageItems = await response.json() as DataItem[];
-        return {
-            pageItems,
-            totalItems: totalItems - (except ? except.length : 0)
-        };
+        except: string[] = [],
+        query?: QueryBuilder<T>,
+        continuationToken?: string,
+        signal?: AbortSignal): Promise<PageData<T>> {
+        let queryParts = getPageQuery(search, query, sortBy, descending, page, rowsPerPage, continuationToken);
+        queryParts.push(`culture=${store.state.userState.culture}`);
+        let url = `api/Data/${this.dataType}/GetPage?${queryParts.join('&')}`;
+        let key = JSON.stringify([url, except]);
+        return queryCache.getPage(this.dataType, key, this.dataType, async (signal?: AbortSignal) => {
+            // GetPage is a POST only to carry the except list, so it is safe to retry.
+            let response = await Api.postApi(url, returnPath, JSON.stringify(except), { retry: true, signal });
+            await ensureSuccess(response);
+            return response.json() as Promise<PageData<T>>;
+        }, signal);
     }
 
     /**
@@ -333,14 +351,19 @@ export class Repository {
      * @param {string} id The primary key of the entity to remove.
      * @returns {Response} The response.
      */
-    async remove(returnPath: string, id: string) {
+    async remove(returnPath: string, id: string): Promise<void> {
         if (id === undefined || id === null || id === '') {
             throw new Error("The item id was missing from your request.");
         }
-        let response = await Api.postApi(`api/Data/${this.dataType}/Remove/${id}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+        return mutationQueue.enqueue({
+            apply: () => queryCache.applyPending(this.dataType, [id]),
+            dataType: this.dataType,
+            failureMessage: 'The item could not be removed.',
+            queueOffline: true,
+            receive: () => queryCache.removeItems(this.dataType, [id]),
+            request: { relUrl: `api/Data/${this.dataType}/Remove/${id}` },
+            returnPath
+        });
     }
 
     /**
@@ -352,11 +375,21 @@ export class Repository {
      * @param {Array<string>} childIds The primary keys of the child entities which will be removed.
      * @returns {Response} The response.
      */
-    async removeChildrenFromCollection(returnPath: string, id: string, childProp: string, childIds: Array<string>) {
-        let response = await Api.postApi(`api/Data/${this.dataType}/RemoveChildrenFromCollection/${id}/${childProp}`, returnPath, JSON.stringify(childIds));
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    removeChildrenFromCollection(returnPath: string, id: string, childProp: string, childIds: Array<string>): Promise<void> {
+        return mutationQueue.enqueue({
+            // Children are cached under the relationship, so they are hidden from cached pages of
+            // the relationship until the removal completes.
+            apply: () => queryCache.applyPending(`${this.dataType}.${childProp}`, childIds),
+            dataType: this.dataType,
+            failureMessage: 'The item(s) could not be removed.',
+            queueOffline: true,
+            receive: () => queryCache.markStale(this.dataType, [id]),
+            request: {
+                relUrl: `api/Data/${this.dataType}/RemoveChildrenFromCollection/${id}/${childProp}`,
+                body: JSON.stringify(childIds)
+            },
+            returnPath
+        });
     }
 
     /**
@@ -368,11 +401,16 @@ export class Repository {
      * @param {string} childProp The navigation property of the relationship being severed.
      * @returns {Response} The response.
      */
-    async removeFromParent(returnPath: string, id: string, childProp: string) {
-        let response = await Api.postApi(`api/Data/${this.dataType}/RemoveFromParent/${id}/${childProp}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    removeFromParent(returnPath: string, id: string, childProp: string): Promise<void> {
+        return mutationQueue.enqueue({
+            dataType: this.dataType,
+            failureMessage: 'The item could not be removed.',
+            queueOffline: true,
+            // The child may have been removed as an orphan; if so, revalidation will discover it.
+            receive: () => queryCache.markStale(this.dataType, [id]),
+            request: { relUrl: `api/Data/${this.dataType}/RemoveFromParent/${id}/${childProp}` },
+            returnPath
+        });
     }
 
     /**
@@ -381,14 +419,22 @@ export class Repository {
      * @param {string[]} ids The primary keys of the entities to remove.
      * @returns {Response} The response.
      */
-    async removeRange(returnPath: string, ids: string[]) {
+    async removeRange(returnPath: string, ids: string[]): Promise<void> {
         if (ids === undefined || ids === null || !ids.length) {
             throw new Error("The item ids were missing from your request.");
         }
-        let response = await Api.postApi(`api/Data/${this.dataType}/RemoveRange`, returnPath, JSON.stringify(ids));
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+        return mutationQueue.enqueue({
+            apply: () => queryCache.applyPending(this.dataType, ids),
+            dataType: this.dataType,
+            failureMessage: 'The item(s) could not be removed.',
+            queueOffline: true,
+            receive: () => queryCache.removeItems(this.dataType, ids),
+            request: {
+                relUrl: `api/Data/${this.dataType}/RemoveRange`,
+                body: JSON.stringify(ids)
+            },
+            returnPath
+        });
     }
 
     /**
@@ -400,11 +446,18 @@ export class Repository {
      * @param {string[]} ids The primary keys of child entities whose relationships are being severed.
      * @returns {Response} The response.
      */
-    async removeRangeFromParent(returnPath: string, childProp: string, ids: string[]) {
-        let response = await Api.postApi(`api/Data/${this.dataType}/RemoveRangeFromParent/${childProp}`, returnPath, JSON.stringify(ids));
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    removeRangeFromParent(returnPath: string, childProp: string, ids: string[]): Promise<void> {
+        return mutationQueue.enqueue({
+            dataType: this.dataType,
+            failureMessage: 'The item(s) could not be removed.',
+            queueOffline: true,
+            receive: () => queryCache.markStale(this.dataType, ids),
+            request: {
+                relUrl: `api/Data/${this.dataType}/RemoveRangeFromParent/${childProp}`,
+                body: JSON.stringify(ids)
+            },
+            returnPath
+        });
     }
 
     /**
@@ -417,11 +470,15 @@ export class Repository {
      * @param {string} childProp The navigation property of the relationship on the child entity.
      * @returns {Response} The response.
      */
-    async replaceChild(returnPath: string, parentId: string, newChildId: string, childProp: string) {
-        let response = await Api.postApi(`api/Data/${this.dataType}/ReplaceChild/${parentId}/${newChildId}/${childProp}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
+    replaceChild(returnPath: string, parentId: string, newChildId: string, childProp: string): Promise<void> {
+        return mutationQueue.enqueue({
+            dataType: this.dataType,
+            failureMessage: 'The item could not be replaced.',
+            queueOffline: true,
+            receive: () => queryCache.markStale(this.dataType, [newChildId]),
+            request: { relUrl: `api/Data/${this.dataType}/ReplaceChild/${parentId}/${newChildId}/${childProp}` },
+            returnPath
+        });
     }
 
     /**
@@ -431,27 +488,49 @@ export class Repository {
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
      * @param {string} parentId The primary key of the parent entity in the relationship.
      * @param {string} childProp The navigation property of the relationship on the child entity.
-     * @returns {DataItem} The new item.
+     * @returns {T} The new item.
      */
-    async replaceChildWithNew(returnPath: string, parentId: string, childProp: string): Promise<DataItem> {
+    async replaceChildWithNew(returnPath: string, parentId: string, childProp: string): Promise<T> {
         let response = await Api.postApi(`api/Data/${this.dataType}/ReplaceChildWithNew/${parentId}/${childProp}`, returnPath);
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        return response.json() as Promise<DataItem>;
+        await ensureSuccess(response);
+        let item = await response.json() as T;
+        queryCache.setItem(this.dataType, item);
+        queryCache.markStale();
+        return item;
     }
 
     /**
-     * Called to update an entity in the database.
+     * Called to update an entity in the database. If the item has a version token, and the stored
+     * item has been changed since that version, the update is rejected with a ConflictError whose
+     * payload's item property is the stored item.
+     *
+     * If the API can't be reached, the update is sent once the connection returns, and the item is
+     * returned as given. A conflict discovered at that time is reported to the user.
      * @param {string} returnPath The URL to return to if a login redirect occurs during the operation.
-     * @param {DataItem} vm The item to update.
-     * @returns {DataItem} A response object containing any error which occurred, or the updated item.
+     * @param {T} vm The item to update.
+     * @returns {T} A response object containing any error which occurred, or the updated item.
      */
-    async update(returnPath: string, vm: DataItem): Promise<DataItem> {
-        let response = await Api.postApi(`api/Data/${this.dataType}/Update`, returnPath, JSON.stringify(vm));
-        if (!response.ok) {
-            throw new Error(`CODE:${response.statusText}`);
-        }
-        return response.json() as Promise<DataItem>;
+    update(returnPath: string, vm: T): Promise<T> {
+        return mutationQueue.enqueue({
+            // An item without its primaryKeyProperty can't be matched with its cached copy, so it
+            // is only updated in the cache once the change succeeds.
+            apply: vm.primaryKeyProperty ? () => queryCache.applyPending(this.dataType, [], [vm]) : undefined,
+            dataType: this.dataType,
+            failureMessage: 'The item could not be updated.',
+            queueOffline: true,
+            queuedResult: vm,
+            receive: async response => {
+                let item = await response.json() as T;
+                queryCache.setItem(this.dataType, item);
+                queryCache.markStale();
+                return item;
+            },
+            request: {
+                relUrl: `api/Data/${this.dataType}/Update`,
+                body: JSON.stringify(vm),
+                headers: vm.versionToken ? { 'If-Match': `"${vm.versionToken}"` } : undefined
+            },
+            returnPath
+        });
     }
 }
\ No newline at end of file
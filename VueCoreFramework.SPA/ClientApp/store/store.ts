@@ -3,14 +3,77 @@ import Vuex from 'vuex';
 Vue.use(Vuex);
 import Oidc from 'oidc-client';
 import * as Api from '../api';
+import { ServiceUnavailableError } from '../api-error';
 import { uiState, getMenuItems, getChildItems } from './uiStore';
-import { userState, PermissionData, SharePermission } from './userStore';
-import { authMgr, AuthorizationViewModel, checkAuthorization } from '../authorization';
+import { isPermissionExpired, userState, PermissionData, SharePermission, TypeSharePermission } from './userStore';
+import { authMgr, AuthorizationViewModel, checkAuthorization, checkAuthorizationRange } from '../authorization';
 import { Repository } from './repository';
-import { ConversationViewModel, MessageViewModel, messaging } from './messaging';
+import { queryCache } from './query-cache';
+import { mutationQueue } from './mutation-queue';
+import { PushEvent, pushChannel } from './push-channel';
+import { tabSync } from './tab-sync';
+import { ConversationViewModel, GroupMentionsViewModel, GroupReceiptViewModel, MessagePageRequest, MessageViewModel, messagePageSize, messaging, NotificationSettingsViewModel, typingPolicy } from './messaging';
+import { isChatMuted, isDoNotDisturb, showNotification } from './notifications';
 import { Group } from '../components/group/manage';
 import * as ErrorLog from '../error-msg';
 
+function getLatestTimestamp(messages: MessageViewModel[]): number {
+    return messages.reduce((latest, m) => Math.max(latest, new Date(m.timestamp).getTime() || 0), 0);
+}
+
+function getStoredPermission(permissions: any, dataType: string, id?: string): SharePermission {
+    let typePermission: TypeSharePermission = permissions[dataType];
+    if (!typePermission) {
+        return undefined;
+    }
+    if (id) {
+        return typePermission.ids ? typePermission.ids[id] : undefined;
+    }
+    // A type entry created only to hold item permissions has no type permission of its own.
+    return typePermission.retrievedAt === undefined ? undefined : typePermission;
+}
+
+function getUnreadCount<T extends { unreadCount: number }>(items: T[], predicate: (item: T) => boolean): number {
+    let item = items.find(predicate);
+    return item ? item.unreadCount : 0;
+}
+
+// Notifies the user of new messages in a chat, unless they have muted it, don't wish to be
+// disturbed at the moment, or are looking at any of the application's tabs.
+function notifyNewMessages(settings: NotificationSettingsViewModel, title: string, body: string, username: string, group: string, open: () => void) {
+    if (isDoNotDisturb(settings) || isChatMuted(settings, username, group) || tabSync.isAnyTabVisible()) {
+        return;
+    }
+    showNotification(title, body, `${group || ''}/${username || ''}`, open);
+}
+
+// The timers which stop showing other users as typing, by username.
+let typingTimeouts: { [username: string]: number } = {};
+
+function clearChat(chat: typeof uiState.messaging) {
+    chat.focusedMessageId = '';
+    chat.messages = [];
+    chat.hasOlderMessages = false;
+    chat.receipts = [];
+    chat.thread = null;
+    chat.threadMessages = [];
+    chat.typingUsers = [];
+}
+
+function getChatKey(chat: typeof uiState.messaging): string {
+    return `${chat.groupChat}/${chat.proxySender}/${chat.interlocutor}`;
+}
+
+function getChatMessages(returnPath: string, chat: typeof uiState.messaging, page: MessagePageRequest): Promise<MessageViewModel[]> {
+    if (chat.groupChat) {
+        return messaging.getGroupMessages(returnPath, chat.groupChat, page);
+    } else if (chat.proxySender) {
+        return messaging.getProxyUserMessages(returnPath, chat.proxySender, chat.interlocutor, page);
+    } else {
+        return messaging.getUserMessages(returnPath, chat.interlocutor, page);
+    }
+}
+
 /**
  * The SPA framework's Vuex Store instance.
  */
@@ -21,6 +84,11 @@ export const store = new Vuex.Store({
          */
         apiVer: '1.0',
 
+        /**
+         * Incremented whenever cached data changes, so that views displaying it can refresh.
+         */
+        dataVersion: 0,
+
         /**
          * Info used to display a model error dialog.
          */
@@ -35,6 +103,14 @@ export const store = new Vuex.Store({
          */
         repositories: {},
 
+        /**
+         * Info used to display a brief message in a toast.
+         */
+        toast: {
+            message: '',
+            shown: false
+        },
+
         /**
          * An object containing information about the state of the UI.
          */
@@ -50,24 +126,14 @@ export const store = new Vuex.Store({
          * Gets the stored permission for the given data, if any exists.
          */
         getPermission: (state, getters) => (dataType: string, id?: string): string => {
-            // If no permission is cached, try getting it.
-            if (!state.userState.permissions[dataType]) {
+            let permission = getStoredPermission(state.userState.permissions, dataType, id);
+            // If no permission is cached, or it has expired, try getting it. Until it arrives, an
+            // expired permission is still used.
+            if (isPermissionExpired(permission)) {
                 checkAuthorization(dataType, "view", id);
             }
             // If it still doesn't exist, the user has no permission (or the parameters are invalid)
-            if (!state.userState.permissions[dataType]) {
-                return undefined;
-            }
-            if (id) {
-                if (!state.userState.permissions[dataType].ids
-                    || !state.userState.permissions[dataType].ids[id]) {
-                    return undefined;
-                } else {
-                    return state.userState.permissions[dataType].ids[id].permission;
-                }
-            } else {
-                return state.userState.permissions[dataType].permission;
-            }
+            return permission ? permission.permission : undefined;
         },
 
         /**
@@ -84,24 +150,11 @@ export const store = new Vuex.Store({
          * Gets the stored share permission for the given data, if any exists.
          */
         getSharePermission: (state, getters) => (dataType: string, id?: string): string => {
-            // If no permission is cached, try getting it.
-            if (!state.userState.permissions[dataType]) {
+            let permission = getStoredPermission(state.userState.permissions, dataType, id);
+            if (isPermissionExpired(permission)) {
                 checkAuthorization(dataType, "view", id);
             }
-            // If it still doesn't exist, the user has no permission (or the parameters are invalid)
-            if (!state.userState.permissions[dataType]) {
-                return undefined;
-            }
-            if (id) {
-                if (!state.userState.permissions[dataType].ids
-                    || !state.userState.permissions[dataType].ids[id]) {
-                    return undefined;
-                } else {
-                    return state.userState.permissions[dataType].ids[id].canShare;
-                }
-            } else {
-                return state.userState.permissions[dataType].canShare;
-            }
+            return permission ? permission.canShare : undefined;
         }
     },
     mutations: {
@@ -122,6 +175,18 @@ export const store = new Vuex.Store({
             router.addRoutes([{ path: '*', redirect: '/error/notfound' }]);
         },
 
+        /**
+         * Adds newly retrieved messages to the end of the current conversation, skipping any which
+         * are already shown.
+         */
+        appendMessages(state, messages: MessageViewModel[]) {
+            let shown = state.uiState.messaging.messages;
+            let added = messages.filter(m => !shown.some(s => s.id === m.id));
+            if (added.length) {
+                state.uiState.messaging.messages = shown.concat(added);
+            }
+        },
+
         /**
          * Hides the chat window (returns to the messaging menu).
          */
@@ -129,6 +194,33 @@ export const store = new Vuex.Store({
             state.uiState.messaging.chatShown = false;
         },
 
+        /**
+         * Closes the thread shown beside the current group chat.
+         */
+        hideThread(state) {
+            state.uiState.messaging.thread = null;
+            state.uiState.messaging.threadMessages = [];
+        },
+
+        /**
+         * Discards stored permissions, so that they are retrieved again when next needed. Called
+         * whenever the user's rights may have changed: with no payload all permissions are
+         * discarded; with only a dataType, those for the type and its items; with an id, only
+         * the item's.
+         */
+        invalidatePermissions(state, payload?: { dataType?: string, id?: string }) {
+            if (!payload || !payload.dataType) {
+                state.userState.permissions = {};
+            } else if (payload.id) {
+                let typePermission = state.userState.permissions[payload.dataType];
+                if (typePermission && typePermission.ids) {
+                    Vue.delete(typePermission.ids, payload.id);
+                }
+            } else {
+                Vue.delete(state.userState.permissions, payload.dataType);
+            }
+        },
+
         /**
          * Signs the current user out.
          */
@@ -140,6 +232,49 @@ export const store = new Vuex.Store({
             state.uiState.messaging.messagingShown = false;
             state.userState.user = null;
             state.userState.username = 'user';
+            state.userState.permissions = {};
+        },
+
+        /**
+         * Adds a page of older messages to the start of the current conversation.
+         */
+        prependMessages(state, payload: { messages: MessageViewModel[], hasOlderMessages: boolean }) {
+            let shown = state.uiState.messaging.messages;
+            state.uiState.messaging.messages = payload.messages
+                .filter(m => !shown.some(s => s.id === m.id))
+                .concat(shown);
+            state.uiState.messaging.hasOlderMessages = payload.hasOlderMessages;
+        },
+
+        /**
+         * Replaces a message of the current conversation with its latest version.
+         */
+        replaceMessage(state, message: MessageViewModel) {
+            let index = state.uiState.messaging.messages.findIndex(m => m.id === message.id);
+            if (index !== -1) {
+                state.uiState.messaging.messages.splice(index, 1, message);
+            }
+            let thread = state.uiState.messaging.thread;
+            if (thread && thread.id === message.id) {
+                state.uiState.messaging.thread = message;
+            }
+            index = state.uiState.messaging.threadMessages.findIndex(m => m.id === message.id);
+            if (index !== -1) {
+                state.uiState.messaging.threadMessages.splice(index, 1, message);
+            }
+        },
+
+        /**
+         * Records whether another member of the current group chat is typing.
+         */
+        setTyping(state, payload: { username: string, typing: boolean }) {
+            let typingUsers = state.uiState.messaging.typingUsers;
+            let index = typingUsers.indexOf(payload.username);
+            if (payload.typing && index === -1) {
+                typingUsers.push(payload.username);
+            } else if (!payload.typing && index !== -1) {
+                typingUsers.splice(index, 1);
+            }
         },
 
         /**
@@ -149,6 +284,13 @@ export const store = new Vuex.Store({
             state.userState.culture = culture;
         },
 
+        /**
+         * Highlights a message of the current conversation, and scrolls it into view.
+         */
+        setFocusedMessage(state, id: string) {
+            state.uiState.messaging.focusedMessageId = id;
+        },
+
         /**
          * Sets the current users managed groups.
          */
@@ -163,20 +305,68 @@ export const store = new Vuex.Store({
             state.userState.managedGroups = managedGroups;
         },
 
+        /**
+         * Sets the API version requested by the client.
+         */
+        setApiVersion(state, apiVer: string) {
+            state.apiVer = apiVer;
+        },
+
+        /**
+         * Records whether the API can currently be reached.
+         */
+        setOffline(state, offline: boolean) {
+            state.uiState.offline = offline;
+        },
+
+        /**
+         * Sets the number of changes saved while offline which have not yet been sent.
+         */
+        setPendingChanges(state, count: number) {
+            state.uiState.pendingChanges = count;
+        },
+
+        /**
+         * Records whether the given host is currently available.
+         */
+        setServiceAvailability(state, payload: { host: string, available: boolean }) {
+            let index = state.uiState.unavailableServices.indexOf(payload.host);
+            if (payload.available && index !== -1) {
+                state.uiState.unavailableServices.splice(index, 1);
+            } else if (!payload.available && index === -1) {
+                state.uiState.unavailableServices.push(payload.host);
+            }
+        },
+
         /**
          * Sets the current OIDC user.
          */
         setUser(state, user: Oidc.User) {
+            let username = user == null ? 'user' : user.profile.name;
+            if (username !== state.userState.username) {
+                // Permissions and settings belong to the previous user.
+                state.userState.permissions = {};
+                state.userState.notificationSettings = { mutedGroups: [], mutedUsers: [] };
+            }
             state.userState.user = user;
-            state.userState.username = user == null ? 'user' : user.profile.name;
+            state.userState.username = username;
             state.userState.isAdmin = user == null ? false : user.profile.role.includes("Admin");
             state.userState.isSiteAdmin = user == null ? false : user.profile.role.includes("SiteAdmin");
         },
 
+        /**
+         * Shows the thread started by the given message beside the current group chat.
+         */
+        showThread(state, message: MessageViewModel) {
+            state.uiState.messaging.thread = message;
+            state.uiState.messaging.threadMessages = [];
+        },
+
         /**
          * Starts the chat UI with the given user.
          */
         startChatAdminReview(state, payload) {
+            clearChat(state.uiState.messaging);
             state.uiState.messaging.groupChat = '';
             state.uiState.messaging.proxySender = payload.proxySender;
             state.uiState.messaging.interlocutor = payload.interlocutor;
@@ -188,6 +378,7 @@ export const store = new Vuex.Store({
          * Starts the chat UI with the given group.
          */
         startChatWithGroup(state, group: string) {
+            clearChat(state.uiState.messaging);
             state.uiState.messaging.proxySender = '';
             state.uiState.messaging.interlocutor = '';
             state.uiState.messaging.groupChat = group;
@@ -199,6 +390,7 @@ export const store = new Vuex.Store({
          * Shown the chat UI for system messages.
          */
         startChatWithSystem(state) {
+            clearChat(state.uiState.messaging);
             state.uiState.messaging.proxySender = '';
             state.uiState.messaging.groupChat = '';
             state.uiState.messaging.interlocutor = '';
@@ -210,6 +402,7 @@ export const store = new Vuex.Store({
          * Starts the chat UI with the given user.
          */
         startChatWithUser(state, username: string) {
+            clearChat(state.uiState.messaging);
             state.uiState.messaging.proxySender = '';
             state.uiState.messaging.groupChat = '';
             state.uiState.messaging.interlocutor = username;
@@ -217,6 +410,13 @@ export const store = new Vuex.Store({
             state.uiState.messaging.messagingShown = true;
         },
 
+        /**
+         * Signals that cached data has changed.
+         */
+        notifyDataChanged(state) {
+            state.dataVersion++;
+        },
+
         /**
          * Shows/hides the messaging panel.
          */
@@ -232,10 +432,32 @@ export const store = new Vuex.Store({
         },
 
         /**
-         * Sets the user's messages.
+         * Sets the group chats in which the user has unread mentions.
+         */
+        updateMentions(state, mentions: GroupMentionsViewModel[]) {
+            state.uiState.messaging.mentions = mentions;
+        },
+
+        /**
+         * Replaces the messages of the current conversation.
          */
-        updateMessages(state, messages: MessageViewModel[]) {
-            state.uiState.messaging.messages = messages;
+        updateMessages(state, payload: { messages: MessageViewModel[], hasOlderMessages: boolean }) {
+            state.uiState.messaging.messages = payload.messages;
+            state.uiState.messaging.hasOlderMessages = payload.hasOlderMessages;
+        },
+
+        /**
+         * Sets the current user's notification settings.
+         */
+        updateNotificationSettings(state, settings: NotificationSettingsViewModel) {
+            state.userState.notificationSettings = settings;
+        },
+
+        /**
+         * Sets how far each member of the current group chat has received and read it.
+         */
+        updateReceipts(state, receipts: GroupReceiptViewModel[]) {
+            state.uiState.messaging.receipts = receipts;
         },
 
         /**
@@ -252,11 +474,15 @@ export const store = new Vuex.Store({
                     }
                     state.userState.permissions[permission.dataType].ids[permission.id] = <SharePermission>{
                         canShare: permission.canShare,
-                        permission: permission.permission
+                        permission: permission.permission,
+                        retrievedAt: Date.now(),
+                        unauthorized: permission.unauthorized
                     };
                 } else {
                     state.userState.permissions[permission.dataType].canShare = permission.canShare;
                     state.userState.permissions[permission.dataType].permission = permission.permission;
+                    state.userState.permissions[permission.dataType].retrievedAt = Date.now();
+                    state.userState.permissions[permission.dataType].unauthorized = permission.unauthorized;
                 }
             }
         },
@@ -266,30 +492,234 @@ export const store = new Vuex.Store({
          */
         updateSystemMessages(state, messages: MessageViewModel[]) {
             state.uiState.messaging.systemMessages = messages;
+        },
+
+        /**
+         * Replaces the replies in the thread shown beside the current group chat.
+         */
+        updateThreadMessages(state, messages: MessageViewModel[]) {
+            state.uiState.messaging.threadMessages = messages;
         }
     },
     actions: {
         /**
-         * Updates the messages in the chat window.
+         * Retrieves a page of the current conversation's messages older than those shown.
+         */
+        async loadOlderMessages({ commit, state }, returnPath) {
+            let chat = state.uiState.messaging;
+            if (!chat.hasOlderMessages || !chat.messages.length) {
+                return;
+            }
+            let key = getChatKey(chat);
+            try {
+                let data = await getChatMessages(returnPath, chat, { before: chat.messages[0].id });
+                // The user may have moved on to another conversation in the meantime.
+                if (getChatKey(chat) === key) {
+                    commit(prependMessages, { messages: data, hasOlderMessages: data.length >= messagePageSize });
+                }
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.loadOlderMessages', error);
+                }
+            }
+        },
+
+        /**
+         * Retrieves the permissions for the given data type, and for each of the given items, which
+         * are not already stored or have expired. The items' permissions are retrieved in a single
+         * request, so that a whole page of items can be checked at once.
+         */
+        async loadPermissions({ state }, payload: { dataType: string, ids: string[] }) {
+            let tasks: Promise<string>[] = [];
+            if (isPermissionExpired(getStoredPermission(state.userState.permissions, payload.dataType))) {
+                tasks.push(checkAuthorization(payload.dataType, "view"));
+            }
+            let ids = payload.ids.filter(id => isPermissionExpired(getStoredPermission(state.userState.permissions, payload.dataType, id)));
+            if (ids.length) {
+                tasks.push(checkAuthorizationRange(payload.dataType, ids, "view"));
+            }
+            await Promise.all(tasks);
+        },
+
+        /**
+         * Updates the chat window in response to a pushed messages, receipts or typing event, if it
+         * shows the event's conversation.
+         */
+        async receiveChatEvent({ commit, dispatch, state }, event: PushEvent) {
+            let chat = state.uiState.messaging;
+            if (event.type === 'receipts' || event.type === 'typing') {
+                // These only concern group chats, and name the group alone.
+                if (!chat.messagingShown || !chat.chatShown || (event.group && event.group !== chat.groupChat)) {
+                    return;
+                }
+                if (event.type === 'receipts') {
+                    // A receipts event which doesn't name its group may apply to any of them.
+                    await dispatch(refreshReceipts);
+                } else if (event.group && event.username && event.username !== state.userState.username) {
+                    let username = event.username;
+                    commit(setTyping, { username, typing: true });
+                    // Typing is reported periodically, so a user stops being shown soon after
+                    // their reports stop.
+                    window.clearTimeout(typingTimeouts[username]);
+                    typingTimeouts[username] = window.setTimeout(() => {
+                        delete typingTimeouts[username];
+                        commit(setTyping, { username, typing: false });
+                    }, typingPolicy.displayTimeout);
+                }
+                return;
+            }
+            // An event which doesn't identify its conversation may apply to any of them.
+            if (chat.messagingShown && chat.chatShown
+                && ((!event.group && !event.username)
+                    || (event.group && event.group === chat.groupChat)
+                    || (event.username && event.username === chat.interlocutor && !chat.proxySender))) {
+                if (!event.messageId) {
+                    await dispatch(refreshChat);
+                    await dispatch(refreshThread);
+                    return;
+                }
+                if (chat.thread && chat.thread.id === event.messageId) {
+                    // A change to the message which started a thread may be a new reply.
+                    await dispatch(refreshThread);
+                }
+                if (chat.messages.some(m => m.id === event.messageId)
+                    || chat.threadMessages.some(m => m.id === event.messageId)) {
+                    // Changed messages which aren't shown are up to date once they are retrieved.
+                    await dispatch(refreshMessage, event.messageId);
+                }
+            }
+        },
+
+        /**
+         * Updates the store in response to an event pushed by the API (see push-channel.ts). New
+         * direct messages, mentions and system messages are notified while the page is in the
+         * background, unless the event only catches up on changes which may have been missed.
+         */
+        async receivePushEvent({ commit, dispatch, state }, event: PushEvent) {
+            let chat = state.uiState.messaging;
+            let settings = state.userState.notificationSettings;
+            switch (event.type) {
+                case 'conversations':
+                    await dispatch(refreshConversations);
+                    break;
+                case 'groups':
+                    await dispatch(refreshGroups);
+                    break;
+                case 'mentions':
+                    let previousMentions = chat.mentions;
+                    await dispatch(refreshMentions);
+                    if (!event.catchUp) {
+                        chat.mentions
+                            .filter(m => m.unreadCount > getUnreadCount(previousMentions, p => p.group === m.group))
+                            .forEach(m => notifyNewMessages(settings,
+                                `New mention in ${m.group}`,
+                                `${m.unreadCount} unread mention${m.unreadCount === 1 ? '' : 's'}`,
+                                undefined,
+                                m.group,
+                                () => {
+                                    commit(startChatWithGroup, m.group);
+                                    dispatch(refreshChat);
+                                }));
+                    }
+                    break;
+                case 'messages':
+                    // Only the leader tab receives pushed events, but every tab may be showing a chat.
+                    tabSync.postChatEvent(event);
+                    await dispatch(receiveChatEvent, event);
+                    if (!event.group && !event.messageId) {
+                        // The unread counts of conversations have changed.
+                        let previousCount = getUnreadCount(chat.conversations, c => c.interlocutor === event.username);
+                        await dispatch(refreshConversations);
+                        let count = getUnreadCount(chat.conversations, c => c.interlocutor === event.username);
+                        if (!event.catchUp && count > previousCount) {
+                            notifyNewMessages(settings,
+                                `New message from ${event.username}`,
+                                `${count} unread message${count === 1 ? '' : 's'}`,
+                                event.username,
+                                undefined,
+                                () => {
+                                    commit(startChatWithUser, event.username);
+                                    dispatch(refreshChat);
+                                });
+                        }
+                    }
+                    break;
+                case 'notificationSettings':
+                    await dispatch(refreshNotificationSettings);
+                    break;
+                case 'permissions':
+                    // Data has been shared with or hidden from the user, or their group memberships
+                    // (which determine some of their permissions) have changed.
+                    commit(invalidatePermissions, event.dataType ? { dataType: event.dataType, id: event.id } : undefined);
+                    break;
+                case 'receipts':
+                case 'typing':
+                    tabSync.postChatEvent(event);
+                    await dispatch(receiveChatEvent, event);
+                    break;
+                case 'systemMessages':
+                    let latest = getLatestTimestamp(chat.systemMessages);
+                    await dispatch(refreshSystemMessages);
+                    let newMessages = chat.systemMessages.filter(m => !m.received && new Date(m.timestamp).getTime() > latest);
+                    if (!event.catchUp && newMessages.length) {
+                        notifyNewMessages(settings,
+                            'New system message',
+                            newMessages[newMessages.length - 1].content,
+                            undefined,
+                            undefined,
+                            () => {
+                                commit(startChatWithSystem);
+                                dispatch(refreshChat);
+                            });
+                    }
+                    break;
+            }
+        },
+
+        /**
+         * Updates the messages in the chat window. When a conversation is opened its latest page of
+         * messages is retrieved; after that, only messages newer than those shown.
          */
-        async refreshChat({ commit, state }, returnPath) {
+        async refreshChat({ commit, dispatch, state }, returnPath) {
+            let chat = state.uiState.messaging;
+            let key = getChatKey(chat);
             try {
-                let data: MessageViewModel[];
-                if (state.uiState.messaging.groupChat) {
-                    data = await messaging.getGroupMessages(returnPath, state.uiState.messaging.groupChat);
-                } else if (state.uiState.messaging.proxySender) {
-                    data = await messaging.getProxyUserMessages(returnPath, state.uiState.messaging.proxySender, state.uiState.messaging.interlocutor);
-                } else if (state.uiState.messaging.interlocutor) {
-                    data = await messaging.getUserMessages(returnPath, state.uiState.messaging.interlocutor);
-                    messaging.markConversationRead(returnPath, state.uiState.messaging.interlocutor);
+                if (!chat.groupChat && !chat.interlocutor) {
+                    let systemMessages = await messaging.getSystemMessages(returnPath);
+                    commit(updateSystemMessages, systemMessages);
+                    await messaging.markSystemMessagesRead(returnPath);
+                    if (getChatKey(chat) === key) {
+                        commit(updateMessages, { messages: systemMessages, hasOlderMessages: false });
+                    }
+                    return;
+                }
+                let last = chat.messages.length ? chat.messages[chat.messages.length - 1] : undefined;
+                let page: MessagePageRequest = last ? { after: last.id } : {};
+                let data = await getChatMessages(returnPath, chat, page);
+                if (chat.interlocutor && !chat.proxySender) {
+                    await messaging.markConversationRead(returnPath, chat.interlocutor);
+                } else if (chat.groupChat) {
+                    await messaging.markGroupRead(returnPath, chat.groupChat);
+                }
+                // The user may have moved on to another conversation in the meantime.
+                if (getChatKey(chat) !== key) {
+                    return;
+                }
+                if (page.after) {
+                    commit(appendMessages, data);
                 } else {
-                    data = await messaging.getSystemMessages(returnPath);
-                    commit(updateSystemMessages, data);
-                    messaging.markSystemMessagesRead(returnPath);
+                    commit(updateMessages, { messages: data, hasOlderMessages: data.length >= messagePageSize });
+                }
+                if (chat.groupChat) {
+                    // Members who have sent a message have stopped typing it.
+                    data.forEach(m => commit(setTyping, { username: m.username, typing: false }));
+                    await dispatch(refreshReceipts, returnPath);
                 }
-                commit(updateMessages, data);
             } catch (error) {
-                ErrorLog.logError('store.refreshChat', error);
+                // An unavailable service has already been reported by its circuit breaker.
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshChat', error);
+                }
             }
         },
 
@@ -301,7 +731,9 @@ export const store = new Vuex.Store({
                 let data = await messaging.getConversations(returnPath);
                 commit(updateConversations, data);
             } catch (error) {
-                ErrorLog.logError('store.refreshConversations', error);
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshConversations', error);
+                }
             }
         },
 
@@ -328,7 +760,73 @@ export const store = new Vuex.Store({
                 commit(setManagedGroups, managedGroups);
                 commit(setJoinedGroups, joinedGroups);
             } catch (error) {
-                ErrorLog.logError('store.refreshGroups', error);
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshGroups', error);
+                }
+            }
+        },
+
+        /**
+         * Updates the group chats in which the user has unread mentions.
+         */
+        async refreshMentions({ commit }, returnPath) {
+            try {
+                let data = await messaging.getMentions(returnPath);
+                commit(updateMentions, data);
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshMentions', error);
+                }
+            }
+        },
+
+        /**
+         * Updates a message of the current conversation after it has changed.
+         */
+        async refreshMessage({ commit }, id: string) {
+            try {
+                let data = await messaging.getMessage(undefined, id);
+                commit(replaceMessage, data);
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshMessage', error);
+                }
+            }
+        },
+
+        /**
+         * Updates the current user's notification settings.
+         */
+        async refreshNotificationSettings({ commit }, returnPath) {
+            try {
+                let data = await messaging.getNotificationSettings(returnPath);
+                commit(updateNotificationSettings, data);
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshNotificationSettings', error);
+                }
+            }
+        },
+
+        /**
+         * Updates how far each member of the current group chat has received and read it.
+         */
+        async refreshReceipts({ commit, state }, returnPath) {
+            let chat = state.uiState.messaging;
+            if (!chat.groupChat) {
+                return;
+            }
+            let key = getChatKey(chat);
+            try {
+                let data = await messaging.getGroupReceipts(returnPath, chat.groupChat);
+                // The user may have moved on to another conversation in the meantime.
+                if (getChatKey(chat) === key) {
+                    commit(updateReceipts, data);
+                }
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshReceipts', error);
+                }
             }
         },
 
@@ -340,29 +838,151 @@ export const store = new Vuex.Store({
                 let data = await messaging.getSystemMessages(returnPath);
                 commit(updateSystemMessages, data);
             } catch (error) {
-                ErrorLog.logError('store.refreshSystemMessages', error);
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshSystemMessages', error);
+                }
             }
+        },
+
+        /**
+         * Updates the replies in the thread shown beside the current group chat. When a thread is
+         * opened its latest page of replies is retrieved; after that, only replies newer than those
+         * shown.
+         */
+        async refreshThread({ commit, state }, returnPath) {
+            let chat = state.uiState.messaging;
+            if (!chat.thread) {
+                return;
+            }
+            let id = chat.thread.id;
+            let shown = chat.threadMessages;
+            let last = shown.length ? shown[shown.length - 1] : undefined;
+            try {
+                let data = await messaging.getThreadMessages(returnPath, id, last ? { after: last.id } : {});
+                await messaging.markThreadRead(returnPath, id);
+                // The user may have closed the thread, or opened another, in the meantime.
+                if (!chat.thread || chat.thread.id !== id) {
+                    return;
+                }
+                commit(updateThreadMessages, last
+                    ? shown.concat(data.filter(m => !shown.some(s => s.id === m.id)))
+                    : data);
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.refreshThread', error);
+                }
+            }
+        },
+
+        /**
+         * Shows a message of the current conversation in context: with the messages sent shortly
+         * before it, and all those sent since. Used to open a conversation at a message found by a
+         * search.
+         */
+        async showMessageInContext({ commit, dispatch, state }, payload: { returnPath: string, id: string }) {
+            let chat = state.uiState.messaging;
+            // Set first, so that the message is scrolled into view as soon as it is shown.
+            commit(setFocusedMessage, payload.id);
+            if (!chat.groupChat && !chat.interlocutor) {
+                // System messages are always retrieved all at once.
+                await dispatch(refreshChat, payload.returnPath);
+                return;
+            }
+            let key = getChatKey(chat);
+            let contextSize = Math.floor(messagePageSize / 2);
+            try {
+                let results = await Promise.all([
+                    getChatMessages(payload.returnPath, chat, { before: payload.id, count: contextSize }),
+                    messaging.getMessage(payload.returnPath, payload.id),
+                    getChatMessages(payload.returnPath, chat, { after: payload.id })
+                ]);
+                if (chat.interlocutor && !chat.proxySender) {
+                    await messaging.markConversationRead(payload.returnPath, chat.interlocutor);
+                }
+                // The user may have moved on to another conversation in the meantime.
+                if (getChatKey(chat) === key) {
+                    commit(updateMessages, {
+                        messages: results[0].concat([results[1]], results[2]),
+                        hasOlderMessages: results[0].length >= contextSize
+                    });
+                }
+            } catch (error) {
+                if (!(error instanceof ServiceUnavailableError)) {
+                    ErrorLog.logError('store.showMessageInContext', error);
+                }
+            }
+        }
+    }
+});
+
+// The push channel delivers the events of the signed-in user, to the leader tab.
+store.subscribe((mutation, state) => {
+    if (mutation.type === setUser && state.userState.user && tabSync.isLeader) {
+        pushChannel.start();
+    } else if (mutation.type === logout || mutation.type === setUser) {
+        pushChannel.stop();
+    }
+});
+
+// Cached data reflects the permissions of the user, and the culture, with which it was retrieved.
+let cacheUsername = store.state.userState.username;
+store.subscribe((mutation, state) => {
+    if (mutation.type === setCulture
+        || ((mutation.type === logout || mutation.type === setUser) && state.userState.username !== cacheUsername)) {
+        cacheUsername = state.userState.username;
+        // Saved copies are kept per user, for when they return, unless they sign out.
+        queryCache.clear(mutation.type === logout);
+        if (mutation.type !== setCulture) {
+            // Changes saved while offline are only sent for the user who made them.
+            mutationQueue.sync();
         }
     }
 });
 
 export const addTypeRoutes = 'addTypeRoutes';
+export const appendMessages = 'appendMessages';
 export const hideChat = 'hideChat';
+export const hideThread = 'hideThread';
+export const invalidatePermissions = 'invalidatePermissions';
+export const loadOlderMessages = 'loadOlderMessages';
+export const loadPermissions = 'loadPermissions';
 export const logout = 'logout';
+export const notifyDataChanged = 'notifyDataChanged';
+export const prependMessages = 'prependMessages';
+export const receiveChatEvent = 'receiveChatEvent';
+export const receivePushEvent = 'receivePushEvent';
 export const refreshChat = 'refreshChat';
 export const refreshConversations = 'refreshConversations';
 export const refreshGroups = 'refreshGroups';
+export const refreshMentions = 'refreshMentions';
+export const refreshMessage = 'refreshMessage';
+export const refreshNotificationSettings = 'refreshNotificationSettings';
+export const refreshReceipts = 'refreshReceipts';
 export const refreshSystemMessages = 'refreshSystemMessages';
+export const refreshThread = 'refreshThread';
+export const replaceMessage = 'replaceMessage';
+export const setApiVersion = 'setApiVersion';
 export const setCulture = 'setCulture';
+export const setFocusedMessage = 'setFocusedMessage';
 export const setJoinedGroups = 'setJoinedGroups';
 export const setManagedGroups = 'setManagedGroups';
+export const setOffline = 'setOffline';
+export const setPendingChanges = 'setPendingChanges';
+export const setServiceAvailability = 'setServiceAvailability';
+export const setTyping = 'setTyping';
 export const setUser = 'setUser';
+export const showMessageInContext = 'showMessageInContext';
+export const showThread = 'showThread';
 export const startChatAdminReview = 'startChatAdminReview';
 export const startChatWithGroup = 'startChatWithGroup';
 export const startChatWithSystem = 'startChatWithSystem';
 export const startChatWithUser = 'startChatWithUser';
 export const toggleMessaging = 'toggleMessaging';
 export const updateConversations = 'updateConversations';
+export const updateMentions = 'updateMentions';
 export const updateMessages = 'updateMessages';
+export const updateNotificationSettings = 'updateNotificationSettings';
 export const updatePermission = 'updatePermission';
-export const updateSystemMessages = 'updateSystemMessages';
\ No newline at end of file
+export const updateReceipts = 'updateReceipts';
+export const updateSystemMessages = 'updateSystemMessages';
+export const updateThreadMessages = 'updateThreadMessages';
\ No newline at end of file
@@ -0,0 +1,254 @@
+﻿import { authMgr } from '../authorization';
+import * as ErrorMsg from '../error-msg';
+import { setCulture } from '../globalization/globalization';
+import { PushEvent, pushChannel } from './push-channel';
+import * as Store from './store';
+
+/**
+ * Controls how the application's tabs choose a leader.
+ */
+export interface TabSyncPolicy {
+    /**
+     * How often the leader tab announces itself to the others, in milliseconds.
+     */
+    heartbeatInterval: number;
+
+    /**
+     * How long the other tabs wait without hearing from the leader before one of them takes its
+     * place, in milliseconds.
+     */
+    leaderTimeout: number;
+}
+
+/**
+ * The policy used by TabSync. May be modified at startup to suit the deployment.
+ */
+export const tabSyncPolicy: TabSyncPolicy = {
+    heartbeatInterval: 2000,
+    leaderTimeout: 5000
+};
+
+type TabMessageType = 'chatEvent' | 'heartbeat' | 'mutation' | 'resign' | 'visibility';
+
+interface TabMessage {
+    event?: PushEvent;
+    from: string;
+    mutation?: { type: string, payload?: any };
+    type: TabMessageType;
+    visible?: boolean;
+}
+
+const channelName = 'VueCoreFramework.tabs';
+
+function isSynced(mutationType: string): boolean {
+    return [
+        Store.invalidatePermissions,
+        Store.logout,
+        Store.setCulture,
+        Store.setJoinedGroups,
+        Store.setManagedGroups,
+        Store.setUser,
+        Store.updateConversations,
+        Store.updateMentions,
+        Store.updateNotificationSettings,
+        Store.updateSystemMessages
+    ].indexOf(mutationType) !== -1;
+}
+
+/**
+ * Coordinates the application's open tabs, so that they behave as a single session.
+ *
+ * One tab is elected leader: only it renews the user's token and receives pushed events, and the
+ * shared state it retrieves reaches the other tabs as it is committed. Signing in or out, changing
+ * the culture, and changes to conversations, mentions, group memberships (including messages
+ * being marked read) and notification settings are likewise applied in every tab. Messages are exchanged with BroadcastChannel
+ * where the browser supports it, and with storage events otherwise. The other tabs tell the leader
+ * whether they are visible, so that it doesn't show notifications while the user is looking at
+ * any of them.
+ */
+export class TabSync {
+    /**
+     * Indicates that this tab is the leader.
+     */
+    isLeader = false;
+
+    private channel: BroadcastChannel = null;
+
+    private id = `${Date.now()}-${Math.random().toString(36).substr(2)}`;
+
+    private leaderId: string = null;
+
+    private leaderSeenAt = 0;
+
+    private remote = false;
+
+    private visibleTabs: { [id: string]: boolean } = {};
+
+    /**
+     * Determines whether this tab, or any of the others, is currently visible to the user.
+     * The other tabs report their visibility to the leader, so only the leader knows of them.
+     */
+    isAnyTabVisible(): boolean {
+        return !document.hidden || Object.keys(this.visibleTabs).length > 0;
+    }
+
+    /**
+     * Tells the other tabs of a pushed event concerning chats (such as a messages or typing
+     * event), so that each can update its chat window.
+     * Called by the leader, which is the only tab to receive pushed events.
+     * @param {PushEvent} event The event.
+     */
+    postChatEvent(event: PushEvent) {
+        if (this.isLeader) {
+            this.post({ type: 'chatEvent', event });
+        }
+    }
+
+    /**
+     * Begins exchanging messages with the other tabs, and takes part in electing a leader.
+     */
+    start() {
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(channelName);
+            this.channel.onmessage = e => this.receive(e.data);
+        } else {
+            window.addEventListener('storage', e => {
+                if (e.key === channelName && e.newValue) {
+                    this.receive(e.newValue);
+                }
+            });
+        }
+        window.addEventListener('beforeunload', () => {
+            if (this.isLeader) {
+                this.post({ type: 'resign' });
+            } else {
+                this.post({ type: 'visibility', visible: false });
+            }
+        });
+        document.addEventListener('visibilitychange', () => this.postVisibility());
+        Store.store.subscribe(mutation => this.onMutation(mutation));
+        // A new tab gives an existing leader a little more than one heartbeat to announce itself
+        // before claiming leadership.
+        this.leaderSeenAt = Date.now() - tabSyncPolicy.leaderTimeout + tabSyncPolicy.heartbeatInterval * 1.5;
+        this.tick();
+    }
+
+    private async apply(mutation: { type: string, payload?: any }) {
+        let payload = mutation.payload;
+        try {
+            if (mutation.type === Store.setUser) {
+                // The user can't be sent between tabs, but the tabs share the OIDC user store.
+                payload = payload ? await authMgr.getUser() : null;
+            } else if (mutation.type === Store.setCulture) {
+                await setCulture(payload);
+            }
+            this.remote = true;
+            Store.store.commit(mutation.type, payload);
+        } catch (error) {
+            ErrorMsg.logError('tab-sync.apply', error);
+        } finally {
+            this.remote = false;
+        }
+    }
+
+    private onMutation(mutation: { type: string, payload: any }) {
+        if (this.remote || !isSynced(mutation.type)) {
+            return;
+        }
+        let payload = mutation.type === Store.setUser ? !!mutation.payload : mutation.payload;
+        this.post({ type: 'mutation', mutation: { type: mutation.type, payload } });
+    }
+
+    private post(message: { type: TabMessageType, event?: PushEvent, mutation?: { type: string, payload?: any }, visible?: boolean }) {
+        let data = JSON.stringify(<TabMessage>{ ...message, from: this.id });
+        try {
+            if (this.channel) {
+                this.channel.postMessage(data);
+            } else {
+                // Storage events are raised only in the other tabs, and only when the value changes.
+                localStorage.setItem(channelName, data);
+                localStorage.removeItem(channelName);
+            }
+        } catch (error) {
+            ErrorMsg.logError('tab-sync.post', error);
+        }
+    }
+
+    private postVisibility() {
+        if (!this.isLeader) {
+            this.post({ type: 'visibility', visible: !document.hidden });
+        }
+    }
+
+    private receive(data: string) {
+        let message: TabMessage;
+        try {
+            message = JSON.parse(data);
+        } catch (error) {
+            ErrorMsg.logError('tab-sync.receive', error);
+            return;
+        }
+        switch (message.type) {
+            case 'chatEvent':
+                Store.store.dispatch(Store.receiveChatEvent, message.event);
+                break;
+            case 'heartbeat':
+                if (this.isLeader) {
+                    // If two tabs claim leadership at once, the one with the lower id keeps it.
+                    if (message.from > this.id) {
+                        return;
+                    }
+                    this.setLeader(false);
+                }
+                if (this.leaderId !== message.from) {
+                    this.leaderId = message.from;
+                    // A new leader doesn't yet know whether this tab is visible.
+                    this.postVisibility();
+                }
+                this.leaderSeenAt = Date.now();
+                break;
+            case 'mutation':
+                this.apply(message.mutation);
+                break;
+            case 'resign':
+                if (message.from === this.leaderId) {
+                    this.leaderId = null;
+                    this.leaderSeenAt = 0;
+                }
+                break;
+            case 'visibility':
+                if (message.visible) {
+                    this.visibleTabs[message.from] = true;
+                } else {
+                    delete this.visibleTabs[message.from];
+                }
+                break;
+        }
+    }
+
+    private setLeader(leader: boolean) {
+        this.isLeader = leader;
+        this.leaderId = leader ? this.id : null;
+        this.visibleTabs = {};
+        if (leader && Store.store.state.userState.user) {
+            pushChannel.start();
+        } else {
+            pushChannel.stop();
+        }
+    }
+
+    private tick() {
+        if (!this.isLeader && Date.now() - this.leaderSeenAt >= tabSyncPolicy.leaderTimeout) {
+            this.setLeader(true);
+        }
+        if (this.isLeader) {
+            this.post({ type: 'heartbeat' });
+        }
+        setTimeout(() => this.tick(), tabSyncPolicy.heartbeatInterval);
+    }
+}
+
+/**
+ * The TabSync of this tab.
+ */
+export const tabSync = new TabSync();
\ No newline at end of file
@@ -3,7 +3,7 @@ import * as Api from '../api';
 import * as ErrorMsg from '../error-msg';
 import { Repository } from './repository';
 import { router } from '../router';
-import { ConversationViewModel, MessageViewModel } from '../store/messaging';
+import { ConversationViewModel, GroupMentionsViewModel, GroupReceiptViewModel, MessageViewModel } from '../store/messaging';
 
 /**
  * Describes an item in the SPA framework's main menu.
@@ -136,12 +136,22 @@ export const uiState = {
          */
         conversations: [] as ConversationViewModel[],
 
+        /**
+         * The id of a message of the current conversation which is highlighted and scrolled into
+         * view, such as one found by a search.
+         */
+        focusedMessageId: '',
 
         /**
          * Indicates the name of the group the user is currently chatting with.
          */
         groupChat: '',
 
+        /**
+         * Indicates that the current conversation has messages older than those retrieved so far.
+         */
+        hasOlderMessages: false,
+
 
         /**
          * Indicates the name of the user the current user is currently chatting with.
@@ -149,6 +159,11 @@ export const uiState = {
         interlocutor: '',
 
 
+        /**
+         * The group chats in which the current user has unread mentions.
+         */
+        mentions: [] as GroupMentionsViewModel[],
+
         /**
          * The messages of the current conversation.
          */
@@ -159,11 +174,47 @@ export const uiState = {
          */
         proxySender: '',
 
+        /**
+         * In a group chat, how far each member of the group has received and read the chat.
+         */
+        receipts: [] as GroupReceiptViewModel[],
+
         /**
          * The system messages the current user has received.
          */
-        systemMessages: [] as MessageViewModel[]
-    }
+        systemMessages: [] as MessageViewModel[],
+
+        /**
+         * In a group chat, the message which started the thread shown beside the chat, if any.
+         */
+        thread: null as MessageViewModel,
+
+        /**
+         * The replies in the thread shown beside the current group chat.
+         */
+        threadMessages: [] as MessageViewModel[],
+
+        /**
+         * In a group chat, the names of the other members who are currently typing.
+         */
+        typingUsers: [] as string[]
+    },
+
+    /**
+     * Indicates that the API can't currently be reached, so changes are being saved to be sent
+     * later (see mutation-queue.ts).
+     */
+    offline: false,
+
+    /**
+     * The number of changes saved while offline which have not yet been sent.
+     */
+    pendingChanges: 0,
+
+    /**
+     * The hosts which are currently failing and are not being called (see resilience.ts).
+     */
+    unavailableServices: [] as string[]
 };
 
 function addMenuItem(menu: MenuItem, router: VueRouter, data: any, dataClass: string, category: string, iconClass: string) {
@@ -1,22 +1,55 @@
 ﻿import Oidc from 'oidc-client';
 import { Group } from '../components/group/manage';
+import { NotificationSettingsViewModel } from './messaging';
 
 export interface PermissionData {
     dataType?: string;
     id?: string;
     canShare?: string;
     permission?: string;
+    unauthorized?: boolean;
 }
 
 export interface SharePermission {
     canShare?: string;
     permission?: string;
+    retrievedAt?: number; // as returned by Date.now()
+    unauthorized?: boolean; // set when the user was found to have no permission at all
 }
 
 export interface TypeSharePermission {
     canShare?: string;
     permission?: string;
     ids?: any; // a map of ids to SharePermissions
+    retrievedAt?: number; // undefined if only item permissions have been retrieved
+    unauthorized?: boolean; // set when the user was found to have no permission at all
+}
+
+/**
+ * Controls how long stored permissions are used.
+ */
+export interface PermissionPolicy {
+    /**
+     * How long a permission is used before it is retrieved again, in milliseconds.
+     */
+    maxAge: number;
+}
+
+/**
+ * The permission policy used for all data. May be modified at startup to suit the deployment.
+ */
+export const permissionPolicy: PermissionPolicy = {
+    maxAge: 300000
+};
+
+/**
+ * Determines whether a stored permission is missing or too old to be relied upon.
+ * @param {SharePermission} permission The stored permission, if any.
+ */
+export function isPermissionExpired(permission: SharePermission): boolean {
+    return !permission
+        || permission.retrievedAt === undefined
+        || Date.now() - permission.retrievedAt >= permissionPolicy.maxAge;
 }
 
 export interface ShareData {
@@ -76,6 +109,11 @@ export const userState = {
      */
     managedGroups: [] as Group[],
 
+    /**
+     * The current user's notification settings.
+     */
+    notificationSettings: { mutedGroups: [], mutedUsers: [] } as NotificationSettingsViewModel,
+
     /**
      * A collection of known permissions, as a map of dataTypes to TypeSharePermission
      * objects.
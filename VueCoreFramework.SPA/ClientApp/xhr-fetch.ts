@@ -0,0 +1,59 @@
+﻿/**
+ * Reports the progress of an upload.
+ * @param {number} loaded The number of bytes sent so far.
+ * @param {number} total The total number of bytes being sent.
+ */
+export type ProgressCallback = (loaded: number, total: number) => void;
+
+function parseHeaders(raw: string): Headers {
+    let headers = new Headers();
+    raw.trim().split(/[\r\n]+/).forEach(line => {
+        let index = line.indexOf(':');
+        if (index > 0) {
+            headers.append(line.substring(0, index).trim(), line.substring(index + 1).trim());
+        }
+    });
+    return headers;
+}
+
+/**
+ * Performs a call like fetch, but through XMLHttpRequest, which (unlike fetch) reports the
+ * progress of the request body as it is sent. Rejected with a TypeError if the request fails, as
+ * fetch is; aborting the call through init.signal also rejects it.
+ * @param {string} url The URL to fetch.
+ * @param {RequestInit} init The options which would be passed to fetch.
+ * @param {ProgressCallback} onProgress Called as the request body is sent.
+ * @returns {Response} The response.
+ */
+export function fetchWithProgress(url: string, init: RequestInit, onProgress: ProgressCallback): Promise<Response> {
+    return new Promise<Response>((resolve, reject) => {
+        let xhr = new XMLHttpRequest();
+        xhr.open(init.method || 'GET', url);
+        xhr.responseType = 'blob';
+        xhr.withCredentials = init.credentials === 'include';
+        if (init.headers) {
+            new Headers(init.headers).forEach((value: string, name: string) => xhr.setRequestHeader(name, value));
+        }
+        xhr.upload.onprogress = event => {
+            if (event.lengthComputable) {
+                onProgress(event.loaded, event.total);
+            }
+        };
+        xhr.onload = () => {
+            // A Response can't be constructed with a body for statuses which never have one.
+            let body = xhr.status === 204 || xhr.status === 205 || xhr.status === 304 ? null : xhr.response;
+            resolve(new Response(body, {
+                status: xhr.status,
+                statusText: xhr.statusText,
+                headers: parseHeaders(xhr.getAllResponseHeaders())
+            }));
+        };
+        xhr.onerror = () => reject(new TypeError('Network request failed'));
+        xhr.ontimeout = () => reject(new TypeError('Network request timed out'));
+        xhr.onabort = () => reject(new TypeError('Network request aborted'));
+        if (init.signal) {
+            init.signal.addEventListener('abort', () => xhr.abort());
+        }
+        xhr.send(init.body);
+    });
+}
\ No newline at end of file
@@ -5,9 +5,11 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
+using Newtonsoft.Json;
 using System.Linq;
 using System.Text;
 using System.Threading.Tasks;
+using VueCoreFramework.Core.Configuration;
 using VueCoreFramework.Core.Messages;
 
 namespace VueCoreFramework.Controllers
@@ -17,18 +19,24 @@ namespace VueCoreFramework.Controllers
     /// </summary>
     public class HomeController : Controller
     {
+        private readonly ClientOptions _clientOptions;
         private readonly RequestLocalizationOptions _localizationOptions;
         private readonly ILogger<HomeController> _logger;
+        private readonly URLOptions _urls;
 
         /// <summary>
         /// Initializes a new instance of <see cref="HomeController"/>.
         /// </summary>
         public HomeController(
+            IOptions<ClientOptions> clientOptions,
             IOptions<RequestLocalizationOptions> localizationOptions,
-            ILogger<HomeController> logger)
+            ILogger<HomeController> logger,
+            IOptions<URLOptions> urls)
         {
+            _clientOptions = clientOptions.Value;
             _localizationOptions = localizationOptions.Value;
             _logger = logger;
+            _urls = urls.Value;
         }
 
         /// <summary>
@@ -56,7 +64,8 @@ namespace VueCoreFramework.Controllers
             => Json(_localizationOptions.SupportedCultures.Select(c => c.Name));
 
         /// <summary>
-        /// The primary endpoint for the site. Displays the SPA.
+        /// The primary endpoint for the site. Displays the SPA, along with the configuration it
+        /// needs to connect to the other hosts.
         /// </summary>
         /// <param name="forwardUrl">
         /// An optional redirect URL which may be used to load a specific page within the SPA.
@@ -64,6 +73,15 @@ namespace VueCoreFramework.Controllers
         public IActionResult Index(string forwardUrl = "")
         {
             ViewData["ForwardUrl"] = forwardUrl;
+            ViewData["ClientConfig"] = JsonConvert.SerializeObject(new
+            {
+                apiUrl = _urls.ApiURL,
+                authUrl = _urls.AuthURL,
+                spaUrl = _urls.ClientURL,
+                apiVersion = _clientOptions.ApiVersion,
+                clientId = _clientOptions.ClientId,
+                scopes = _clientOptions.Scopes
+            });
             return View();
         }
 
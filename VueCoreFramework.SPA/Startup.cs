@@ -76,6 +76,7 @@ namespace VueCoreFramework
             .AddDataAnnotationsLocalization();
 
             services.Configure<URLOptions>(Configuration.GetSection("URLs"));
+            services.Configure<ClientOptions>(Configuration.GetSection("Client"));
         }
 
         /// <summary>
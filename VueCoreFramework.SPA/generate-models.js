@@ -0,0 +1,170 @@
+/**
+ * Generates ClientApp/store/models.ts, which contains a TypeScript interface for the ViewModels
+ * of each data type exposed by the API, and typed accessors for their repositories.
+ *
+ * The API must be running. Its URL and version are read from appsettings.json, and may be
+ * overridden with the API_URL and API_VERSION environment variables. Field definitions are only
+ * available to signed-in users, so an access token must be provided in API_ACCESS_TOKEN.
+ *
+ * Usage: npm run generate-models
+ */
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const https = require('https');
+const url = require('url');
+
+const outputPath = path.join(__dirname, 'ClientApp', 'store', 'models.ts');
+
+function readSettings() {
+    const text = fs.readFileSync(path.join(__dirname, 'appsettings.json'), 'utf8').replace(/^\uFEFF/, '');
+    const settings = JSON.parse(text);
+    let apiUrl = process.env.API_URL || settings.URLs.ApiURL;
+    if (!apiUrl.endsWith('/')) {
+        apiUrl += '/';
+    }
+    return {
+        apiUrl,
+        apiVersion: process.env.API_VERSION || settings.Client.ApiVersion,
+        token: process.env.API_ACCESS_TOKEN
+    };
+}
+
+function getJson(settings, relUrl) {
+    return new Promise((resolve, reject) => {
+        const options = url.parse(settings.apiUrl + relUrl);
+        options.headers = { 'Accept': `application/json;v=${settings.apiVersion}` };
+        if (settings.token) {
+            options.headers['Authorization'] = `Bearer ${settings.token}`;
+        }
+        const client = options.protocol === 'https:' ? https : http;
+        client.get(options, response => {
+            let body = '';
+            response.setEncoding('utf8');
+            response.on('data', chunk => body += chunk);
+            response.on('end', () => {
+                if (response.statusCode < 200 || response.statusCode >= 300) {
+                    reject(new Error(`${relUrl} returned ${response.statusCode} ${response.statusMessage}`));
+                    return;
+                }
+                try {
+                    resolve(JSON.parse(body));
+                } catch (error) {
+                    reject(new Error(`${relUrl} did not return JSON: ${error.message}`));
+                }
+            });
+        }).on('error', reject);
+    });
+}
+
+/**
+ * Determines the TypeScript type of a ViewModel property from its field definition, matching the
+ * way the API's Repository builds ViewModels: most values are sent as their string equivalent, and
+ * null values as placeholder text.
+ */
+function getPropertyType(def) {
+    switch (def.type) {
+        case 'vuetifySelect':
+            // Enums are given their integer value.
+            return 'number';
+        case 'vuetifyTimespan':
+            // Durations may be TimeSpans or tick counts.
+            return 'string | number';
+        case 'label':
+            // Labels are used for keys, hidden properties, and unrecognized types, and identify
+            // the type of their value in their input type.
+            return def.inputType || 'string';
+        default:
+            return 'string';
+    }
+}
+
+/**
+ * Determines whether the ViewModel includes a 'Formatted' companion property for the field.
+ */
+function hasFormattedProperty(def) {
+    return def.type === 'vuetifySelect'
+        || def.type === 'vuetifyDateTime'
+        || def.type === 'vuetifyTimespan';
+}
+
+function generateInterface(dataType, defs) {
+    const properties = [];
+    for (const def of defs) {
+        properties.push({ name: def.model, type: getPropertyType(def) });
+        if (hasFormattedProperty(def)) {
+            properties.push({ name: `${def.model}Formatted`, type: 'string' });
+        }
+    }
+    properties.sort((a, b) => a.name.localeCompare(b.name));
+    const lines = [
+        '/**',
+        ` * A ViewModel representing an item of the ${dataType} data type.`,
+        ' */',
+        `export interface ${dataType} extends DataItem {`
+    ];
+    for (const property of properties) {
+        lines.push(`    ${property.name}: ${property.type};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
+
+function generate(models) {
+    const dataTypes = Object.keys(models).sort();
+    const sections = [
+        [
+            '// This file is generated by generate-models.js from the data types exposed by the API.',
+            '// Do not edit it directly; run \'npm run generate-models\' after changing the data model.',
+            "import { DataItem, Repository } from './repository';",
+            "import { store } from './store';"
+        ].join('\n')
+    ];
+    for (const dataType of dataTypes) {
+        sections.push(generateInterface(dataType, models[dataType]));
+    }
+    sections.push([
+        '/**',
+        ' * Maps the name of each data type to the interface of its ViewModels.',
+        ' */',
+        'export interface DataTypes {',
+        ...dataTypes.map(dataType => `    ${dataType}: ${dataType};`),
+        '}'
+    ].join('\n'));
+    sections.push([
+        '/**',
+        ' * Retrieves the Repository for the given data type, typed to its ViewModels.',
+        ' * @param {string} dataType The name of the data type.',
+        ' * @returns {Repository} The Repository for the data type.',
+        ' */',
+        'export function getRepository<K extends keyof DataTypes>(dataType: K): Repository<DataTypes[K]> {',
+        '    return store.getters.getRepository(dataType) as Repository<DataTypes[K]>;',
+        '}'
+    ].join('\n'));
+    return '\uFEFF' + sections.join('\n\n');
+}
+
+async function main() {
+    const settings = readSettings();
+    const types = await getJson(settings, 'api/Data/GetTypes');
+    const childTypes = await getJson(settings, 'api/Data/GetChildTypes');
+    const dataTypes = Object.keys(types);
+    for (const dataType of Object.keys(childTypes)) {
+        // Child types without a DataClass attribute (such as join entities) only have the
+        // placeholder property, and aren't given interfaces.
+        if ('iconClass' in childTypes[dataType]) {
+            dataTypes.push(dataType);
+        }
+    }
+    const models = {};
+    for (const dataType of dataTypes) {
+        models[dataType] = await getJson(settings, `api/Data/${dataType}/GetFieldDefinitions`);
+    }
+    fs.writeFileSync(outputPath, generate(models), 'utf8');
+    console.log(`Generated interfaces for ${dataTypes.length} data types in ${path.relative(__dirname, outputPath)}.`);
+}
+
+main().catch(error => {
+    console.error(`Model generation failed: ${error.message}`);
+    process.exit(1);
+});
@@ -0,0 +1,41 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+using System;
+using System.Collections.Generic;
+
+#pragma warning disable CS1591
+namespace VueCoreFramework.Sample.Migrations
+{
+    public partial class GroupReceipts : Migration
+    {
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "GroupReceipts",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    GroupName = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false),
+                    LastDelivered = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    LastRead = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    Username = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_GroupReceipts", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_GroupReceipts_GroupName_Username",
+                table: "GroupReceipts",
+                columns: new[] { "GroupName", "Username" },
+                unique: true);
+        }
+
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "GroupReceipts");
+        }
+    }
+}
+#pragma warning restore CS1591
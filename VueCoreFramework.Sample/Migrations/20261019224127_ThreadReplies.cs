@@ -0,0 +1,59 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+using System;
+using System.Collections.Generic;
+
+#pragma warning disable CS1591
+namespace VueCoreFramework.Sample.Migrations
+{
+    public partial class ThreadReplies : Migration
+    {
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "ThreadId",
+                table: "Messages",
+                type: "uniqueidentifier",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "ThreadReceipts",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    LastRead = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    ThreadId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    Username = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ThreadReceipts", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Messages_ThreadId",
+                table: "Messages",
+                column: "ThreadId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ThreadReceipts_ThreadId_Username",
+                table: "ThreadReceipts",
+                columns: new[] { "ThreadId", "Username" },
+                unique: true);
+        }
+
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ThreadReceipts");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Messages_ThreadId",
+                table: "Messages");
+
+            migrationBuilder.DropColumn(
+                name: "ThreadId",
+                table: "Messages");
+        }
+    }
+}
+#pragma warning restore CS1591
@@ -0,0 +1,60 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+using System;
+using System.Collections.Generic;
+
+#pragma warning disable CS1591
+namespace VueCoreFramework.Sample.Migrations
+{
+    public partial class ChatNotifications : Migration
+    {
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<TimeSpan>(
+                name: "DoNotDisturbEnd",
+                table: "AspNetUsers",
+                type: "time",
+                nullable: true);
+
+            migrationBuilder.AddColumn<TimeSpan>(
+                name: "DoNotDisturbStart",
+                table: "AspNetUsers",
+                type: "time",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "ChatMutes",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    IsGroup = table.Column<bool>(type: "bit", nullable: false),
+                    Name = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false),
+                    Username = table.Column<string>(type: "nvarchar(256)", maxLength: 256, nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ChatMutes", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ChatMutes_Username_IsGroup_Name",
+                table: "ChatMutes",
+                columns: new[] { "Username", "IsGroup", "Name" },
+                unique: true);
+        }
+
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ChatMutes");
+
+            migrationBuilder.DropColumn(
+                name: "DoNotDisturbEnd",
+                table: "AspNetUsers");
+
+            migrationBuilder.DropColumn(
+                name: "DoNotDisturbStart",
+                table: "AspNetUsers");
+        }
+    }
+}
+#pragma warning restore CS1591
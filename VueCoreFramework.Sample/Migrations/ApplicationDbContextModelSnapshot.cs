@@ -143,6 +143,10 @@ namespace VueCoreFramework.Sample.Migrations
 
                     b.Property<string>("Culture");
 
+                    b.Property<TimeSpan?>("DoNotDisturbEnd");
+
+                    b.Property<TimeSpan?>("DoNotDisturbStart");
+
                     b.Property<string>("Email")
                         .HasMaxLength(256);
 
@@ -190,6 +194,54 @@ namespace VueCoreFramework.Sample.Migrations
                     b.ToTable("AspNetUsers");
                 });
 
+            modelBuilder.Entity("VueCoreFramework.Core.Models.ChatMute", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<bool>("IsGroup");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.Property<string>("Username")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("Username", "IsGroup", "Name")
+                        .IsUnique();
+
+                    b.ToTable("ChatMutes");
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.GroupReceipt", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<string>("GroupName")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.Property<DateTime?>("LastDelivered");
+
+                    b.Property<DateTime?>("LastRead");
+
+                    b.Property<string>("Username")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("GroupName", "Username")
+                        .IsUnique();
+
+                    b.ToTable("GroupReceipts");
+                });
+
             modelBuilder.Entity("VueCoreFramework.Core.Models.Log", b =>
                 {
                     b.Property<int>("Id")
@@ -229,8 +281,12 @@ namespace VueCoreFramework.Sample.Migrations
 
                     b.Property<string>("GroupRecipientName");
 
+                    b.Property<bool>("IsDeleted");
+
                     b.Property<bool>("IsSystemMessage");
 
+                    b.Property<DateTime?>("LastEdited");
+
                     b.Property<bool>("Received");
 
                     b.Property<bool>("RecipientDeleted");
@@ -245,6 +301,8 @@ namespace VueCoreFramework.Sample.Migrations
 
                     b.Property<string>("SingleRecipientName");
 
+                    b.Property<Guid?>("ThreadId");
+
                     b.Property<DateTime>("Timestamp")
                         .ValueGeneratedOnAdd()
                         .HasDefaultValueSql("GETUTCDATE()");
@@ -257,9 +315,148 @@ namespace VueCoreFramework.Sample.Migrations
 
                     b.HasIndex("SingleRecipientId");
 
+                    b.HasIndex("ThreadId");
+
                     b.ToTable("Messages");
                 });
 
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageAttachment", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<string>("ContentType")
+                        .IsRequired()
+                        .HasMaxLength(128);
+
+                    b.Property<byte[]>("Data")
+                        .IsRequired();
+
+                    b.Property<string>("FileName")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.Property<Guid>("MessageId");
+
+                    b.Property<long>("Size");
+
+                    b.Property<string>("Thumbnail");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("MessageId");
+
+                    b.ToTable("MessageAttachments");
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageEdit", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<string>("Content")
+                        .HasMaxLength(125);
+
+                    b.Property<Guid>("MessageId");
+
+                    b.Property<DateTime>("Timestamp")
+                        .ValueGeneratedOnAdd()
+                        .HasDefaultValueSql("GETUTCDATE()");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("MessageId");
+
+                    b.ToTable("MessageEdits");
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageFlag", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<Guid>("MessageId");
+
+                    b.Property<string>("Note")
+                        .HasMaxLength(500);
+
+                    b.Property<DateTime>("Timestamp");
+
+                    b.Property<string>("Username")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("MessageId")
+                        .IsUnique();
+
+                    b.ToTable("MessageFlags");
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageMention", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<Guid>("MessageId");
+
+                    b.Property<string>("Username")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("MessageId", "Username")
+                        .IsUnique();
+
+                    b.ToTable("MessageMentions");
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageReaction", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<string>("Emoji")
+                        .IsRequired()
+                        .HasMaxLength(16);
+
+                    b.Property<Guid>("MessageId");
+
+                    b.Property<string>("Username")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("MessageId", "Username", "Emoji")
+                        .IsUnique();
+
+                    b.ToTable("MessageReactions");
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.ThreadReceipt", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd();
+
+                    b.Property<DateTime?>("LastRead");
+
+                    b.Property<Guid>("ThreadId");
+
+                    b.Property<string>("Username")
+                        .IsRequired()
+                        .HasMaxLength(256);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ThreadId", "Username")
+                        .IsUnique();
+
+                    b.ToTable("ThreadReceipts");
+                });
+
             modelBuilder.Entity("VueCoreFramework.Sample.Models.Airline", b =>
                 {
                     b.Property<Guid>("Id")
@@ -416,6 +613,46 @@ namespace VueCoreFramework.Sample.Migrations
                         .HasForeignKey("SingleRecipientId");
                 });
 
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageAttachment", b =>
+                {
+                    b.HasOne("VueCoreFramework.Core.Models.Message", "Message")
+                        .WithMany("Attachments")
+                        .HasForeignKey("MessageId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageEdit", b =>
+                {
+                    b.HasOne("VueCoreFramework.Core.Models.Message", "Message")
+                        .WithMany("Edits")
+                        .HasForeignKey("MessageId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageFlag", b =>
+                {
+                    b.HasOne("VueCoreFramework.Core.Models.Message", "Message")
+                        .WithOne("Flag")
+                        .HasForeignKey("VueCoreFramework.Core.Models.MessageFlag", "MessageId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageMention", b =>
+                {
+                    b.HasOne("VueCoreFramework.Core.Models.Message", "Message")
+                        .WithMany("Mentions")
+                        .HasForeignKey("MessageId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
+            modelBuilder.Entity("VueCoreFramework.Core.Models.MessageReaction", b =>
+                {
+                    b.HasOne("VueCoreFramework.Core.Models.Message", "Message")
+                        .WithMany("Reactions")
+                        .HasForeignKey("MessageId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
             modelBuilder.Entity("VueCoreFramework.Sample.Models.AirlineCountry", b =>
                 {
                     b.HasOne("VueCoreFramework.Sample.Models.Airline", "Airline")
@@ -226,10 +226,128 @@ namespace VueCoreFramework.Test.Data
             await repo.AddAsync(null, null, "en-US", _localizer);
             var count = context.Countries.Count();
 
-            var vms = await repo.GetPageAsync(null, null, false, 1, 5, new string[] { },
+            var vms = await repo.GetPageAsync(null, null, null, false, 1, 5, null, new string[] { },
                 new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, CustomClaimTypes.PermissionAll) },
                 "en-US", _localizer);
-            Assert.AreEqual(count, vms.Count());
+            Assert.AreEqual(count, vms.PageItems.Count());
+        }
+
+        [TestMethod]
+        public async Task GetPage_ContinuationToken()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            await repo.AddAsync(null, null, "en-US", _localizer);
+            await repo.AddAsync(null, null, "en-US", _localizer);
+            await repo.AddAsync(null, null, "en-US", _localizer);
+            var count = context.Countries.Count();
+
+            var claims = new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, CustomClaimTypes.PermissionAll) };
+            var first = await repo.GetPageAsync(null, null, null, false, 1, 2, null, new string[] { }, claims, "en-US", _localizer);
+            Assert.IsNotNull(first.ContinuationToken);
+
+            var next = await repo.GetPageAsync(null, null, null, false, 0, 2, first.ContinuationToken, new string[] { }, claims, "en-US", _localizer);
+            var expected = await repo.GetPageAsync(null, null, null, false, 2, 2, null, new string[] { }, claims, "en-US", _localizer);
+            CollectionAssert.AreEqual(
+                expected.PageItems.Select(i => i[nameof(DataItem.Id).ToInitialLower()]).ToList(),
+                next.PageItems.Select(i => i[nameof(DataItem.Id).ToInitialLower()]).ToList());
+            Assert.AreEqual(count, next.TotalItems);
+        }
+
+        [TestMethod]
+        public async Task GetPage_ExceptNotCounted()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            await repo.AddAsync(null, null, "en-US", _localizer);
+            await repo.AddAsync(null, null, "en-US", _localizer);
+            var count = context.Countries.Count();
+            var item = context.Countries.FirstOrDefault();
+
+            var vms = await repo.GetPageAsync(null, null, null, false, 1, 5, null, new string[] { item.Id.ToString() },
+                new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, CustomClaimTypes.PermissionAll) },
+                "en-US", _localizer);
+            Assert.AreEqual(count - 1, vms.TotalItems);
+        }
+
+        [TestMethod]
+        public async Task GetPage_QueryFilter()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            context.Countries.Add(new Country { EpiIndex = 91.5 });
+            context.Countries.Add(new Country { EpiIndex = 92.5 });
+            context.Countries.Add(new Country { EpiIndex = 94.5 });
+            context.Countries.Add(new Country { EpiIndex = 97.5 });
+            await context.SaveChangesAsync();
+
+            var query = new DataQuery
+            {
+                Filter = new FilterGroup
+                {
+                    Logic = FilterGroup.Or,
+                    Filters = new List<FieldFilter>
+                    {
+                        new FieldFilter { Field = "epiIndex", Operator = FieldFilter.Range, From = 91, To = 93 },
+                        new FieldFilter { Field = "epiIndex", Operator = FieldFilter.Equal, Value = 97.5 }
+                    }
+                }
+            };
+            var vms = await repo.GetPageAsync(null, query, null, false, 1, 5, null, new string[] { },
+                new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, CustomClaimTypes.PermissionAll) },
+                "en-US", _localizer);
+            Assert.AreEqual(3, vms.TotalItems);
+        }
+
+        [TestMethod]
+        public async Task GetPage_QuerySort()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            var low = new Country { EpiIndex = 81.5 };
+            var high = new Country { EpiIndex = 83.5 };
+            var middle = new Country { EpiIndex = 82.5 };
+            context.Countries.AddRange(low, high, middle);
+            await context.SaveChangesAsync();
+
+            var query = new DataQuery
+            {
+                Filter = new FilterGroup
+                {
+                    Filters = new List<FieldFilter>
+                    {
+                        new FieldFilter { Field = "epiIndex", Operator = FieldFilter.GreaterThan, Value = 81 },
+                        new FieldFilter { Field = "epiIndex", Operator = FieldFilter.LessThan, Value = 84 }
+                    }
+                },
+                Sort = new List<SortDescriptor> { new SortDescriptor { Field = "epiIndex", Descending = true } }
+            };
+            var vms = await repo.GetPageAsync(null, query, null, false, 1, 5, null, new string[] { },
+                new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, CustomClaimTypes.PermissionAll) },
+                "en-US", _localizer);
+            CollectionAssert.AreEqual(
+                new List<object> { high.Id.ToString(), middle.Id.ToString(), low.Id.ToString() },
+                vms.PageItems.Select(i => i[nameof(DataItem.Id).ToInitialLower()]).ToList());
+        }
+
+        [TestMethod]
+        public async Task GetPage_QueryInvalidField()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            var query = new DataQuery
+            {
+                Filter = new FilterGroup
+                {
+                    Filters = new List<FieldFilter>
+                    {
+                        new FieldFilter { Field = "notAProperty", Operator = FieldFilter.Null }
+                    }
+                }
+            };
+            await Assert.ThrowsExceptionAsync<ArgumentException>(() => repo.GetPageAsync(null, query, null, false, 1, 5, null, new string[] { },
+                new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, CustomClaimTypes.PermissionAll) },
+                "en-US", _localizer));
         }
 
         [TestMethod]
@@ -240,9 +358,9 @@ namespace VueCoreFramework.Test.Data
             await repo.AddAsync(null, null, "en-US", _localizer);
             await repo.AddAsync(null, null, "en-US", _localizer);
 
-            var vms = await repo.GetPageAsync(null, null, false, 1, 5, new string[] { },
+            var vms = await repo.GetPageAsync(null, null, null, false, 1, 5, null, new string[] { },
                 new List<Claim> { }, "en-US", _localizer);
-            Assert.AreEqual(0, vms.Count());
+            Assert.AreEqual(0, vms.PageItems.Count());
         }
 
         [TestMethod]
@@ -256,10 +374,10 @@ namespace VueCoreFramework.Test.Data
 
             await repo.AddAsync(null, null, "en-US", _localizer);
 
-            var vms = await repo.GetPageAsync(null, null, false, 1, 5, new string[] { },
+            var vms = await repo.GetPageAsync(null, null, null, false, 1, 5, null, new string[] { },
                 new List<Claim> { new Claim(CustomClaimTypes.PermissionDataAll, $"{nameof(Country)}{{{item.Id}}}") },
                 "en-US", _localizer);
-            Assert.AreEqual(1, vms.Count());
+            Assert.AreEqual(1, vms.PageItems.Count());
         }
 
         [TestMethod]
@@ -402,7 +520,38 @@ namespace VueCoreFramework.Test.Data
 
             Assert.IsNotNull(item);
 
-            await repo.UpdateAsync(item, "en-US", _localizer);
+            await repo.UpdateAsync(item, null, "en-US", _localizer);
+        }
+
+        [TestMethod]
+        public async Task UpdateAsync_CurrentVersion()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            var vm = await repo.AddAsync(null, null, "en-US", _localizer);
+            var item = context.Countries.Find(Guid.Parse(vm["id"].ToString()));
+            item.EpiIndex = 1;
+
+            var (_, conflict) = await repo.UpdateAsync(item, vm[repo.VersionTokenVMProperty] as string, "en-US", _localizer);
+
+            Assert.IsFalse(conflict);
+        }
+
+        [TestMethod]
+        public async Task UpdateAsync_StaleVersion()
+        {
+            var repo = context.GetRepositoryForType(typeof(Country));
+
+            var vm = await repo.AddAsync(null, null, "en-US", _localizer);
+            var item = context.Countries.Find(Guid.Parse(vm["id"].ToString()));
+            item.EpiIndex = 1;
+            var (updated, _) = await repo.UpdateAsync(item, null, "en-US", _localizer);
+            Assert.AreNotEqual(vm[repo.VersionTokenVMProperty], updated[repo.VersionTokenVMProperty]);
+
+            item.EpiIndex = 2;
+            var (_, conflict) = await repo.UpdateAsync(item, vm[repo.VersionTokenVMProperty] as string, "en-US", _localizer);
+
+            Assert.IsTrue(conflict);
         }
     }
 }